@@ -0,0 +1,53 @@
+// scripts/cache.ts
+// Inspect and purge the on-disk GitHub commit cache without starting the app.
+//   npm run cache -- stats
+//   npm run cache -- list owner/repo
+//   npm run cache -- purge [owner/repo[@sha]]
+// Goes through CommitCache, so the layout and checks are the app's own.
+import { CommitCache, PurgeFilter } from '../src/lib/github/commit-cache';
+
+const cache = new CommitCache();
+
+function parseTarget(target?: string): PurgeFilter {
+  if (!target) {
+    return {};
+  }
+  const [repoPart, sha] = target.split('@');
+  const [owner, repo] = repoPart.split('/');
+  return { owner: owner || undefined, repo: repo || undefined, sha: sha || undefined };
+}
+
+async function stats(): Promise<void> {
+  const repos = await cache.listRepos();
+  if (repos.length === 0) {
+    console.log('Commit cache is empty');
+    return;
+  }
+  console.table(repos);
+}
+
+async function list(target?: string): Promise<void> {
+  const { owner, repo } = parseTarget(target);
+  if (!owner || !repo) {
+    throw new Error('Usage: list owner/repo');
+  }
+  (await cache.listCommits(owner, repo)).forEach(sha => console.log(sha));
+}
+
+async function purge(target?: string): Promise<void> {
+  const removed = await cache.purge(parseTarget(target));
+  console.log(`Purged ${target || 'entire cache'}: ${removed} removed`);
+}
+
+const commands: Record<string, (target?: string) => Promise<void>> = { stats, list, purge };
+const [command, target] = process.argv.slice(2);
+
+if (!commands[command]) {
+  console.log('Usage: npm run cache -- <stats|list|purge> [owner/repo[@sha]]');
+  process.exit(1);
+}
+
+commands[command](target).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+// scripts/mock-gramaphone.ts
+// In-memory stand-in for Gramaphone's changelog API, for trying publishing,
+// updates, unpublishing and retries locally. The app publishes to it by default:
+//   NEXT_PUBLIC_SHOULD_PUBLISH=true npm run dev
+// MOCK_GRAMAPHONE_FAIL=3 answers the first three requests with a 503.
+// MOCK_GRAMAPHONE_TOKEN and MOCK_GRAMAPHONE_SECRET make it require the bearer
+// token and request signature the app sends with GRAMAPHONE_API_TOKEN and
+// GRAMAPHONE_SIGNING_SECRET. Tests start it in-process with createMockGramaphone.
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { SIGNATURE_HEADER, verifySignature } from '../src/lib/signing';
+
+export interface MockGramaphoneOptions {
+  token?: string;
+  secret?: string;
+  // Requests answered with a 503 before any is served
+  failures?: number;
+  log?: (line: string) => void;
+}
+
+export interface MockEntry {
+  id: string;
+  repoUrl: string;
+  content: string;
+  createdAt: string;
+  updatedAt?: string;
+  [field: string]: unknown;
+}
+
+export interface MockGramaphone {
+  server: http.Server;
+  entries: Map<string, MockEntry>;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function parseEntry(text: string): { repoUrl: string; content: string } | null {
+  try {
+    const body = JSON.parse(text);
+    return typeof body.repoUrl === 'string' && typeof body.content === 'string' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createMockGramaphone({ token, secret, failures = 0, log = console.log }: MockGramaphoneOptions = {}): MockGramaphone {
+  let failuresLeft = failures;
+  const entries = new Map<string, MockEntry>();
+  // Idempotency-Key -> entry id, so a retried publish returns the first entry
+  const keys = new Map<string, string>();
+
+  const server = http.createServer(async (req, res) => {
+    const body = await readBody(req);
+    const method = req.method ?? 'GET';
+    const url = req.url ?? '/';
+    const key = req.headers['idempotency-key'] as string | undefined;
+    log(`${method} ${url}${key ? ` (Idempotency-Key: ${key})` : ''}`);
+
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      log('  rejected: bad or missing bearer token');
+      return send(res, 401, { message: 'Unauthorized' });
+    }
+    if (secret) {
+      const header = req.headers[SIGNATURE_HEADER.toLowerCase()] as string | undefined;
+      const verification = verifySignature({ method, path: url, body }, header, secret);
+      if (!verification.ok) {
+        log(`  rejected: ${verification.reason}`);
+        return send(res, 401, { message: verification.reason });
+      }
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      return send(res, 503, { message: 'Mock outage' });
+    }
+
+    const [, api, collection, id] = url.split('?')[0].split('/');
+    if (api !== 'api' || collection !== 'changelogs') {
+      return send(res, 404, { message: 'Not found' });
+    }
+
+    if (!id) {
+      if (method === 'GET') {
+        return send(res, 200, { changelogs: Array.from(entries.values()) });
+      }
+      if (method === 'POST') {
+        const firstId = key ? keys.get(key) : undefined;
+        if (firstId && entries.has(firstId)) {
+          return send(res, 200, entries.get(firstId));
+        }
+        const entry = parseEntry(body);
+        if (!entry) {
+          return send(res, 400, { message: 'repoUrl and content are required' });
+        }
+        const created: MockEntry = { ...entry, id: randomUUID(), createdAt: new Date().toISOString() };
+        entries.set(created.id, created);
+        if (key) {
+          keys.set(key, created.id);
+        }
+        log(`  created ${created.id} for ${created.repoUrl} (${entries.size} entries)`);
+        return send(res, 201, created);
+      }
+      return send(res, 405, { message: 'Method not allowed' });
+    }
+
+    const existing = entries.get(id);
+    if (!existing) {
+      return send(res, 404, { message: `Changelog ${id} not found` });
+    }
+    switch (method) {
+      case 'GET':
+        return send(res, 200, existing);
+      case 'PUT':
+      case 'PATCH': {
+        const entry = method === 'PUT' ? parseEntry(body) : JSON.parse(body || '{}');
+        if (!entry) {
+          return send(res, 400, { message: 'repoUrl and content are required' });
+        }
+        const updated: MockEntry = { ...existing, ...entry, id, updatedAt: new Date().toISOString() };
+        entries.set(id, updated);
+        log(`  updated ${id}`);
+        return send(res, 200, updated);
+      }
+      case 'DELETE':
+        entries.delete(id);
+        log(`  deleted ${id} (${entries.size} entries)`);
+        return send(res, 204);
+      default:
+        return send(res, 405, { message: 'Method not allowed' });
+    }
+  });
+
+  return { server, entries };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MOCK_GRAMAPHONE_PORT || '3001', 10);
+  const { server } = createMockGramaphone({
+    token: process.env.MOCK_GRAMAPHONE_TOKEN,
+    secret: process.env.MOCK_GRAMAPHONE_SECRET,
+    failures: parseInt(process.env.MOCK_GRAMAPHONE_FAIL || '0', 10)
+  });
+  server.listen(port, () => {
+    console.log(`Mock Gramaphone listening on http://localhost:${port}`);
+  });
+}
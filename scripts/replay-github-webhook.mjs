@@ -0,0 +1,72 @@
+// scripts/replay-github-webhook.mjs
+// Replays recorded GitHub webhook deliveries against the app, signed the way
+// GitHub signs them, to try release notes without pushing real tags.
+//   npm run replay:github -- scripts/fixtures/github/release.published.json [...]
+// The event comes from the file name ("push.tag.json" is a push) unless
+// --event=<name> is given. Deliveries are signed with GITHUB_WEBHOOK_SECRET and
+// sent to GITHUB_WEBHOOK_URL (default http://localhost:3000/api/github/webhook).
+// --secret=<value> signs with a different secret, to see deliveries rejected.
+// --repo=owner/repo points the payload at another repository.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { createHmac, randomUUID } from 'node:crypto';
+
+const url = process.env.GITHUB_WEBHOOK_URL || 'http://localhost:3000/api/github/webhook';
+
+function parseArgs(argv) {
+  const options = {};
+  const files = [];
+  for (const arg of argv) {
+    const match = /^--([a-z]+)=(.*)$/.exec(arg);
+    if (match) {
+      options[match[1]] = match[2];
+    } else {
+      files.push(arg);
+    }
+  }
+  return { options, files };
+}
+
+async function replay(file, options) {
+  const payload = JSON.parse(await fs.readFile(file, 'utf8'));
+  if (options.repo) {
+    payload.repository = { ...payload.repository, full_name: options.repo, name: options.repo.split('/')[1] };
+  }
+  const event = options.event ?? path.basename(file).split('.')[0];
+  const body = JSON.stringify(payload);
+  const secret = options.secret ?? process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('Set GITHUB_WEBHOOK_SECRET, or pass --secret=...');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'GitHub-Hookshot/replay',
+      'X-GitHub-Event': event,
+      'X-GitHub-Delivery': randomUUID(),
+      'X-Hub-Signature-256': `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+    },
+    body
+  });
+  console.log(`${path.basename(file)} (${event}) -> ${response.status} ${await response.text()}`);
+  return response.ok;
+}
+
+const { options, files } = parseArgs(process.argv.slice(2));
+if (files.length === 0) {
+  console.error('Usage: npm run replay:github -- <payload.json> [...] [--event=push] [--repo=owner/repo] [--secret=...]');
+  process.exit(1);
+}
+
+let failed = false;
+for (const file of files) {
+  try {
+    failed = !(await replay(file, options)) || failed;
+  } catch (error) {
+    console.error(`${file}: ${error.message}`);
+    failed = true;
+  }
+}
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,76 @@
+// scripts/smtp-sink.mjs
+// Minimal SMTP server that accepts every message and prints it, for trying
+// email delivery without a mail account or MailHog. Point the app at it with:
+//   SMTP_HOST=localhost SMTP_PORT=1025 SMTP_FROM=gramphibian@localhost
+import net from 'node:net';
+
+const port = parseInt(process.env.SMTP_SINK_PORT || '1025', 10);
+
+function handle(socket) {
+  let buffer = '';
+  let envelope = { from: '', to: [] };
+  let data = null;
+
+  const reply = line => socket.write(`${line}\r\n`);
+
+  const onLine = line => {
+    if (data !== null) {
+      if (line === '.') {
+        console.log(`--- message from ${envelope.from} to ${envelope.to.join(', ')} ---`);
+        console.log(data.join('\n'));
+        console.log('--- end of message ---\n');
+        data = null;
+        envelope = { from: '', to: [] };
+        reply('250 OK: queued');
+      } else {
+        // Lines starting with a dot are escaped by doubling it
+        data.push(line.startsWith('..') ? line.slice(1) : line);
+      }
+      return;
+    }
+
+    const command = line.slice(0, 4).toUpperCase();
+    switch (command) {
+      case 'HELO':
+        return reply('250 smtp-sink');
+      case 'EHLO':
+        return reply('250 smtp-sink');
+      case 'MAIL':
+        envelope.from = line.replace(/^MAIL FROM:\s*/i, '');
+        return reply('250 OK');
+      case 'RCPT':
+        envelope.to.push(line.replace(/^RCPT TO:\s*/i, ''));
+        return reply('250 OK');
+      case 'DATA':
+        data = [];
+        return reply('354 End data with <CR><LF>.<CR><LF>');
+      case 'RSET':
+        envelope = { from: '', to: [] };
+        return reply('250 OK');
+      case 'NOOP':
+        return reply('250 OK');
+      case 'QUIT':
+        reply('221 Bye');
+        return socket.end();
+      default:
+        return reply('502 Command not implemented');
+    }
+  };
+
+  socket.setEncoding('utf8');
+  socket.on('data', chunk => {
+    buffer += chunk;
+    let index;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      onLine(line);
+    }
+  });
+  socket.on('error', () => socket.destroy());
+  reply('220 smtp-sink ready');
+}
+
+net.createServer(handle).listen(port, () => {
+  console.log(`SMTP sink listening on localhost:${port}`);
+});
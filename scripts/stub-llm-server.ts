@@ -0,0 +1,149 @@
+// scripts/stub-llm-server.ts
+// Deterministic OpenAI-compatible server for exercising the "local" provider
+// without a real model. Point the app at it with:
+//   ENABLE_LOCAL_LLM=true LOCAL_LLM_BASE_URL=http://localhost:11435/v1
+// Tests start it in-process with createStubLLMServer.
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+interface ChatMessage {
+  content: string;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+// Same input always produces the same output, so runs can be compared
+function buildReply(messages: ChatMessage[], responseFormat?: { type?: string }): string {
+  const prompt = messages.map(message => message.content).join('\n');
+  const commits = new Set<string>(prompt.match(/Commit: [0-9a-f]{7}/g) || []);
+  const files = new Set(prompt.match(/File: .+/g) || []);
+  const pullRequests = new Set<string>(prompt.match(/PR #\d+/g) || []);
+
+  // Changelog requests carry a JSON schema, either as response_format or spelled out in the prompt
+  if (responseFormat?.type === 'json_schema' || prompt.includes('matching this JSON schema')) {
+    return JSON.stringify({
+      summary: `Worked through ${commits.size || pullRequests.size} changes touching ${files.size} files.`,
+      sections: [{
+        title: 'Other',
+        entries: [
+          ...Array.from(commits, commit => ({
+            summary: `Changes from ${commit.slice(8)}`,
+            scope: null,
+            breaking: false,
+            commits: [commit.slice(8)],
+            pullRequests: [],
+            authors: []
+          })),
+          ...Array.from(pullRequests, pr => ({
+            summary: `Changes from ${pr}`,
+            scope: null,
+            breaking: false,
+            commits: [],
+            pullRequests: [Number(pr.slice(4))],
+            authors: []
+          }))
+        ]
+      }]
+    });
+  }
+
+  return [
+    'Hi Boss,',
+    '',
+    `- Worked through ${commits.size} commits touching ${files.size} files`,
+    `- Prompt size was ${prompt.length} characters`,
+    '',
+    'Thanks,',
+    'Stub'
+  ].join('\n');
+}
+
+function completion(model: string, content: string) {
+  return {
+    id: 'chatcmpl-stub',
+    object: 'chat.completion',
+    created: 0,
+    model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content },
+      finish_reason: 'stop'
+    }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  };
+}
+
+function streamCompletion(res: http.ServerResponse, model: string, content: string): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  for (const token of content.split(/(?<=\s)/)) {
+    res.write(`data: ${JSON.stringify({
+      id: 'chatcmpl-stub',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model,
+      choices: [{ index: 0, delta: { content: token }, finish_reason: null }]
+    })}\n\n`);
+  }
+
+  res.write(`data: ${JSON.stringify({
+    id: 'chatcmpl-stub',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model,
+    choices: [{ index: 0, delta: {}, finish_reason: 'stop' }]
+  })}\n\n`);
+  res.end('data: [DONE]\n\n');
+}
+
+export function createStubLLMServer(model = 'stub-model'): http.Server {
+  return http.createServer(async (req, res) => {
+    if (req.method === 'GET' && req.url === '/v1/models') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ object: 'list', data: [{ id: model, object: 'model', owned_by: 'stub' }] }));
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+      let body: { messages?: ChatMessage[]; response_format?: { type?: string }; stream?: boolean };
+      try {
+        body = JSON.parse(await readBody(req) || '{}');
+      } catch (error) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: `Invalid JSON body: ${error instanceof Error ? error.message : error}` } }));
+        return;
+      }
+      const content = buildReply(body.messages || [], body.response_format);
+
+      if (body.stream) {
+        streamCompletion(res, model, content);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(completion(model, content)));
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: `No route for ${req.method} ${req.url}` } }));
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.STUB_LLM_PORT || '11435', 10);
+  createStubLLMServer(process.env.STUB_LLM_MODEL || 'stub-model').listen(port, () => {
+    console.log(`Stub LLM server listening on http://localhost:${port}/v1`);
+  });
+}
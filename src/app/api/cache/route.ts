@@ -0,0 +1,51 @@
+// src/app/api/cache/route.ts
+
+import { NextResponse } from 'next/server';
+import { CommitCache } from '@/lib/github/commit-cache';
+
+function parseRepo(value: string | null): { owner?: string; repo?: string } {
+  if (!value) {
+    return {};
+  }
+  const [owner, repo] = value.split('/');
+  return { owner, repo };
+}
+
+// GET /api/cache               -> per-repository entry counts and sizes
+// GET /api/cache?repo=o/r      -> cached commit SHAs for one repository
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const { owner, repo } = parseRepo(searchParams.get('repo'));
+  const cache = new CommitCache();
+
+  try {
+    if (owner && repo) {
+      const commits = await cache.listCommits(owner, repo);
+      return NextResponse.json({ repo: `${owner}/${repo}`, commits });
+    }
+
+    return NextResponse.json({ repos: await cache.listRepos() });
+  } catch (error) {
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to read cache' },
+      { status: 400 }
+    );
+  }
+}
+
+// DELETE /api/cache?repo=o/r&sha=abc -> purge one commit, one repository, or (no params) everything
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const { owner, repo } = parseRepo(searchParams.get('repo'));
+  const sha = searchParams.get('sha') ?? undefined;
+
+  try {
+    const removed = await new CommitCache().purge({ owner, repo, sha });
+    return NextResponse.json({ removed });
+  } catch (error) {
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to purge cache' },
+      { status: 400 }
+    );
+  }
+}
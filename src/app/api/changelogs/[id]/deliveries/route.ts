@@ -0,0 +1,65 @@
+// src/app/api/changelogs/[id]/deliveries/route.ts
+
+import { NextResponse } from 'next/server';
+import { deliver, Destination, listDestinations, validateTarget } from '@/lib/delivery';
+import { getHistoryStore } from '@/lib/history/history-store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/changelogs/:id/deliveries -> every attempt to send the changelog, newest first,
+// and the named destinations its repo can send to
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const store = getHistoryStore();
+  const record = await store?.get(id);
+  if (!store || !record) {
+    return NextResponse.json(
+      { message: `Changelog ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    destinations: listDestinations(record.repo),
+    deliveries: await store.listDeliveries(id)
+  });
+}
+
+// POST /api/changelogs/:id/deliveries { targets } -> send a recorded changelog as last
+// saved, e.g. ["team-slack"] for a destination named in the config, or
+// [{ "type": "email", "to": "team@example.com" }] for a recipient in `allowedRecipients`
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { targets } = await request.json();
+
+  if (!Array.isArray(targets) || targets.length === 0) {
+    return NextResponse.json(
+      { message: 'targets must be a non-empty array' },
+      { status: 400 }
+    );
+  }
+
+  const record = await getHistoryStore()?.get(id);
+  if (!record) {
+    return NextResponse.json(
+      { message: `Changelog ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  for (const target of targets) {
+    const problem = validateTarget(target, record.repo);
+    if (problem) {
+      return NextResponse.json(
+        { message: problem },
+        { status: 400 }
+      );
+    }
+  }
+
+  const results = await deliver(targets as Destination[], { ...record, historyId: record.id });
+  const ok = results.every(result => result.ok);
+  return NextResponse.json({ ok, results }, { status: ok ? 200 : 502 });
+}
@@ -0,0 +1,63 @@
+// src/app/api/changelogs/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { getHistoryStore } from '@/lib/history/history-store';
+import { emitEvent } from '@/lib/webhooks';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { message: `Changelog ${id} not found` },
+    { status: 404 }
+  );
+}
+
+// GET /api/changelogs/:id -> the full record, including every rendered format
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const record = await getHistoryStore()?.get(id);
+  return record ? NextResponse.json(record) : notFound(id);
+}
+
+// PATCH /api/changelogs/:id { content } -> save an edited changelog
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { content } = await request.json();
+  if (typeof content !== 'string') {
+    return NextResponse.json(
+      { message: 'content must be a string' },
+      { status: 400 }
+    );
+  }
+
+  const record = await getHistoryStore()?.update(id, content);
+  if (!record) {
+    return notFound(id);
+  }
+
+  await emitEvent('changelog.edited', {
+    historyId: record.id,
+    repo: record.repo,
+    repoUrl: record.repoUrl,
+    range: record.range,
+    period: record.period,
+    refs: record.refs,
+    branch: record.branch,
+    mode: record.mode,
+    provider: record.provider,
+    preset: record.preset,
+    format: record.format,
+    content: record.content
+  });
+  return NextResponse.json(record);
+}
+
+// DELETE /api/changelogs/:id
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const deleted = await getHistoryStore()?.delete(id);
+  return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+}
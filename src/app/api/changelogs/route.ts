@@ -0,0 +1,30 @@
+// src/app/api/changelogs/route.ts
+
+import { NextResponse } from 'next/server';
+import { getHistoryStore } from '@/lib/history/history-store';
+
+const MAX_LIMIT = 500;
+
+// GET /api/changelogs?repo=owner/name&limit=50 -> past generations, newest first
+export async function GET(request: Request) {
+  const store = getHistoryStore();
+  if (!store) {
+    return NextResponse.json(
+      { message: 'Changelog history is disabled' },
+      { status: 404 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const repo = searchParams.get('repo') || undefined;
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)) {
+    return NextResponse.json(
+      { message: `limit must be a whole number between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ changelogs: await store.list({ repo, limit }) });
+}
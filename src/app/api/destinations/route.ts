@@ -0,0 +1,18 @@
+// src/app/api/destinations/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listDestinations } from '@/lib/delivery';
+
+// GET /api/destinations?repo=owner/repo -> destinations the repo can deliver to by name.
+// Only names and types; the targets' options (webhook URLs) stay on the server.
+export async function GET(request: NextRequest) {
+  const repo = request.nextUrl.searchParams.get('repo') || undefined;
+  try {
+    return NextResponse.json({ destinations: listDestinations(repo) });
+  } catch (error) {
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to load destinations' },
+      { status: 500 }
+    );
+  }
+}
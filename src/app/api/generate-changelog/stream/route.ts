@@ -0,0 +1,70 @@
+// src/app/api/generate-changelog/stream/route.ts
+
+import { NextResponse } from 'next/server';
+import { formatEvent } from '@/lib/event-stream';
+import { parseGenerationRequest } from '@/lib/generation-request';
+import { describeGenerationError } from '@/lib/generation-response';
+import { runGeneration } from '@/lib/run-generation';
+
+// Same body as POST /api/generate-changelog, answered as Server-Sent Events:
+// "phase", "progress" and "token" while it runs, then one "result" or "error"
+export async function POST(request: Request) {
+  const parsed = parseGenerationRequest(await request.json());
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { message: parsed.message },
+      { status: 400 }
+    );
+  }
+  if (!process.env.GITHUB_PAT) {
+    return NextResponse.json(
+      { message: 'GitHub token not configured' },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // The client may go away mid-run; that cancels the generation too
+      let open = true;
+      request.signal.addEventListener('abort', () => {
+        open = false;
+      });
+      const send = (event: string, data: unknown) => {
+        if (!open) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event, data)));
+        } catch {
+          // Cancelled between the abort and its event
+          open = false;
+        }
+      };
+
+      try {
+        send('result', await runGeneration(parsed.request, {
+          onProgress: event => send(event.type, event),
+          signal: request.signal
+        }));
+      } catch (error) {
+        console.error('Error streaming changelog:', error);
+        const { status, body } = describeGenerationError(error);
+        send('error', { ...body, status });
+      } finally {
+        if (open) {
+          controller.close();
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
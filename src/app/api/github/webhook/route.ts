@@ -0,0 +1,17 @@
+// src/app/api/github/webhook/route.ts
+
+import { NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/jobs/job-queue';
+import { handleGitHubWebhook, listReleaseNotes } from '@/lib/release-notes';
+
+// GET /api/github/webhook -> release notes asked for by GitHub, newest first: the
+// generation jobs, and the write-backs to GitHub with their status and lastError
+export async function GET() {
+  return NextResponse.json(await listReleaseNotes(getJobQueue()));
+}
+
+// POST /api/github/webhook -> release notes for created and published releases and pushed tags
+export async function POST(request: Request) {
+  const { status, body } = await handleGitHubWebhook(await request.text(), request.headers, getJobQueue());
+  return NextResponse.json(body, { status });
+}
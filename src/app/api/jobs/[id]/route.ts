@@ -0,0 +1,44 @@
+// src/app/api/jobs/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/jobs/job-queue';
+import { isFinished } from '@/lib/jobs/job-store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/jobs/:id -> status, progress, and the result or error once finished
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getJobQueue().get(id);
+  if (!job) {
+    return NextResponse.json(
+      { message: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(job);
+}
+
+// DELETE /api/jobs/:id -> cancel a queued or running job
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getJobQueue().get(id);
+  if (!job) {
+    return NextResponse.json(
+      { message: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  if (isFinished(job)) {
+    return NextResponse.json(
+      { message: `Job ${id} already ${job.status}`, status: job.status },
+      { status: 409 }
+    );
+  }
+
+  const cancelled = await getJobQueue().cancel(id);
+  return NextResponse.json({ id, status: cancelled?.status ?? job.status }, { status: 202 });
+}
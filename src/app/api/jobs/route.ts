@@ -0,0 +1,38 @@
+// src/app/api/jobs/route.ts
+
+import { NextResponse } from 'next/server';
+import { parseGenerationRequest } from '@/lib/generation-request';
+import { getJobQueue } from '@/lib/jobs/job-queue';
+
+// POST /api/jobs -> queue a generation (same body as /api/generate-changelog), answers with its id
+export async function POST(request: Request) {
+  const body = await request.json();
+  const parsed = parseGenerationRequest(body);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { message: parsed.message },
+      { status: 400 }
+    );
+  }
+
+  if (!process.env.GITHUB_PAT) {
+    return NextResponse.json(
+      { message: 'GitHub token not configured' },
+      { status: 500 }
+    );
+  }
+
+  const job = await getJobQueue().enqueue(body);
+  return NextResponse.json(
+    { id: job.id, status: job.status, createdAt: job.createdAt },
+    { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
+  );
+}
+
+// GET /api/jobs -> every job on record, oldest first, without results
+export async function GET() {
+  const jobs = await getJobQueue().list();
+  return NextResponse.json({
+    jobs: jobs.map(({ result, error, ...job }) => ({ ...job, hasResult: result !== undefined, failed: error !== undefined }))
+  });
+}
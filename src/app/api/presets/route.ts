@@ -0,0 +1,29 @@
+// src/app/api/presets/route.ts
+
+import { NextResponse } from 'next/server';
+import { loadConfig } from '@/lib/config';
+import { loadPresets, resolvePreset } from '@/lib/presets';
+
+// GET /api/presets -> built-in and configured presets, for the form's picker, and the
+// defaults a request without a preset or mode gets
+export async function GET() {
+  try {
+    const presets = loadPresets().map(({ name, label, description, format, email }) => ({
+      name,
+      label,
+      description,
+      format,
+      email
+    }));
+    return NextResponse.json({
+      presets,
+      defaultPreset: resolvePreset().name,
+      defaultMode: loadConfig().mode ?? 'commits'
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to load presets' },
+      { status: 500 }
+    );
+  }
+}
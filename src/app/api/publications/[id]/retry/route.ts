@@ -0,0 +1,25 @@
+// src/app/api/publications/[id]/retry/route.ts
+
+import { NextResponse } from 'next/server';
+import { getOutbox } from '@/lib/outbox/outbox';
+import { PUBLICATION_KINDS, publicationStatus } from '@/lib/publications';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/publications/:id/retry -> try a pending or failed publish, update or unpublish again now
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const outbox = getOutbox();
+  const existing = await outbox.get(id);
+  if (!existing || !PUBLICATION_KINDS.includes(existing.kind)) {
+    return NextResponse.json(
+      { message: `Publication ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const message = await outbox.retry(id) ?? existing;
+  return NextResponse.json(message, { status: publicationStatus(message) });
+}
@@ -0,0 +1,73 @@
+// src/app/api/publications/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { getOutbox } from '@/lib/outbox/outbox';
+import type { OutboxMessage } from '@/lib/outbox/outbox-store';
+import { PUBLICATION_KINDS, publicationStatus, unpublish, updatePublication } from '@/lib/publications';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function findPublication(id: string): Promise<OutboxMessage | undefined> {
+  const message = await getOutbox().get(id);
+  return message && PUBLICATION_KINDS.includes(message.kind) ? message : undefined;
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { message: `Publication ${id} not found` },
+    { status: 404 }
+  );
+}
+
+// GET /api/publications/:id -> status of a publish, update or unpublish, including its next retry
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const message = await findPublication(id);
+  return message ? NextResponse.json(message) : notFound(id);
+}
+
+// PATCH /api/publications/:id { content } -> replace the content of the entry a publish created
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { content } = await request.json();
+  if (typeof content !== 'string' || !content.trim()) {
+    return NextResponse.json(
+      { message: 'content must be a non-empty string' },
+      { status: 400 }
+    );
+  }
+
+  const publication = await findPublication(id);
+  if (!publication) {
+    return notFound(id);
+  }
+  try {
+    const update = await updatePublication(publication, content);
+    return NextResponse.json(update, { status: publicationStatus(update) });
+  } catch (error) {
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update publication' },
+      { status: 409 }
+    );
+  }
+}
+
+// DELETE /api/publications/:id -> remove the entry a publish created from Gramaphone
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const publication = await findPublication(id);
+  if (!publication) {
+    return notFound(id);
+  }
+  try {
+    const removal = await unpublish(publication);
+    return NextResponse.json(removal, { status: publicationStatus(removal) });
+  } catch (error) {
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to unpublish' },
+      { status: 409 }
+    );
+  }
+}
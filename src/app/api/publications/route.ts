@@ -0,0 +1,54 @@
+// src/app/api/publications/route.ts
+
+import { NextResponse } from 'next/server';
+import { GramaphonePublication } from '@/lib/gramaphone';
+import { getHistoryStore } from '@/lib/history/history-store';
+import { listPublications, publicationStatus, publishToGramaphone } from '@/lib/publications';
+
+function isPeriod(value: unknown): value is GramaphonePublication['period'] {
+  const period = value as GramaphonePublication['period'] | undefined;
+  return typeof period?.start === 'string' && typeof period?.end === 'string';
+}
+
+// GET /api/publications?historyId=... -> Gramaphone publishes, updates and unpublishes with
+// their status and retries, oldest first
+export async function GET(request: Request) {
+  const historyId = new URL(request.url).searchParams.get('historyId') || undefined;
+  return NextResponse.json({ publications: await listPublications(historyId) });
+}
+
+// POST /api/publications { historyId, content? } or { repoUrl, period, content } -> publish to
+// Gramaphone. Publishing the same changelog twice returns the first publish.
+export async function POST(request: Request) {
+  const { historyId, repoUrl, period, content } = await request.json();
+
+  if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+    return NextResponse.json(
+      { message: 'content must be a non-empty string' },
+      { status: 400 }
+    );
+  }
+
+  let publication: GramaphonePublication;
+  if (historyId !== undefined) {
+    const record = typeof historyId === 'string' ? await getHistoryStore()?.get(historyId) : undefined;
+    if (!record) {
+      return NextResponse.json(
+        { message: `Changelog ${historyId} not found` },
+        { status: 404 }
+      );
+    }
+    publication = { repoUrl: record.repoUrl, period: record.period, content: content ?? record.content };
+  } else {
+    if (typeof repoUrl !== 'string' || !isPeriod(period) || content === undefined) {
+      return NextResponse.json(
+        { message: 'Give either a historyId, or repoUrl, period { start, end } and content' },
+        { status: 400 }
+      );
+    }
+    publication = { repoUrl, period: { start: period.start, end: period.end }, content };
+  }
+
+  const message = await publishToGramaphone(publication, historyId);
+  return NextResponse.json(message, { status: publicationStatus(message) });
+}
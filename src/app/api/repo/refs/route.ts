@@ -0,0 +1,43 @@
+// src/app/api/repo/refs/route.ts
+
+import { NextResponse } from 'next/server';
+import { GitHubDiffGenerator } from '@/lib/github-diff-generator';
+import { GitHubRateLimitError } from '@/lib/github/client';
+
+// GET /api/repo/refs?repoUrl=https://github.com/o/r -> tags and published releases
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const repoUrl = searchParams.get('repoUrl');
+
+  if (!repoUrl) {
+    return NextResponse.json(
+      { message: 'Missing required query parameter: repoUrl' },
+      { status: 400 }
+    );
+  }
+
+  const githubToken = process.env.GITHUB_PAT;
+  if (!githubToken) {
+    return NextResponse.json(
+      { message: 'GitHub token not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const refs = await new GitHubDiffGenerator(githubToken).getRepoRefs(repoUrl);
+    return NextResponse.json(refs);
+  } catch (error) {
+    if (error instanceof GitHubRateLimitError) {
+      return NextResponse.json(
+        { message: error.message, type: error.type, retryAfter: error.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to list refs' },
+      { status: 400 }
+    );
+  }
+}
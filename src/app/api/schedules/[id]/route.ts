@@ -0,0 +1,50 @@
+// src/app/api/schedules/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { parseScheduleRequest, redactSchedule } from '@/lib/schedules/schedule-request';
+import { getScheduler } from '@/lib/schedules/scheduler';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { message: `Schedule ${id} not found` },
+    { status: 404 }
+  );
+}
+
+// GET /api/schedules/:id
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const schedule = await getScheduler().get(id);
+  return schedule ? NextResponse.json(redactSchedule(schedule)) : notFound(id);
+}
+
+// PATCH /api/schedules/:id -> change any of the fields given at creation; null clears optional ones
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const existing = await getScheduler().get(id);
+  if (!existing) {
+    return notFound(id);
+  }
+
+  const parsed = parseScheduleRequest(await request.json(), existing);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { message: parsed.message },
+      { status: 400 }
+    );
+  }
+
+  const schedule = await getScheduler().update(id, parsed.settings);
+  return schedule ? NextResponse.json(redactSchedule(schedule)) : notFound(id);
+}
+
+// DELETE /api/schedules/:id
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const deleted = await getScheduler().delete(id);
+  return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+}
@@ -0,0 +1,25 @@
+// src/app/api/schedules/[id]/run/route.ts
+
+import { NextResponse } from 'next/server';
+import { getScheduler } from '@/lib/schedules/scheduler';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/schedules/:id/run -> start a run now, without moving the next scheduled one.
+// Generation takes a while, so this answers at once; the outcome lands in the schedule's lastRun.
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const scheduler = getScheduler();
+  const schedule = await scheduler.get(id);
+  if (!schedule) {
+    return NextResponse.json(
+      { message: `Schedule ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  void scheduler.run(id);
+  return NextResponse.json({ id, status: 'running' }, { status: 202 });
+}
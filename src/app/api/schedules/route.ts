@@ -0,0 +1,32 @@
+// src/app/api/schedules/route.ts
+
+import { NextResponse } from 'next/server';
+import { listChannels, validateTarget } from '@/lib/delivery';
+import { parseScheduleRequest, redactSchedule } from '@/lib/schedules/schedule-request';
+import { getScheduler } from '@/lib/schedules/scheduler';
+
+// GET /api/schedules -> every schedule with its next and last run, and the destination
+// types usable without options (webhooks are picked by name instead). Destinations
+// given in full are shown by type only.
+export async function GET() {
+  const scheduler = getScheduler();
+  const schedules = await scheduler.list();
+  return NextResponse.json({
+    schedules: schedules.map(schedule => ({ ...redactSchedule(schedule), running: scheduler.isRunning(schedule.id) })),
+    destinationTypes: listChannels().filter(type => !validateTarget({ type }))
+  });
+}
+
+// POST /api/schedules { repoUrl, cron, windowDays?, preset?, destinations?, ... } -> the new schedule
+export async function POST(request: Request) {
+  const parsed = parseScheduleRequest(await request.json());
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { message: parsed.message },
+      { status: 400 }
+    );
+  }
+
+  const schedule = await getScheduler().create(parsed.settings);
+  return NextResponse.json(redactSchedule(schedule), { status: 201, headers: { Location: `/api/schedules/${schedule.id}` } });
+}
@@ -0,0 +1,21 @@
+// src/app/api/webhooks/deliveries/[id]/retry/route.ts
+
+import { NextResponse } from 'next/server';
+import { retryWebhookDelivery } from '@/lib/webhooks';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/webhooks/deliveries/:id/retry -> send a pending or failed delivery again now
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const delivery = await retryWebhookDelivery(id);
+  if (!delivery) {
+    return NextResponse.json(
+      { message: `Webhook delivery ${id} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(delivery, { status: delivery.status === 'delivered' ? 200 : 502 });
+}
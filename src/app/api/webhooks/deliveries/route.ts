@@ -0,0 +1,26 @@
+// src/app/api/webhooks/deliveries/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { OutboxStatus } from '@/lib/outbox/outbox-store';
+import { listWebhookDeliveries } from '@/lib/webhooks';
+
+const STATUSES: OutboxStatus[] = ['pending', 'delivered', 'failed'];
+
+// GET /api/webhooks/deliveries?subscription=&event=&status= -> the delivery log, newest first
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const status = params.get('status') || undefined;
+  if (status && !STATUSES.includes(status as OutboxStatus)) {
+    return NextResponse.json(
+      { message: `status must be one of: ${STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const deliveries = await listWebhookDeliveries({
+    subscription: params.get('subscription') || undefined,
+    eventType: params.get('event') || undefined,
+    status: status as OutboxStatus | undefined
+  });
+  return NextResponse.json({ deliveries });
+}
@@ -0,0 +1,23 @@
+// src/app/api/webhooks/route.ts
+
+import { NextResponse } from 'next/server';
+import { listSubscriptions, WEBHOOK_EVENTS } from '@/lib/webhooks';
+
+// GET /api/webhooks -> the configured subscriptions, without their secrets, and every event type
+export async function GET() {
+  try {
+    const subscriptions = listSubscriptions().map(({ name, url, events, repos, secret }) => ({
+      name,
+      url,
+      events,
+      repos,
+      signed: Boolean(secret ?? process.env.WEBHOOK_SIGNING_SECRET)
+    }));
+    return NextResponse.json({ subscriptions, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to load webhooks' },
+      { status: 500 }
+    );
+  }
+}
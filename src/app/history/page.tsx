@@ -0,0 +1,9 @@
+import ChangelogHistory from '@/components/ChangelogHistory';
+
+export default function HistoryPage() {
+  return (
+    <main className="min-h-screen p-8">
+      <ChangelogHistory />
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import ScheduleManager from '@/components/ScheduleManager';
+
+export default function SchedulesPage() {
+  return (
+    <main className="min-h-screen p-8">
+      <ScheduleManager />
+    </main>
+  );
+}
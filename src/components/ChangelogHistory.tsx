@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format as formatDate } from 'date-fns';
+import { AlertCircle, ArrowLeft, History, Loader2, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import EditableChangelog from '@/components/EditableChangelog';
+import FormatPreview, { PREVIEW_FORMATS } from '@/components/FormatPreview';
+import type { ChangelogRecord, ChangelogSummary } from '@/lib/history/history-store';
+
+// Radix selects can't hold an empty value
+const ALL_REPOS = '*';
+
+interface PresetOption {
+  name: string;
+  label: string;
+  email?: {
+    subject: string;
+    to?: string;
+  };
+}
+
+function describeRange(entry: ChangelogSummary): string {
+  if (entry.refs) {
+    return `${entry.refs.baseRef}...${entry.refs.headRef}`;
+  }
+  const start = new Date(entry.period.start);
+  const end = new Date(entry.period.end);
+  return `${formatDate(start, 'MMM d')} – ${formatDate(end, 'MMM d, yyyy')}`;
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.message || `Request failed with status ${response.status}`);
+  }
+  return body as T;
+}
+
+const ChangelogHistory = () => {
+  const [entries, setEntries] = useState<ChangelogSummary[]>([]);
+  const [repos, setRepos] = useState<string[]>([]);
+  const [repoFilter, setRepoFilter] = useState(ALL_REPOS);
+  const [selected, setSelected] = useState<ChangelogRecord | null>(null);
+  const [presets, setPresets] = useState<PresetOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/presets')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data) {
+          setPresets(data.presets);
+        }
+      })
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    const query = repoFilter === ALL_REPOS ? '' : `?repo=${encodeURIComponent(repoFilter)}`;
+    fetch(`/api/changelogs${query}`)
+      .then(response => readJson<{ changelogs: ChangelogSummary[] }>(response))
+      .then(({ changelogs }) => {
+        setEntries(changelogs);
+        if (repoFilter === ALL_REPOS) {
+          setRepos(Array.from(new Set(changelogs.map(entry => entry.repo))).sort());
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [repoFilter]);
+
+  const handleOpen = useCallback(async (id: string) => {
+    setError('');
+    try {
+      setSelected(await readJson<ChangelogRecord>(await fetch(`/api/changelogs/${id}`)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open changelog');
+    }
+  }, []);
+
+  // Links from elsewhere, like a schedule's last run, open one record directly
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('id');
+    if (id) {
+      void handleOpen(id);
+    }
+  }, [handleOpen]);
+
+  const handleSave = async (content: string) => {
+    if (!selected) {
+      return;
+    }
+    setError('');
+    try {
+      const updated = await readJson<ChangelogRecord>(await fetch(`/api/changelogs/${selected.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content })
+      }));
+      setSelected(updated);
+      setEntries(prev => prev.map(entry => entry.id === updated.id ? { ...entry, updatedAt: updated.updatedAt, draft: updated.draft } : entry));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save changelog');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this changelog from the history?')) {
+      return;
+    }
+    setError('');
+    try {
+      const response = await fetch(`/api/changelogs/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        await readJson(response);
+      }
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+      setSelected(prev => prev?.id === id ? null : prev);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete changelog');
+    }
+  };
+
+  // Newest first within each repo, repos in the order of their latest run
+  const groups = entries.reduce<Map<string, ChangelogSummary[]>>((byRepo, entry) => {
+    byRepo.set(entry.repo, [...(byRepo.get(entry.repo) ?? []), entry]);
+    return byRepo;
+  }, new Map());
+  const selectedPreset = presets.find(preset => preset.name === selected?.preset);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-10 md:py-14 flex items-center justify-between">
+            <div className="flex flex-col space-y-4">
+              <h1 className="text-4xl md:text-5xl font-extrabold">
+                History
+              </h1>
+              <p className="text-lg text-muted-foreground">
+                Every changelog generated on this server, by repository.
+              </p>
+            </div>
+            <Button variant="ghost" asChild>
+              <Link href="/">
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Generate
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Past runs */}
+          <div>
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <Select value={repoFilter} onValueChange={setRepoFilter}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue placeholder="All repositories" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_REPOS}>All repositories</SelectItem>
+                    {repos.map(repo => (
+                      <SelectItem key={repo} value={repo}>{repo}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {loading ? (
+                  <div className="flex justify-center py-12 text-muted-foreground">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : entries.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-12">
+                    <History className="h-12 w-12 mx-auto mb-4" />
+                    <p>Nothing generated yet.</p>
+                  </div>
+                ) : (
+                  Array.from(groups.entries()).map(([repo, runs]) => (
+                    <div key={repo} className="space-y-2">
+                      <h2 className="text-sm font-semibold">{repo}</h2>
+                      {runs.map(entry => (
+                        <div
+                          key={entry.id}
+                          className={`flex items-start gap-2 rounded-md border p-3 ${selected?.id === entry.id ? 'border-green-500' : ''}`}
+                        >
+                          <button
+                            type="button"
+                            className="flex-1 text-left space-y-1"
+                            onClick={() => handleOpen(entry.id)}
+                          >
+                            <div className="text-sm font-medium">
+                              {describeRange(entry)}
+                              {entry.branch && <span className="text-muted-foreground"> · {entry.branch}</span>}
+                            </div>
+                            <p className="text-xs text-muted-foreground line-clamp-2">{entry.summary}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDate(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}
+                              {' · '}{entry.preset} · {entry.provider}
+                              {' · '}{entry.sourceCount} {entry.mode === 'pull-requests' ? 'pull requests' : 'commits'}
+                              {entry.updatedAt !== entry.createdAt && ' · edited'}
+                              {entry.gramaphone && ' · published'}
+                              {entry.draft && ' · draft'}
+                            </p>
+                          </button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            aria-label="Delete"
+                            onClick={() => handleDelete(entry.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Selected run */}
+          <div>
+            <Tabs key={selected?.id} defaultValue="preview">
+              <TabsList className="flex-wrap h-auto">
+                <TabsTrigger value="preview">{selectedPreset?.label ?? 'Preview'}</TabsTrigger>
+                {PREVIEW_FORMATS.map(({ format, label }) => (
+                  <TabsTrigger key={format} value={format} disabled={!selected}>
+                    {label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              <TabsContent value="preview">
+                <EditableChangelog
+                  initialContent={selected?.content ?? ''}
+                  onSave={handleSave}
+                  historyId={selected?.id}
+                  email={selectedPreset?.email}
+                  metadata={selected ? { repo: selected.repoUrl, period: selected.period } : undefined}
+                />
+              </TabsContent>
+              {PREVIEW_FORMATS.map(({ format }) => (
+                <TabsContent key={format} value={format}>
+                  <FormatPreview format={format} content={selected?.renders[format] ?? ''} />
+                </TabsContent>
+              ))}
+            </Tabs>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ChangelogHistory;
@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format as formatDate } from 'date-fns';
+import { AlertCircle, Check, Loader2, MessageSquare } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import type { DeliveryRecord } from '@/lib/history/history-store';
+
+interface NamedDestination {
+  name: string;
+  type: string;
+}
+
+interface DeliveryPanelProps {
+  historyId: string;
+  // The changelog shown has edits that aren't saved, and so wouldn't be sent
+  unsaved: boolean;
+  // Changes whenever something else sent the changelog, to reload the log
+  refreshKey?: number;
+}
+
+// How many past deliveries to show
+const RECENT_DELIVERIES = 5;
+
+export default function DeliveryPanel({ historyId, unsaved, refreshKey }: DeliveryPanelProps) {
+  const [destinations, setDestinations] = useState<NamedDestination[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryRecord[]>([]);
+  const [sending, setSending] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/changelogs/${historyId}/deliveries`);
+      if (response.ok) {
+        const data = await response.json();
+        setDestinations(data.destinations);
+        setDeliveries(data.deliveries);
+      }
+    } catch {
+      // The log is informational; sending still works without it
+    }
+  }, [historyId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, refreshKey]);
+
+  const handleSend = async (name: string) => {
+    setSending(name);
+    setError('');
+    try {
+      const response = await fetch(`/api/changelogs/${historyId}/deliveries`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targets: [name] })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.results?.[0]?.error ?? data.message ?? `Failed to send to ${name}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to send to ${name}`);
+    } finally {
+      setSending(null);
+      await refresh();
+    }
+  };
+
+  if (destinations.length === 0 && deliveries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t p-4 space-y-2">
+      {destinations.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {destinations.map(({ name, type }) => (
+            <Button
+              key={name}
+              size="sm"
+              variant="outline"
+              disabled={sending !== null || unsaved}
+              title={unsaved ? 'Save your edits to send them' : undefined}
+              onClick={() => handleSend(name)}
+            >
+              {sending === name
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <MessageSquare className="mr-2 h-4 w-4" />}
+              Send to {name}
+              <span className="ml-1 text-muted-foreground">({type})</span>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {deliveries.length > 0 && (
+        <ul className="space-y-1 text-xs text-muted-foreground">
+          {deliveries.slice(0, RECENT_DELIVERIES).map(delivery => (
+            <li key={delivery.id} className="flex items-start gap-1">
+              {delivery.ok
+                ? <Check className="h-3 w-3 mt-0.5 text-green-500" />
+                : <AlertCircle className="h-3 w-3 mt-0.5 text-red-500" />}
+              <span>
+                {formatDate(new Date(delivery.deliveredAt), 'MMM d, HH:mm')}
+                {' · '}{delivery.destination ?? delivery.type}
+                {delivery.error && <span className="text-red-500"> · {delivery.error}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Check, Copy, Edit2, Eye, History } from 'lucide-react';
+import { AlertCircle, Check, Copy, Edit2, Eye, History, Loader2, Mail, Send } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import DeliveryPanel from './DeliveryPanel';
 import PublishButton from './PublishButton';
 
 interface EditableChangelogProps {
   initialContent?: string;
   onSave?: (content: string) => void;
+  // History record the changelog belongs to; sending is offered once there is one
+  historyId?: string;
+  // Shown as an email header above the preview, for presets written as email
+  email?: {
+    subject: string;
+    to?: string;
+  };
   metadata?: {
     repo: string;
     period: {
@@ -16,10 +25,23 @@ interface EditableChangelogProps {
   };
 }
 
-const EditableChangelog = ({ initialContent = '', onSave, metadata }: EditableChangelogProps) => {
+interface EmailDraft {
+  to: string;
+  cc: string;
+  subject: string;
+}
+
+const EditableChangelog = ({ initialContent = '', onSave, historyId, email, metadata }: EditableChangelogProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [content, setContent] = useState(initialContent);
   const [copied, setCopied] = useState(false);
+  const [draft, setDraft] = useState<EmailDraft | null>(null);
+  const [sendStatus, setSendStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [sendError, setSendError] = useState('');
+  // Bumped after each send so the delivery log reloads
+  const [sentCount, setSentCount] = useState(0);
+  // Sending goes out as last saved, so edits have to be saved first
+  const unsaved = content !== initialContent;
 
   // Add effect to update content when initialContent changes
   useEffect(() => {
@@ -39,28 +61,46 @@ const EditableChangelog = ({ initialContent = '', onSave, metadata }: EditableCh
     setIsEditing(false);
   };
 
-  // Add local storage to persist edits
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedContent = localStorage.getItem('changelog-content');
-      if (savedContent && !initialContent) {
-        setContent(savedContent);
-      }
+  const handleCompose = () => {
+    setDraft(draft ? null : { to: email?.to ?? '', cc: '', subject: email?.subject ?? '' });
+    setSendStatus('idle');
+    setSendError('');
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !historyId) {
+      return;
     }
-  }, [initialContent]);
+    setSendStatus('sending');
+    setSendError('');
 
-  useEffect(() => {
-    if (typeof window !== 'undefined' && content) {
-      localStorage.setItem('changelog-content', content);
+    try {
+      const response = await fetch(`/api/changelogs/${historyId}/deliveries`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targets: [{
+            type: 'email',
+            to: draft.to,
+            cc: draft.cc || undefined,
+            subject: draft.subject || undefined
+          }]
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.results?.[0]?.error ?? data.message ?? 'Failed to send email');
+      }
+      setSendStatus('sent');
+      setSentCount(count => count + 1);
+      setDraft(null);
+      setTimeout(() => setSendStatus('idle'), 3000);
+    } catch (err) {
+      setSendStatus('error');
+      setSendError(err instanceof Error ? err.message : 'Failed to send email');
+      setSentCount(count => count + 1);
     }
-  }, [content]);
-
-  // Simplify the email formatting function
-  const formatEmailContent = (text: string) => {
-    return {
-      subject: "Re: What did you get done this week?",
-      body: text.trim() // Just trim the text, don't modify it further
-    };
   };
 
   return (
@@ -92,6 +132,25 @@ const EditableChangelog = ({ initialContent = '', onSave, metadata }: EditableCh
                     </>
                   )}
                 </Button>
+                {historyId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={handleCompose}
+                  >
+                    {sendStatus === 'sent' ? (
+                      <>
+                        <Check className="h-4 w-4 mr-2" />
+                        Sent!
+                      </>
+                    ) : (
+                      <>
+                        <Mail className="h-4 w-4 mr-2" />
+                        Send
+                      </>
+                    )}
+                  </Button>
+                )}
                 <Button
                   size="sm"
                   variant="ghost"
@@ -115,6 +174,43 @@ const EditableChangelog = ({ initialContent = '', onSave, metadata }: EditableCh
         </CardTitle>
       </CardHeader>
       <CardContent className="p-0">
+        {draft && (
+          <form onSubmit={handleSend} className="border-b p-4 space-y-2">
+            {(['to', 'cc', 'subject'] as const).map(field => (
+              <div key={field} className="flex items-center gap-2">
+                <label className="w-16 text-sm text-muted-foreground capitalize">{field}</label>
+                <input
+                  type="text"
+                  className="flex-1 p-2 border rounded-md bg-background text-sm"
+                  placeholder={field === 'subject' ? undefined : 'name@example.com, other@example.com'}
+                  value={draft[field]}
+                  onChange={(e) => setDraft(prev => prev && { ...prev, [field]: e.target.value })}
+                  required={field === 'to'}
+                />
+              </div>
+            ))}
+            <div className="flex justify-end items-center gap-2">
+              {unsaved && (
+                <span className="text-sm text-muted-foreground">Save your edits to send them</span>
+              )}
+              <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={sendStatus === 'sending' || unsaved}>
+                {sendStatus === 'sending'
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Send className="h-4 w-4 mr-2" />}
+                Send email
+              </Button>
+            </div>
+            {sendStatus === 'error' && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{sendError}</AlertDescription>
+              </Alert>
+            )}
+          </form>
+        )}
         {content ? (
           <div>
             {isEditing ? (
@@ -154,18 +250,20 @@ Best Regards,
               <>
                 <div className="prose prose-sm dark:prose-invert max-w-none p-6 email-content bg-background">
                   {/* Email header section */}
-                  <div className="border-b mb-4 pb-4">
-                    <div className="mb-2">
-                      <span className="text-muted-foreground">To: </span>
-                      <span>elon@doge.gov</span>
-                    </div>
-                    {formatEmailContent(content).subject && (
+                  {email && (
+                    <div className="border-b mb-4 pb-4">
+                      {email.to && (
+                        <div className="mb-2">
+                          <span className="text-muted-foreground">To: </span>
+                          <span>{email.to}</span>
+                        </div>
+                      )}
                       <div>
                         <span className="text-muted-foreground">Subject: </span>
-                        <span className="font-medium">{formatEmailContent(content).subject}</span>
+                        <span className="font-medium">{email.subject}</span>
                       </div>
-                    )}
-                  </div>
+                    </div>
+                  )}
                   {/* Email body */}
                   <div className="whitespace-pre-wrap">
                     {/* <ReactMarkdown components={{
@@ -183,10 +281,14 @@ Best Regards,
                   <div className="border-t p-4">
                     <PublishButton 
                       changelog={content} 
+                      historyId={historyId}
                       metadata={metadata}
                     />
                   </div>
                 )}
+                {historyId && (
+                  <DeliveryPanel historyId={historyId} unsaved={unsaved} refreshKey={sentCount} />
+                )}
               </>
             )}
           </div>
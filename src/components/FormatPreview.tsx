@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Check, Copy } from 'lucide-react';
+import type { OutputFormat } from '@/lib/renderers';
+
+// Read-only previews of every rendering, next to the editable one in the preset's format
+export const PREVIEW_FORMATS: { format: OutputFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'keep-a-changelog', label: 'CHANGELOG.md' },
+  { format: 'github-release', label: 'GitHub Release' },
+  { format: 'html', label: 'HTML' },
+  { format: 'email', label: 'Email' },
+  { format: 'slack', label: 'Slack' }
+];
+
+interface FormatPreviewProps {
+  format: OutputFormat;
+  content: string;
+}
+
+const FormatPreview = ({ format, content }: FormatPreviewProps) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (typeof navigator !== 'undefined' && navigator.clipboard) {
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <Card className="h-full bg-background">
+      <CardHeader className="border-b">
+        <CardTitle className="flex justify-end items-center text-base font-medium">
+          <Button size="sm" variant="ghost" onClick={handleCopy}>
+            {copied ? (
+              <>
+                <Check className="h-4 w-4 mr-2" />
+                Copied!
+              </>
+            ) : (
+              <>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </>
+            )}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {format === 'html' && (
+          // The renderer escapes all text; the sandbox keeps the preview inert regardless
+          <iframe
+            title="HTML preview"
+            sandbox=""
+            srcDoc={content}
+            className="w-full h-[300px] border-b bg-white"
+          />
+        )}
+        <pre className="p-6 text-sm font-mono whitespace-pre-wrap break-words max-h-[500px] overflow-auto">
+          {content}
+        </pre>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FormatPreview;
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { GenerationPhase } from '@/lib/progress';
+
+export interface GenerationProgressState {
+  phase: GenerationPhase;
+  completed: number;
+  total?: number;
+  unit: string;
+}
+
+// Share of the bar each phase fills; skipped phases just jump ahead
+const PHASES: Record<GenerationPhase, { label: string; start: number; end: number }> = {
+  fetching: { label: 'Fetching from GitHub', start: 0, end: 30 },
+  hydrating: { label: 'Loading commit details', start: 30, end: 55 },
+  summarizing: { label: 'Summarizing', start: 55, end: 80 },
+  generating: { label: 'Writing', start: 80, end: 100 }
+};
+
+// Without a total, creep towards the end of the phase without reaching it
+const UNKNOWN_TOTAL_SCALE = 200;
+
+function percentOf({ phase, completed, total }: GenerationProgressState): number {
+  const { start, end } = PHASES[phase];
+  const ratio = total ? Math.min(completed / total, 1) : completed / (completed + UNKNOWN_TOTAL_SCALE);
+  return start + (end - start) * ratio;
+}
+
+const GenerationProgress = ({ progress }: { progress: GenerationProgressState }) => {
+  const { label } = PHASES[progress.phase];
+  const count = progress.completed > 0
+    ? ` · ${progress.completed}${progress.total ? `/${progress.total}` : ''} ${progress.unit}`
+    : '';
+
+  return (
+    <div className="mt-4 space-y-1">
+      <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+        <div
+          className="h-full bg-green-500 transition-all duration-300"
+          style={{ width: `${percentOf(progress)}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {label}{count}
+      </p>
+    </div>
+  );
+};
+
+export default GenerationProgress;
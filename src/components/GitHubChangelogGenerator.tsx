@@ -1,19 +1,32 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { 
   AlertCircle, 
   GitBranch,
+  History,
   Calendar, 
+  CalendarClock,
   Loader2, 
   Moon,
-  Sun
+  Sun,
+  Tag
 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useTheme } from "next-themes";
 import EditableChangelog from '@/components/EditableChangelog';
+import FormatPreview, { PREVIEW_FORMATS } from '@/components/FormatPreview';
+import GenerationProgress, { GenerationProgressState } from '@/components/GenerationProgress';
+import { readEventStream } from '@/lib/event-stream';
+import type { ChangelogMode } from '@/lib/config';
+import type { GenerationResponse } from '@/lib/generation-response';
+import type { ProgressEvent } from '@/lib/progress';
+import type { OutputFormat } from '@/lib/renderers';
 import RepoSuggestions from './RepoSuggestions';
 
 // Client-side only theme toggle
@@ -44,11 +57,81 @@ const ThemeToggle = () => {
 };
 
 
+type RangeMode = 'dates' | 'refs' | 'latest-release';
+
+const RANGE_MODES: { value: RangeMode; label: string }[] = [
+  { value: 'dates', label: 'Dates' },
+  { value: 'refs', label: 'Tags / refs' },
+  { value: 'latest-release', label: 'Since latest release' }
+];
+
 // Type for the form data
 interface FormData {
   repoUrl: string;
+  // Empty means the repository's default branch
+  branch: string;
+  // Unset until chosen, so the server's default mode applies
+  mode?: ChangelogMode;
+  // Empty means the server's default preset
+  preset: string;
+  rangeMode: RangeMode;
   startDate: string;
   endDate: string;
+  baseRef: string;
+  headRef: string;
+}
+
+interface RepoRefs {
+  defaultBranch: string;
+  branches: { name: string }[];
+  tags: { name: string }[];
+  releases: { tagName: string }[];
+}
+
+interface Period {
+  start: string;
+  end: string;
+}
+
+interface PresetOption {
+  name: string;
+  label: string;
+  description: string;
+  format: OutputFormat;
+  email?: {
+    subject: string;
+    to?: string;
+  };
+}
+
+const STREAMED_FIELD_PATTERN = /"(summary|title)"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
+
+// The reply streams in as changelog JSON; show its finished strings as a draft
+// until the rendered result arrives. Replies that aren't JSON are shown as-is.
+function previewStreamedChangelog(text: string): string {
+  const lines: string[] = [];
+  for (const [, field, raw] of Array.from(text.matchAll(STREAMED_FIELD_PATTERN))) {
+    let value = raw;
+    try {
+      value = JSON.parse(`"${raw}"`);
+    } catch {
+      // Keep the escaped text
+    }
+    if (field === 'title') {
+      lines.push('', `${value}:`);
+    } else {
+      lines.push(lines.length === 0 ? value : `- ${value}`);
+    }
+  }
+  return lines.length > 0 || text.trimStart().startsWith('{') ? lines.join('\n') : text;
+}
+
+// The API's error body, as something to show the user
+function describeErrorBody(errorData: { type?: string; retryAfter?: number; message?: string }): string {
+  if (errorData.type === 'github_rate_limited' && errorData.retryAfter) {
+    return `GitHub rate limit reached. Try again in ${Math.ceil(errorData.retryAfter / 60)} minute(s).`;
+  }
+  return errorData.message || 'Failed to generate changelog';
 }
 
 const ChangelogGenerator = () => {
@@ -61,10 +144,27 @@ const ChangelogGenerator = () => {
   const [error, setError] = useState('');
   const [changelog, setChangelog] = useState('');
   const [recentRepos, setRecentRepos] = useState<string[]>([]);
+  const [refNames, setRefNames] = useState<string[]>([]);
+  const [branchNames, setBranchNames] = useState<string[]>([]);
+  const [defaultBranch, setDefaultBranch] = useState('');
+  const [period, setPeriod] = useState<Period | null>(null);
+  const [formats, setFormats] = useState<Partial<Record<OutputFormat, string>>>({});
+  const [presets, setPresets] = useState<PresetOption[]>([]);
+  const [defaultPreset, setDefaultPreset] = useState('');
+  const [defaultMode, setDefaultMode] = useState<ChangelogMode>('commits');
+  const [resultPreset, setResultPreset] = useState<PresetOption | null>(null);
+  // Where the current changelog is recorded, so edits are saved back to the history
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<GenerationProgressState | null>(null);
   const [formData, setFormData] = useState<FormData>({
     repoUrl: '',
+    branch: '',
+    preset: '',
+    rangeMode: 'dates',
     startDate: defaultStartDate,
-    endDate: defaultEndDate
+    endDate: defaultEndDate,
+    baseRef: '',
+    headRef: ''
   });
 
   // Load saved data on component mount
@@ -75,7 +175,8 @@ const ChangelogGenerator = () => {
       const savedRecentRepos = localStorage.getItem('changelog-recent-repos');
       
       if (savedFormData) {
-        setFormData(JSON.parse(savedFormData));
+        // Older saves only had dates, so keep defaults for anything missing
+        setFormData(prev => ({ ...prev, ...JSON.parse(savedFormData) }));
       }
       
       if (savedRecentRepos) {
@@ -84,6 +185,19 @@ const ChangelogGenerator = () => {
     }
   }, []);
 
+  useEffect(() => {
+    fetch('/api/presets')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data) {
+          setPresets(data.presets);
+          setDefaultPreset(data.defaultPreset);
+          setDefaultMode(data.defaultMode);
+        }
+      })
+      .catch(() => undefined);
+  }, []);
+
   // Save form data and recent repos when they change
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -97,9 +211,69 @@ const ChangelogGenerator = () => {
     }
   }, [recentRepos]);
 
-  // Generate a unique key for caching based on form data
-  const getCacheKey = (data: FormData) => {
-    return `changelog-${data.repoUrl}-${data.startDate}-${data.endDate}`;
+  // Load the repo's branches, tags and releases for the pickers once the URL settles
+  useEffect(() => {
+    setBranchNames([]);
+    setDefaultBranch('');
+    setRefNames([]);
+    if (!/^https:\/\/github\.com\/[^/]+\/[^/]+/.test(formData.repoUrl)) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/repo/refs?repoUrl=${encodeURIComponent(formData.repoUrl)}`, { signal: controller.signal })
+        .then(response => response.ok ? response.json() : null)
+        .then((refs: RepoRefs | null) => {
+          if (!refs) {
+            return;
+          }
+          const names = [...refs.releases.map(release => release.tagName), ...refs.tags.map(tag => tag.name)];
+          setRefNames(Array.from(new Set(names)));
+          setBranchNames(refs.branches.map(branch => branch.name));
+          setDefaultBranch(refs.defaultBranch);
+        })
+        .catch(() => undefined);
+    }, 500);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [formData.repoUrl]);
+
+  const getRangeBody = (data: FormData) => {
+    switch (data.rangeMode) {
+      case 'refs':
+        return { baseRef: data.baseRef, headRef: data.headRef };
+      case 'latest-release':
+        return { sinceLatestRelease: true, headRef: data.headRef || undefined };
+      default:
+        return {
+          startDate: new Date(data.startDate).toISOString(),
+          endDate: new Date(data.endDate).toISOString()
+        };
+    }
+  };
+
+  const handleSave = async (content: string) => {
+    setChangelog(content);
+    if (!historyId) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/changelogs/${historyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content })
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).message);
+      }
+    } catch (err) {
+      setError(`Couldn't save your edits to the history: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -108,34 +282,70 @@ const ChangelogGenerator = () => {
     setError('');
     // Clear previous changelog when starting new request
     setChangelog('');
+    setPeriod(null);
+    setFormats({});
+    setResultPreset(null);
+    setHistoryId(null);
+    setProgress(null);
 
     try {
-      const response = await fetch('/api/generate-changelog', {
+      // Streams progress and the reply as it's written; see /api/generate-changelog for plain JSON
+      const response = await fetch('/api/generate-changelog/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           repoUrl: formData.repoUrl,
-          startDate: new Date(formData.startDate).toISOString(),
-          endDate: new Date(formData.endDate).toISOString(),
+          branch: formData.branch || undefined,
+          mode: formData.mode,
+          preset: formData.preset || undefined,
+          ...getRangeBody(formData),
         }),
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to generate changelog');
+      if (!response.ok || !response.body) {
+        throw new Error(describeErrorBody(await response.json()));
       }
 
-      const data = await response.json();
-      
-      // Cache the result
-      if (typeof window !== 'undefined') {
-        const cacheKey = getCacheKey(formData);
-        localStorage.setItem(cacheKey, data.changelog);
+      const outcome: { result?: GenerationResponse } = {};
+      let streamed = '';
+      await readEventStream(response.body, ({ event, data: payload }) => {
+        if (event === 'result') {
+          outcome.result = payload as GenerationResponse;
+          return;
+        }
+        if (event === 'error') {
+          throw new Error(describeErrorBody(payload as { message?: string }));
+        }
+
+        const update = payload as ProgressEvent;
+        if (update.type === 'phase') {
+          setProgress({ phase: update.phase, completed: 0, unit: '' });
+          // A retried reply starts over
+          if (update.phase === 'generating') {
+            streamed = '';
+            setChangelog('');
+          }
+        } else if (update.type === 'progress') {
+          setProgress({ phase: update.phase, completed: update.completed, total: update.total, unit: update.unit });
+        } else if (update.type === 'token') {
+          streamed += update.text;
+          setChangelog(previewStreamedChangelog(streamed));
+          setProgress(prev => ({ phase: 'generating', completed: (prev?.phase === 'generating' ? prev.completed : 0) + 1, unit: 'tokens' }));
+        }
+      });
+
+      const { result } = outcome;
+      if (!result) {
+        throw new Error('The connection closed before the changelog was finished');
       }
-      
-      setChangelog(data.changelog);
+
+      setChangelog(result.changelog);
+      setHistoryId(result.historyId ?? null);
+      setPeriod(result.metadata.period);
+      setFormats(result.formats);
+      setResultPreset(presets.find(preset => preset.name === result.metadata.preset) ?? null);
       
       if (!recentRepos.includes(formData.repoUrl)) {
         const updatedRepos = [formData.repoUrl, ...recentRepos].slice(0, 5);
@@ -145,6 +355,7 @@ const ChangelogGenerator = () => {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
@@ -187,10 +398,22 @@ const ChangelogGenerator = () => {
                 What did you get done this week?
               </h1>
               <p className="text-lg text-muted-foreground">
-                AI email generator for when someone asks you what you did this week.
+                Status emails, release notes and changelogs from what actually shipped.
               </p>
             </div>
             <div className="flex items-center space-x-4">
+              <Button variant="ghost" asChild>
+                <Link href="/schedules">
+                  <CalendarClock className="h-5 w-5 mr-2" />
+                  Schedules
+                </Link>
+              </Button>
+              <Button variant="ghost" asChild>
+                <Link href="/history">
+                  <History className="h-5 w-5 mr-2" />
+                  History
+                </Link>
+              </Button>
               <ThemeToggle />
             </div>
           </div>
@@ -218,7 +441,8 @@ const ChangelogGenerator = () => {
                         value={formData.repoUrl}
                         onChange={(e) => setFormData(prev => ({
                           ...prev,
-                          repoUrl: e.target.value
+                          repoUrl: e.target.value,
+                          branch: ''
                         }))}
                         required
                       />
@@ -228,75 +452,218 @@ const ChangelogGenerator = () => {
                     {/* Repository Suggestions */}
                     <RepoSuggestions
                       recentRepos={recentRepos}
-                      onSelect={(repo) => setFormData(prev => ({ ...prev, repoUrl: repo }))}
+                      onSelect={(repo) => setFormData(prev => ({ ...prev, repoUrl: repo, branch: '' }))}
                     />
                   </div>
 
-                  {/* Date Range */}
-                  <div className="grid grid-cols-2 gap-4">
+                  {/* Preset */}
+                  {presets.length > 0 && (
                     <div>
                       <label className="block text-sm font-medium mb-1">
-                        Start Date
+                        Write for
                       </label>
-                      <div className="relative">
-                        <input
-                          type="date"
-                          name="startDate"
-                          className="w-full p-2 border rounded-md pl-8 bg-background"
-                          value={formData.startDate}
-                          onChange={(e) => setFormData(prev => ({
-                            ...prev,
-                            startDate: e.target.value
-                          }))}
-                          required
-                        />
-                        <Calendar className="h-4 w-4 absolute left-2 top-3 text-muted-foreground" />
-                      </div>
+                      <Select
+                        value={formData.preset || defaultPreset}
+                        onValueChange={(value) => setFormData(prev => ({
+                          ...prev,
+                          preset: value === defaultPreset ? '' : value
+                        }))}
+                      >
+                        <SelectTrigger className="bg-background">
+                          <SelectValue placeholder="Default preset" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {presets.map(preset => (
+                            <SelectItem key={preset.name} value={preset.name}>
+                              {preset.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {presets.find(preset => preset.name === (formData.preset || defaultPreset))?.description}
+                      </p>
                     </div>
+                  )}
+
+                  {/* Branch */}
+                  {branchNames.length > 0 && (
                     <div>
                       <label className="block text-sm font-medium mb-1">
-                        End Date
+                        Branch
                       </label>
-                      <div className="relative">
-                        <input
-                          type="date"
-                          name="endDate"
-                          className="w-full p-2 border rounded-md pl-8 bg-background"
-                          value={formData.endDate}
-                          onChange={(e) => setFormData(prev => ({
-                            ...prev,
-                            endDate: e.target.value
-                          }))}
-                          required
-                        />
-                        <Calendar className="h-4 w-4 absolute left-2 top-3 text-muted-foreground" />
-                      </div>
+                      <Select
+                        value={formData.branch || defaultBranch}
+                        onValueChange={(value) => setFormData(prev => ({
+                          ...prev,
+                          branch: value === defaultBranch ? '' : value
+                        }))}
+                      >
+                        <SelectTrigger className="bg-background">
+                          <SelectValue placeholder="Default branch" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {branchNames.map(name => (
+                            <SelectItem key={name} value={name}>
+                              {name === defaultBranch ? `${name} (default)` : name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                  </div>
+                  )}
 
-                  {/* Quick Date Ranges */}
+                  {/* Range Mode */}
                   <div className="flex flex-wrap gap-2">
-                    {['Last 7 days', 'Last 14 days', 'Last 30 days'].map(range => (
+                    {RANGE_MODES.map(mode => (
                       <button
-                        key={range}
+                        key={mode.value}
                         type="button"
-                        className="text-xs bg-muted hover:bg-muted/80 rounded px-2 py-1"
-                        onClick={() => {
-                          const end = new Date();
-                          const start = new Date();
-                          start.setDate(end.getDate() - parseInt(range.split(' ')[1]));
-                          setFormData(prev => ({
-                            ...prev,
-                            startDate: start.toISOString().split('T')[0],
-                            endDate: end.toISOString().split('T')[0]
-                          }));
-                        }}
+                        className={`text-xs rounded px-2 py-1 ${formData.rangeMode === mode.value ? 'bg-green-500 text-white' : 'bg-muted hover:bg-muted/80'}`}
+                        onClick={() => setFormData(prev => ({ ...prev, rangeMode: mode.value }))}
                       >
-                        {range}
+                        {mode.label}
                       </button>
                     ))}
                   </div>
 
+                  {formData.rangeMode === 'dates' && (
+                    <>
+                      {/* Date Range */}
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium mb-1">
+                            Start Date
+                          </label>
+                          <div className="relative">
+                            <input
+                              type="date"
+                              name="startDate"
+                              className="w-full p-2 border rounded-md pl-8 bg-background"
+                              value={formData.startDate}
+                              onChange={(e) => setFormData(prev => ({
+                                ...prev,
+                                startDate: e.target.value
+                              }))}
+                              required
+                            />
+                            <Calendar className="h-4 w-4 absolute left-2 top-3 text-muted-foreground" />
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-1">
+                            End Date
+                          </label>
+                          <div className="relative">
+                            <input
+                              type="date"
+                              name="endDate"
+                              className="w-full p-2 border rounded-md pl-8 bg-background"
+                              value={formData.endDate}
+                              onChange={(e) => setFormData(prev => ({
+                                ...prev,
+                                endDate: e.target.value
+                              }))}
+                              required
+                            />
+                            <Calendar className="h-4 w-4 absolute left-2 top-3 text-muted-foreground" />
+                          </div>
+                        </div>
+                      </div>
+
+                      {/* Quick Date Ranges */}
+                      <div className="flex flex-wrap gap-2">
+                        {['Last 7 days', 'Last 14 days', 'Last 30 days'].map(range => (
+                          <button
+                            key={range}
+                            type="button"
+                            className="text-xs bg-muted hover:bg-muted/80 rounded px-2 py-1"
+                            onClick={() => {
+                              const end = new Date();
+                              const start = new Date();
+                              start.setDate(end.getDate() - parseInt(range.split(' ')[1]));
+                              setFormData(prev => ({
+                                ...prev,
+                                startDate: start.toISOString().split('T')[0],
+                                endDate: end.toISOString().split('T')[0]
+                              }));
+                            }}
+                          >
+                            {range}
+                          </button>
+                        ))}
+                      </div>
+                    </>
+                  )}
+
+                  {/* Ref Range */}
+                  {formData.rangeMode !== 'dates' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      {formData.rangeMode === 'refs' && (
+                        <div>
+                          <label className="block text-sm font-medium mb-1">
+                            From (tag, branch or SHA)
+                          </label>
+                          <div className="relative">
+                            <input
+                              type="text"
+                              name="baseRef"
+                              list="repo-refs"
+                              className="w-full p-2 border rounded-md pl-8 bg-background"
+                              placeholder="v1.0.0"
+                              value={formData.baseRef}
+                              onChange={(e) => setFormData(prev => ({
+                                ...prev,
+                                baseRef: e.target.value
+                              }))}
+                              required
+                            />
+                            <Tag className="h-4 w-4 absolute left-2 top-3 text-muted-foreground" />
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-sm font-medium mb-1">
+                          To {formData.rangeMode === 'latest-release' && '(defaults to the selected branch)'}
+                        </label>
+                        <div className="relative">
+                          <input
+                            type="text"
+                            name="headRef"
+                            list="repo-refs"
+                            className="w-full p-2 border rounded-md pl-8 bg-background"
+                            placeholder="main"
+                            value={formData.headRef}
+                            onChange={(e) => setFormData(prev => ({
+                              ...prev,
+                              headRef: e.target.value
+                            }))}
+                            required={formData.rangeMode === 'refs'}
+                          />
+                          <Tag className="h-4 w-4 absolute left-2 top-3 text-muted-foreground" />
+                        </div>
+                      </div>
+                      <datalist id="repo-refs">
+                        {refNames.map(name => (
+                          <option key={name} value={name} />
+                        ))}
+                      </datalist>
+                    </div>
+                  )}
+
+                  {/* Source */}
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={(formData.mode ?? defaultMode) === 'pull-requests'}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        mode: e.target.checked ? 'pull-requests' : 'commits'
+                      }))}
+                    />
+                    Write from merged pull requests (titles, labels, descriptions)
+                  </label>
+
                   <Button 
                     type="submit" 
                     className="w-full dark:text-white bg-green-500"
@@ -308,11 +675,13 @@ const ChangelogGenerator = () => {
                         Generating...
                       </>
                     ) : (
-                      'Generate Email'
+                      'Generate'
                     )}
                   </Button>
                 </form>
 
+                {loading && progress && <GenerationProgress progress={progress} />}
+
                 {error && (
                   <Alert variant="destructive" className="mt-4">
                     <AlertCircle className="h-4 w-4" />
@@ -326,17 +695,36 @@ const ChangelogGenerator = () => {
 
           {/* Output Section */}
           <div>
-            <EditableChangelog 
-              initialContent={changelog}
-              onSave={(newContent) => setChangelog(newContent)}
-              metadata={{
-                repo: formData.repoUrl,
-                period: {
-                  start: formData.startDate,
-                  end: formData.endDate
-                }
-              }}
-            />
+            <Tabs defaultValue="preview">
+              <TabsList className="flex-wrap h-auto">
+                <TabsTrigger value="preview">{resultPreset?.label ?? 'Preview'}</TabsTrigger>
+                {PREVIEW_FORMATS.map(({ format, label }) => (
+                  <TabsTrigger key={format} value={format} disabled={!formats[format]}>
+                    {label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              <TabsContent value="preview">
+                <EditableChangelog 
+                  initialContent={changelog}
+                  onSave={handleSave}
+                  historyId={historyId ?? undefined}
+                  email={resultPreset?.email}
+                  metadata={{
+                    repo: formData.repoUrl,
+                    period: period ?? {
+                      start: formData.startDate,
+                      end: formData.endDate
+                    }
+                  }}
+                />
+              </TabsContent>
+              {PREVIEW_FORMATS.map(({ format }) => (
+                <TabsContent key={format} value={format}>
+                  <FormatPreview format={format} content={formats[format] ?? ''} />
+                </TabsContent>
+              ))}
+            </Tabs>
           </div>
         </div>
       </main>
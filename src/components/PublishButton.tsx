@@ -1,10 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { format as formatDate } from 'date-fns';
 import { Button } from "@/components/ui/button";
-import { Upload, Check, AlertCircle } from 'lucide-react';
+import { Upload, Check, AlertCircle, Clock, RotateCw, Trash2 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { OutboxMessage } from '@/lib/outbox/outbox-store';
 
 interface PublishButtonProps {
   changelog: string;
+  // History record being published; its earlier publishes are shown
+  historyId?: string;
   metadata: {
     repo: string;
     period: {
@@ -14,77 +18,196 @@ interface PublishButtonProps {
   };
 }
 
-export default function PublishButton({ changelog, metadata }: PublishButtonProps) {
+// Outbox kinds, as in lib/gramaphone, which can't be bundled for the browser
+const PUBLISH = 'gramaphone.publish';
+const UNPUBLISH = 'gramaphone.unpublish';
+
+// How often to check on a change waiting for a retry
+const POLL_INTERVAL_MS = 10000;
+
+async function readPublication(response: Response): Promise<OutboxMessage> {
+  const body = await response.json();
+  // 202 and 502 still describe the change; only other failures lack one
+  if (!response.ok && !body.status) {
+    throw new Error(body.message || `Request failed with status ${response.status}`);
+  }
+  return body as OutboxMessage;
+}
+
+function describeAttempts(message: OutboxMessage): string {
+  const action = message.kind === PUBLISH ? 'published' : message.kind === UNPUBLISH ? 'unpublished' : 'updated';
+  return message.status === 'pending' && message.nextAttemptAt
+    ? `Not ${action} yet. Retrying at ${formatDate(new Date(message.nextAttemptAt), 'HH:mm:ss')} (attempt ${message.attempts} failed).`
+    : `Could not be ${action} after ${message.attempts} attempts.`;
+}
+
+export default function PublishButton({ changelog, historyId, metadata }: PublishButtonProps) {
   const [isPublishing, setIsPublishing] = useState(false);
-  const [publishStatus, setPublishStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  // The publish the entry came from, and an update or unpublish of it still in flight
+  const [publication, setPublication] = useState<OutboxMessage | null>(null);
+  const [operation, setOperation] = useState<OutboxMessage | null>(null);
   const [errorMessage, setErrorMessage] = useState('');
 
-  const publishToGramaphone = async () => {
+  useEffect(() => {
+    setPublication(null);
+    setOperation(null);
+    if (!historyId) {
+      return;
+    }
+    fetch(`/api/publications?historyId=${historyId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        const messages: OutboxMessage[] = data?.publications ?? [];
+        const latest = messages.filter(message => message.kind === PUBLISH).pop() ?? null;
+        setPublication(latest);
+        setOperation(messages.find(message =>
+          message.kind !== PUBLISH && message.status !== 'delivered' && message.payload.publicationId === latest?.id) ?? null);
+      })
+      .catch(() => undefined);
+  }, [historyId]);
+
+  // Finished updates refresh the publish they changed; a finished unpublish clears it
+  const track = async (message: OutboxMessage) => {
+    if (message.kind === PUBLISH) {
+      setPublication(message);
+      return;
+    }
+    if (message.status !== 'delivered') {
+      setOperation(message);
+      return;
+    }
+    setOperation(null);
+    if (message.kind === UNPUBLISH) {
+      setPublication(null);
+    } else {
+      // The publish is stored under its new content's key once the update lands
+      const publicationId = message.result?.publicationId ?? message.payload.publicationId;
+      setPublication(await readPublication(await fetch(`/api/publications/${publicationId}`)));
+    }
+  };
+
+  // The outbox retries on its own; keep the status current meanwhile
+  const pendingId = [operation, publication].find(message => message?.status === 'pending')?.id;
+  useEffect(() => {
+    if (!pendingId) {
+      return;
+    }
+    const timer = setInterval(() => {
+      fetch(`/api/publications/${pendingId}`)
+        .then(readPublication)
+        .then(track)
+        .catch(() => undefined);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingId]);
+
+  const send = async (request: Promise<Response>) => {
     setIsPublishing(true);
-    setPublishStatus('idle');
     setErrorMessage('');
-
     try {
-      console.log('Publishing to:', process.env.NEXT_PUBLIC_GRAMAPHONE_URL);
-      
-      const response = await fetch(`${process.env.NEXT_PUBLIC_GRAMAPHONE_URL}/api/changelogs`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          repoUrl: metadata.repo,
-          content: changelog,
-          metadata: {
-            generatedAt: new Date().toISOString(),
-            period: metadata.period
-          }
-        })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to publish to Gramaphone: ${errorText}`);
-      }
-
-      setPublishStatus('success');
-      setTimeout(() => setPublishStatus('idle'), 3000);
+      await track(await readPublication(await request));
     } catch (error) {
-      console.error('Publishing error:', error);
-      setPublishStatus('error');
       setErrorMessage(error instanceof Error ? error.message : 'Failed to publish changelog');
     } finally {
       setIsPublishing(false);
     }
   };
 
+  const publishToGramaphone = () => send(fetch('/api/publications', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(historyId
+      ? { historyId, content: changelog }
+      : { repoUrl: metadata.repo, period: metadata.period, content: changelog })
+  }));
+
+  const updateEntry = () => publication && send(fetch(`/api/publications/${publication.id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ content: changelog })
+  }));
+
+  const unpublishEntry = () => {
+    if (publication && window.confirm('Remove this changelog from Gramaphone?')) {
+      void send(fetch(`/api/publications/${publication.id}`, { method: 'DELETE' }));
+    }
+  };
+
+  const retryNow = (message: OutboxMessage) => send(fetch(`/api/publications/${message.id}/retry`, { method: 'POST' }));
+
+  const published = publication?.status === 'delivered';
+  const upToDate = published && publication.payload.content === changelog;
+  const waiting = [publication, operation].find(message => message && message.status !== 'delivered');
+
   return (
     <div className="space-y-2">
-      <Button
-        onClick={publishToGramaphone}
-        disabled={isPublishing || !changelog || !process.env.NEXT_PUBLIC_GRAMAPHONE_URL}
-        variant={publishStatus === 'success' ? "outline" : "default"}
-        className="w-full"
-      >
-        {isPublishing ? (
-          <>
-            <Upload className="mr-2 h-4 w-4 animate-spin" />
-            Publishing...
-          </>
-        ) : publishStatus === 'success' ? (
-          <>
-            <Check className="mr-2 h-4 w-4" />
-            Published!
-          </>
-        ) : (
-          <>
-            <Upload className="mr-2 h-4 w-4" />
-            Publish to Gramaphone
-          </>
+      <div className="flex gap-2">
+        <Button
+          onClick={published ? updateEntry : publishToGramaphone}
+          disabled={isPublishing || !changelog || upToDate || operation !== null}
+          variant={upToDate ? "outline" : "default"}
+          className="flex-1"
+        >
+          {isPublishing ? (
+            <>
+              <Upload className="mr-2 h-4 w-4 animate-spin" />
+              Publishing...
+            </>
+          ) : upToDate ? (
+            <>
+              <Check className="mr-2 h-4 w-4" />
+              Published
+            </>
+          ) : published ? (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Update published entry
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Publish to Gramaphone
+            </>
+          )}
+        </Button>
+        {published && (
+          <Button
+            variant="outline"
+            onClick={unpublishEntry}
+            disabled={isPublishing || operation !== null}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Unpublish
+          </Button>
         )}
-      </Button>
+      </div>
+
+      {published && publication.result?.id !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          Gramaphone entry {String(publication.result.id)}, published {formatDate(new Date(publication.deliveredAt ?? publication.createdAt), 'MMM d, HH:mm')}
+          {!upToDate && '. The changes shown here are not published yet.'}
+        </p>
+      )}
 
-      {publishStatus === 'error' && (
+      {waiting && (
+        <Alert variant={waiting.status === 'failed' ? 'destructive' : 'default'}>
+          {waiting.status === 'failed' ? <AlertCircle className="h-4 w-4" /> : <Clock className="h-4 w-4" />}
+          <AlertDescription className="space-y-2">
+            <p>{describeAttempts(waiting)}</p>
+            {waiting.lastError && <p className="text-xs">{waiting.lastError}</p>}
+            <Button size="sm" variant="outline" onClick={() => retryNow(waiting)} disabled={isPublishing}>
+              <RotateCw className="mr-2 h-4 w-4" />
+              Retry now
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {errorMessage && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>{errorMessage}</AlertDescription>
@@ -92,4 +215,4 @@ export default function PublishButton({ changelog, metadata }: PublishButtonProp
       )}
     </div>
   );
-}
\ No newline at end of file
+}
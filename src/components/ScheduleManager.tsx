@@ -0,0 +1,485 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format as formatDate } from 'date-fns';
+import { AlertCircle, ArrowLeft, CalendarClock, Loader2, Pause, Play, Trash2, Zap } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Schedule } from '@/lib/schedules/schedule-store';
+
+type ScheduleEntry = Schedule & { running: boolean };
+
+interface PresetOption {
+  name: string;
+  label: string;
+}
+
+interface NamedDestination {
+  name: string;
+  type: string;
+}
+
+interface ScheduleForm {
+  name: string;
+  repoUrl: string;
+  preset: string;
+  cron: string;
+  windowDays: number;
+  destinations: string[];
+  // Recipients for the email destination
+  emailTo: string;
+  // Destinations configured by name, like a team's Slack channel
+  named: string[];
+}
+
+const CRON_SUGGESTIONS = [
+  { cron: '0 17 * * 5', label: 'Fridays at 5pm' },
+  { cron: '0 9 * * 1', label: 'Mondays at 9am' },
+  { cron: '0 9 * * 1-5', label: 'Weekdays at 9am' },
+  { cron: '0 9 1 * *', label: 'First of the month' }
+];
+
+const EMPTY_FORM: ScheduleForm = {
+  name: '',
+  repoUrl: '',
+  preset: '',
+  cron: CRON_SUGGESTIONS[0].cron,
+  windowDays: 7,
+  destinations: [],
+  emailTo: '',
+  named: []
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.message || `Request failed with status ${response.status}`);
+  }
+  return body as T;
+}
+
+// "owner/repo" from what's been typed so far, to look up its named destinations
+function repoName(repoUrl: string): string | undefined {
+  const match = repoUrl.trim().match(/github\.com\/([^/]+\/[^/]+?)(?:\.git)?\/?$/);
+  return match?.[1];
+}
+
+function formatTime(value?: string): string {
+  return value ? formatDate(new Date(value), 'EEE MMM d, HH:mm') : '—';
+}
+
+const ScheduleManager = () => {
+  const [schedules, setSchedules] = useState<ScheduleEntry[]>([]);
+  const [destinationTypes, setDestinationTypes] = useState<string[]>([]);
+  const [namedDestinations, setNamedDestinations] = useState<NamedDestination[]>([]);
+  const [presets, setPresets] = useState<PresetOption[]>([]);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await readJson<{ schedules: ScheduleEntry[]; destinationTypes: string[] }>(await fetch('/api/schedules'));
+      setSchedules(data.schedules);
+      setDestinationTypes(data.destinationTypes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+    fetch('/api/presets')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data) {
+          setPresets(data.presets);
+        }
+      })
+      .catch(() => undefined);
+  }, [refresh]);
+
+  const repo = repoName(form.repoUrl);
+  useEffect(() => {
+    const query = repo ? `?repo=${encodeURIComponent(repo)}` : '';
+    fetch(`/api/destinations${query}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data) {
+          setNamedDestinations(data.destinations);
+          // Drop picks the new repo doesn't have
+          setForm(prev => ({
+            ...prev,
+            named: prev.named.filter(name => data.destinations.some((destination: NamedDestination) => destination.name === name))
+          }));
+        }
+      })
+      .catch(() => undefined);
+  }, [repo]);
+
+  // Keep last-run results current while something is running
+  useEffect(() => {
+    if (!schedules.some(schedule => schedule.running)) {
+      return;
+    }
+    const timer = setInterval(() => void refresh(), 5000);
+    return () => clearInterval(timer);
+  }, [schedules, refresh]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      await readJson(await fetch('/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name || undefined,
+          repoUrl: form.repoUrl,
+          preset: form.preset || undefined,
+          cron: form.cron,
+          windowDays: form.windowDays,
+          destinations: [
+            ...form.destinations.map(type =>
+              type === 'email' ? { type, to: form.emailTo || undefined } : { type }),
+            ...form.named
+          ]
+        })
+      }));
+      setForm(EMPTY_FORM);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: ScheduleEntry) => {
+    setError('');
+    try {
+      await readJson(await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled })
+      }));
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleRun = async (schedule: ScheduleEntry) => {
+    setError('');
+    try {
+      await readJson(await fetch(`/api/schedules/${schedule.id}/run`, { method: 'POST' }));
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start schedule');
+    }
+  };
+
+  const handleDelete = async (schedule: ScheduleEntry) => {
+    if (!window.confirm(`Delete the schedule "${schedule.name}"?`)) {
+      return;
+    }
+    setError('');
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        await readJson(response);
+      }
+      setSchedules(prev => prev.filter(entry => entry.id !== schedule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-10 md:py-14 flex items-center justify-between">
+            <div className="flex flex-col space-y-4">
+              <h1 className="text-4xl md:text-5xl font-extrabold">
+                Schedules
+              </h1>
+              <p className="text-lg text-muted-foreground">
+                Recurring digests, generated and sent without anyone clicking Generate.
+              </p>
+            </div>
+            <Button variant="ghost" asChild>
+              <Link href="/">
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Generate
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* New schedule */}
+          <div>
+            <Card>
+              <CardContent className="p-6">
+                <form onSubmit={handleCreate} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      GitHub Repository URL
+                    </label>
+                    <input
+                      type="url"
+                      className="w-full p-2 border rounded-md bg-background"
+                      placeholder="https://github.com/owner/repo"
+                      value={form.repoUrl}
+                      onChange={(e) => setForm(prev => ({ ...prev, repoUrl: e.target.value }))}
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      Name (optional)
+                    </label>
+                    <input
+                      type="text"
+                      className="w-full p-2 border rounded-md bg-background"
+                      placeholder="Weekly status"
+                      value={form.name}
+                      onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                    />
+                  </div>
+
+                  {presets.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Write for
+                      </label>
+                      <Select
+                        value={form.preset}
+                        onValueChange={(value) => setForm(prev => ({ ...prev, preset: value }))}
+                      >
+                        <SelectTrigger className="bg-background">
+                          <SelectValue placeholder="Default preset" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {presets.map(preset => (
+                            <SelectItem key={preset.name} value={preset.name}>
+                              {preset.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      When (cron, server time)
+                    </label>
+                    <input
+                      type="text"
+                      className="w-full p-2 border rounded-md bg-background font-mono"
+                      value={form.cron}
+                      onChange={(e) => setForm(prev => ({ ...prev, cron: e.target.value }))}
+                      required
+                    />
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {CRON_SUGGESTIONS.map(suggestion => (
+                        <button
+                          key={suggestion.cron}
+                          type="button"
+                          className={`text-xs rounded px-2 py-1 ${form.cron === suggestion.cron ? 'bg-green-500 text-white' : 'bg-muted hover:bg-muted/80'}`}
+                          onClick={() => setForm(prev => ({ ...prev, cron: suggestion.cron }))}
+                        >
+                          {suggestion.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      Covering the last (days)
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={366}
+                      className="w-full p-2 border rounded-md bg-background"
+                      value={form.windowDays}
+                      onChange={(e) => setForm(prev => ({ ...prev, windowDays: Number(e.target.value) }))}
+                      required
+                    />
+                  </div>
+
+                  {(destinationTypes.length > 0 || namedDestinations.length > 0) && (
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Send to
+                      </label>
+                      {destinationTypes.map(type => (
+                        <label key={type} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={form.destinations.includes(type)}
+                            onChange={(e) => setForm(prev => ({
+                              ...prev,
+                              destinations: e.target.checked
+                                ? [...prev.destinations, type]
+                                : prev.destinations.filter(destination => destination !== type)
+                            }))}
+                          />
+                          {type}
+                        </label>
+                      ))}
+                      {namedDestinations.map(({ name, type }) => (
+                        <label key={name} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={form.named.includes(name)}
+                            onChange={(e) => setForm(prev => ({
+                              ...prev,
+                              named: e.target.checked
+                                ? [...prev.named, name]
+                                : prev.named.filter(selected => selected !== name)
+                            }))}
+                          />
+                          {name} <span className="text-muted-foreground">({type})</span>
+                        </label>
+                      ))}
+                      {form.destinations.includes('email') && (
+                        <input
+                          type="text"
+                          className="w-full p-2 border rounded-md bg-background mt-2"
+                          placeholder="Recipients, e.g. team@example.com (defaults to the preset's)"
+                          value={form.emailTo}
+                          onChange={(e) => setForm(prev => ({ ...prev, emailTo: e.target.value }))}
+                        />
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Every run is kept in the history either way.
+                      </p>
+                    </div>
+                  )}
+
+                  <Button
+                    type="submit"
+                    className="w-full dark:text-white bg-green-500"
+                    disabled={saving}
+                  >
+                    {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarClock className="mr-2 h-4 w-4" />}
+                    Add schedule
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Existing schedules */}
+          <div className="space-y-4">
+            {loading ? (
+              <div className="flex justify-center py-12 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : schedules.length === 0 ? (
+              <div className="text-center text-muted-foreground py-12">
+                <CalendarClock className="h-12 w-12 mx-auto mb-4" />
+                <p>No schedules yet.</p>
+              </div>
+            ) : (
+              schedules.map(schedule => (
+                <Card key={schedule.id}>
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <h2 className="font-semibold">{schedule.name}</h2>
+                        <p className="text-xs text-muted-foreground">
+                          {schedule.repoUrl} · <span className="font-mono">{schedule.cron}</span> · last {schedule.windowDays} days
+                          {schedule.preset && ` · ${schedule.preset}`}
+                          {schedule.destinations.length > 0 && ` · to ${schedule.destinations.map(destination => typeof destination === 'string' ? destination : destination.type).join(', ')}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          aria-label={schedule.enabled ? 'Pause' : 'Resume'}
+                          onClick={() => handleToggle(schedule)}
+                        >
+                          {schedule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          aria-label="Run now"
+                          disabled={schedule.running}
+                          onClick={() => handleRun(schedule)}
+                        >
+                          {schedule.running ? <Loader2 className="h-4 w-4 animate-spin" /> : <Zap className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          aria-label="Delete"
+                          onClick={() => handleDelete(schedule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">Next: </span>
+                      {schedule.enabled ? formatTime(schedule.nextRunAt) : 'paused'}
+                    </p>
+                    {schedule.lastRun && (
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Last: </span>
+                        {formatTime(schedule.lastRun.startedAt)}
+                        {' · '}
+                        <span className={schedule.lastRun.status === 'failed' ? 'text-red-500' : 'text-green-600'}>
+                          {schedule.lastRun.status}
+                        </span>
+                        {schedule.lastRun.historyId && (
+                          <>
+                            {' · '}
+                            <Link className="underline" href={`/history?id=${schedule.lastRun.historyId}`}>
+                              open
+                            </Link>
+                          </>
+                        )}
+                        {schedule.lastRun.error && (
+                          <span className="block text-xs text-red-500">{schedule.lastRun.error}</span>
+                        )}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ScheduleManager;
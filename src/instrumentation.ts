@@ -0,0 +1,14 @@
+// Runs once when the server starts
+export async function register() {
+  // Timers and the file system aren't available in the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getScheduler } = await import('./lib/schedules/scheduler');
+    getScheduler();
+    // Picks up publishes still waiting for a retry
+    const { getOutbox } = await import('./lib/outbox/outbox');
+    getOutbox();
+    // Requeues jobs a restart cut off, rather than waiting for the first /api/jobs request
+    const { getJobQueue } = await import('./lib/jobs/job-queue');
+    getJobQueue();
+  }
+}
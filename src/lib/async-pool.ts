@@ -0,0 +1,20 @@
+// Like Promise.all over items.map(fn), but with at most `concurrency` calls in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
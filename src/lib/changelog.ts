@@ -0,0 +1,98 @@
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { z } from 'zod';
+
+// Sections an entry can be filed under. Breaking changes are flagged per entry
+// and collected into their own section when rendering.
+export const ENTRY_SECTIONS = [
+  'Features',
+  'Improvements',
+  'Bug Fixes',
+  'Security',
+  'Performance',
+  'Documentation',
+  'Dependencies',
+  'Refactor',
+  'Tests',
+  'Other'
+] as const;
+
+// Every field is required (nullable where optional) so the schema is usable
+// with OpenAI's strict structured outputs
+export const ChangelogEntrySchema = z.object({
+  // A refinement rather than minLength, which strict mode doesn't accept
+  summary: z.string().refine(value => value.trim().length > 0, 'Entry summary is empty'),
+  scope: z.string().nullable(),
+  breaking: z.boolean(),
+  // Short SHAs of the commits behind the entry
+  commits: z.array(z.string()),
+  pullRequests: z.array(z.number().int()),
+  authors: z.array(z.string())
+});
+
+export const ChangelogSectionSchema = z.object({
+  title: z.enum(ENTRY_SECTIONS),
+  entries: z.array(ChangelogEntrySchema)
+});
+
+export const ChangelogSchema = z.object({
+  // One or two sentences on what the period was about
+  summary: z.string(),
+  sections: z.array(ChangelogSectionSchema)
+});
+
+export type ChangelogEntry = z.infer<typeof ChangelogEntrySchema>;
+export type ChangelogSection = z.infer<typeof ChangelogSectionSchema>;
+export type Changelog = z.infer<typeof ChangelogSchema>;
+
+export interface StructuredOutputFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export const CHANGELOG_OUTPUT_FORMAT: StructuredOutputFormat = {
+  name: 'changelog',
+  schema: zodResponseFormat(ChangelogSchema, 'changelog').json_schema.schema as Record<string, unknown>
+};
+
+export class ChangelogValidationError extends Error {
+  readonly type = 'invalid_llm_response';
+
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = 'ChangelogValidationError';
+  }
+}
+
+// Models without constrained output like to wrap JSON in prose or code fences
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    return fenced[1];
+  }
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.substring(start, end + 1) : text;
+}
+
+export function parseChangelog(text: string): Changelog {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(text));
+  } catch (error) {
+    throw new ChangelogValidationError('Changelog response is not valid JSON', [
+      error instanceof Error ? error.message : 'Unparseable JSON'
+    ]);
+  }
+
+  const result = ChangelogSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ChangelogValidationError('Changelog response does not match the schema', issues);
+  }
+
+  // Empty sections carry no information and only clutter the renderers
+  return {
+    ...result.data,
+    sections: result.data.sections.filter(section => section.entries.length > 0)
+  };
+}
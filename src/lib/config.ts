@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import type { DeliveryTarget } from './delivery/types';
+import type { CommitFetchStrategy } from './github/commit-fetchers';
+import logger from './logger';
+import type { PresetConfig } from './presets';
+import type { WebhookSubscription } from './webhooks/subscriptions';
+
+export interface RepoConfig {
+  provider?: string;
+  // Named delivery destinations for this repo, added to the global ones
+  destinations?: Record<string, DeliveryTarget>;
+}
+
+export type SummarizationStrategy = 'map-reduce' | 'truncate';
+
+// What the changelog is written from: raw commits and patches, or merged pull requests
+export type ChangelogMode = 'commits' | 'pull-requests';
+
+export interface GramphibianConfig {
+  defaultProvider?: string;
+  mode?: ChangelogMode;
+  // Preset used when a request doesn't name one
+  defaultPreset?: string;
+  // Custom presets, or overrides of built-in ones, keyed by name
+  presets?: Record<string, PresetConfig>;
+  // How to fit diffs that exceed the provider's context window
+  summarization?: SummarizationStrategy;
+  github?: {
+    fetchStrategy?: CommitFetchStrategy;
+    // Maximum concurrent commit detail requests
+    concurrency?: number;
+    // Keep commit details and list page ETags on disk (default true)
+    cache?: boolean;
+    // Release notes for tags announced by GitHub's webhook (POST /api/github/webhook)
+    webhook?: {
+      // Only these "owner/repo"s; all repos when left out
+      repos?: string[];
+      provider?: string;
+      preset?: string;
+      mode?: ChangelogMode;
+      // Replace the description of the tag's GitHub release with the notes (default false)
+      updateRelease?: boolean;
+    };
+  };
+  jobs?: {
+    // Generations run at once by the background queue (default 1)
+    concurrency?: number;
+    // Days finished jobs are kept on disk (default 7)
+    retentionDays?: number;
+    // Runs a job gets when restarts keep interrupting it (default 3)
+    maxAttempts?: number;
+  };
+  schedules?: {
+    // Run due schedules in this process (default true). When running several
+    // instances, leave it on in only one of them.
+    enabled?: boolean;
+  };
+  outbox?: {
+    // Attempts at each outbound call, like a Gramaphone publish, before giving up (default 8)
+    maxAttempts?: number;
+    // Days delivered messages are kept, which is how long repeats are recognized (default 30)
+    retentionDays?: number;
+  };
+  history?: {
+    // Record every generation for the history page (default true)
+    enabled?: boolean;
+    // SQLite database file (default <data dir>/history.db)
+    path?: string;
+  };
+  greptile?: {
+    indexedRepos?: string[];
+  };
+  // Named delivery destinations, e.g. a team's Slack webhook, usable from every repo.
+  // Kept here rather than in requests so webhook URLs never reach the browser.
+  destinations?: Record<string, DeliveryTarget>;
+  // Email given in a request rather than by destination name may only go to these
+  // addresses, or "@example.com" for a whole domain. None when left out.
+  allowedRecipients?: string[];
+  // Endpoints told about changelogs being generated, edited and published
+  webhooks?: WebhookSubscription[];
+  // Keyed by "owner/repo"
+  repos?: Record<string, RepoConfig>;
+}
+
+const DEFAULT_CONFIG_FILE = 'gramphibian.config.json';
+const DEFAULT_DATA_DIR = '.gramphibian';
+
+let cachedConfig: GramphibianConfig | null = null;
+
+export function loadConfig(): GramphibianConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = path.resolve(process.cwd(), process.env.GRAMPHIBIAN_CONFIG || DEFAULT_CONFIG_FILE);
+
+  if (!fs.existsSync(configPath)) {
+    cachedConfig = {};
+    return cachedConfig;
+  }
+
+  try {
+    cachedConfig = JSON.parse(fs.readFileSync(configPath, 'utf8')) as GramphibianConfig;
+    logger.info('Loaded configuration', { configPath });
+  } catch (error) {
+    logger.error('Failed to parse configuration, using defaults', {
+      configPath,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    cachedConfig = {};
+  }
+
+  return cachedConfig;
+}
+
+export function getRepoConfig(fullRepoName: string): RepoConfig {
+  return loadConfig().repos?.[fullRepoName] ?? {};
+}
+
+// Root for everything Gramphibian persists locally (caches, stores)
+export function getDataDir(): string {
+  return path.resolve(process.cwd(), process.env.GRAMPHIBIAN_DATA_DIR || DEFAULT_DATA_DIR);
+}
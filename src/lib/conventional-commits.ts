@@ -0,0 +1,207 @@
+import type { Changelog, ChangelogEntry } from './changelog';
+
+// Parses commit messages (and PR titles) written in the Conventional Commits
+// format, https://www.conventionalcommits.org, and groups them into the
+// changelog sections the rest of the app already uses.
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/;
+const BREAKING_FOOTER_PATTERN = /^BREAKING[ -]CHANGE:\s*(.*)$/;
+// Any "Token: value" or "Token #value" trailer ends a breaking change note
+const FOOTER_PATTERN = /^[\w-]+(:\s|\s#)/;
+const REFERENCE_PATTERN = /(?:^|[^\w&/])#(\d+)\b/g;
+const MERGE_PATTERN = /^Merge (pull request|branch|remote-tracking branch) /;
+
+export interface ParsedCommit {
+  // Null when the header doesn't follow the convention
+  type: string | null;
+  scope: string | null;
+  description: string;
+  body: string;
+  breaking: boolean;
+  breakingNotes: string[];
+  // Issue and PR numbers mentioned anywhere in the message
+  references: number[];
+}
+
+// Sections in display order; titles match the changelog model's sections
+export const CHANGELOG_SECTIONS = [
+  'Breaking Changes',
+  'Features',
+  'Improvements',
+  'Bug Fixes',
+  'Security',
+  'Performance',
+  'Documentation',
+  'Dependencies',
+  'Refactor',
+  'Tests',
+  'Other'
+] as const;
+
+export type SectionTitle = typeof CHANGELOG_SECTIONS[number];
+
+const SECTION_BY_TYPE: Record<string, SectionTitle> = {
+  feat: 'Features',
+  feature: 'Features',
+  improve: 'Improvements',
+  improvement: 'Improvements',
+  enhancement: 'Improvements',
+  fix: 'Bug Fixes',
+  bugfix: 'Bug Fixes',
+  security: 'Security',
+  perf: 'Performance',
+  docs: 'Documentation',
+  doc: 'Documentation',
+  deps: 'Dependencies',
+  refactor: 'Refactor',
+  test: 'Tests',
+  tests: 'Tests'
+};
+
+// One change as its author described it: a commit message, or a PR title and body
+export interface ChangeEntry {
+  message: string;
+  // Short SHA or "#123", shown after each item
+  reference: string;
+  author?: string | null;
+}
+
+export interface ConventionalEntry {
+  parsed: ParsedCommit;
+  reference: string;
+  author?: string | null;
+}
+
+export type GroupedChanges = Partial<Record<SectionTitle, ConventionalEntry[]>>;
+
+function collectReferences(message: string): number[] {
+  return Array.from(new Set(Array.from(message.matchAll(REFERENCE_PATTERN), match => Number(match[1]))));
+}
+
+function parseBreakingNotes(lines: string[]): string[] {
+  const notes: string[][] = [];
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const breaking = line.match(BREAKING_FOOTER_PATTERN);
+    if (breaking) {
+      current = [breaking[1]];
+      notes.push(current);
+    } else if (current && (line.trim() === '' || FOOTER_PATTERN.test(line))) {
+      current = null;
+    } else if (current) {
+      current.push(line.trim());
+    }
+  }
+
+  return notes.map(note => note.join(' ').trim()).filter(Boolean);
+}
+
+export function parseConventionalCommit(message: string): ParsedCommit {
+  const [header = '', ...rest] = message.trim().split('\n');
+  const body = rest.join('\n').trim();
+  const breakingNotes = parseBreakingNotes(rest);
+  const match = header.trim().match(HEADER_PATTERN);
+
+  if (!match) {
+    return {
+      type: null,
+      scope: null,
+      description: header.trim(),
+      body,
+      breaking: breakingNotes.length > 0,
+      breakingNotes,
+      references: collectReferences(message)
+    };
+  }
+
+  const [, type, scope, bang, description] = match;
+  return {
+    type: type.toLowerCase(),
+    scope: scope?.trim() || null,
+    description: description.trim(),
+    body,
+    breaking: bang === '!' || breakingNotes.length > 0,
+    breakingNotes,
+    references: collectReferences(message)
+  };
+}
+
+export function sectionFor(parsed: ParsedCommit): SectionTitle {
+  if (!parsed.type) {
+    return 'Other';
+  }
+  // build(deps): and chore(deps): are how Dependabot and Renovate write upgrades
+  if (parsed.scope === 'deps' || parsed.scope === 'deps-dev') {
+    return 'Dependencies';
+  }
+  return SECTION_BY_TYPE[parsed.type] ?? 'Other';
+}
+
+// Breaking changes are listed on their own and again under their type
+export function groupChanges(changes: ChangeEntry[]): GroupedChanges {
+  const groups: GroupedChanges = {};
+  const add = (section: SectionTitle, entry: ConventionalEntry) => {
+    groups[section] = [...(groups[section] ?? []), entry];
+  };
+
+  changes.forEach(change => {
+    if (MERGE_PATTERN.test(change.message)) {
+      return;
+    }
+    const entry = { parsed: parseConventionalCommit(change.message), reference: change.reference, author: change.author };
+    if (entry.parsed.breaking) {
+      add('Breaking Changes', entry);
+    }
+    add(sectionFor(entry.parsed), entry);
+  });
+
+  return groups;
+}
+
+function formatItem(entry: ConventionalEntry, section: SectionTitle): string {
+  const { parsed, reference } = entry;
+  const scope = parsed.scope ? `**${parsed.scope}:** ` : '';
+  const text = section === 'Breaking Changes' && parsed.breakingNotes.length > 0
+    ? `${parsed.description}. ${parsed.breakingNotes.join(' ')}`
+    : parsed.description;
+  // Squash-merge titles usually carry their own "(#123)"
+  const suffix = parsed.description.includes(`(${reference})`) ? '' : ` (${reference})`;
+  return `- ${scope}${text}${suffix}`;
+}
+
+// Plain-text changelog in the "Section:\n- item" shape
+export function renderGroupedChanges(groups: GroupedChanges): string {
+  return CHANGELOG_SECTIONS
+    .filter(section => groups[section]?.length)
+    .map(section => [`${section}:`, ...(groups[section] ?? []).map(entry => formatItem(entry, section))].join('\n'))
+    .join('\n\n');
+}
+
+function toChangelogEntry(entry: ConventionalEntry): ChangelogEntry {
+  const pullRequest = entry.reference.match(/^#(\d+)$/);
+  const { parsed } = entry;
+  return {
+    summary: parsed.breakingNotes.length > 0 ? `${parsed.description}. ${parsed.breakingNotes.join(' ')}` : parsed.description,
+    scope: parsed.scope,
+    breaking: parsed.breaking,
+    commits: pullRequest ? [] : [entry.reference],
+    pullRequests: pullRequest ? [Number(pullRequest[1])] : [],
+    authors: entry.author ? [entry.author] : []
+  };
+}
+
+// The same grouping as the changelog model; breaking entries stay in their type's section, flagged
+export function toChangelog(changes: ChangeEntry[]): Changelog {
+  const groups = groupChanges(changes);
+  const sections = CHANGELOG_SECTIONS
+    .filter((section): section is Exclude<SectionTitle, 'Breaking Changes'> => section !== 'Breaking Changes')
+    .filter(section => groups[section]?.length)
+    .map(section => ({ title: section, entries: (groups[section] ?? []).map(toChangelogEntry) }));
+  const total = sections.reduce((count, section) => count + section.entries.length, 0);
+
+  return {
+    summary: total > 0 ? `${total} change${total === 1 ? '' : 's'} in this range.` : 'No changes in this range.',
+    sections
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Changelog } from '../changelog';
+import { renderAllFormats } from '../renderers';
+import { chunkText, editedText } from './chat';
+import { buildDiscordPayloads } from './discord';
+import { buildEmailMessage, textToHtml } from './email';
+import { buildSlackPayloads, markdownToMrkdwn } from './slack';
+import { buildTeamsPayloads } from './teams';
+import type { DeliverableChangelog } from './types';
+
+vi.mock('../presets', () => ({
+  loadPresets: () => [{ name: 'weekly-status', email: { subject: 'This week in widgets', to: 'team@example.com' } }]
+}));
+
+const changelog: Changelog = {
+  summary: 'Faster loading.',
+  sections: [{
+    title: 'Features',
+    entries: [{ summary: 'Cache widget lists', scope: null, breaking: false, commits: ['abc1234'], pullRequests: [12], authors: ['octocat'] }]
+  }]
+};
+
+function deliverable(overrides: Partial<DeliverableChangelog> = {}): DeliverableChangelog {
+  const renders = renderAllFormats(changelog, { owner: 'acme', repo: 'widgets' });
+  return {
+    repo: 'acme/widgets',
+    repoUrl: 'https://github.com/acme/widgets',
+    period: { start: '2024-06-03T00:00:00.000Z', end: '2024-06-10T00:00:00.000Z' },
+    preset: 'weekly-status',
+    format: 'markdown',
+    content: renders.markdown,
+    renders,
+    changelog,
+    ...overrides
+  };
+}
+
+describe('chunkText', () => {
+  it('splits at line breaks, and cuts lines that are too long on their own', () => {
+    expect(chunkText('aaa\nbbb\nccc', 7)).toEqual(['aaa\nbbb', 'ccc']);
+    expect(chunkText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    expect(chunkText('\n\n', 10)).toEqual([]);
+  });
+});
+
+describe('editedText', () => {
+  it('is only set for edited text formats', () => {
+    expect(editedText(deliverable())).toBeUndefined();
+    expect(editedText(deliverable({ content: '# Fixed typo' }))).toBe('# Fixed typo');
+    expect(editedText(deliverable({ format: 'html', content: '<p>edited</p>' }))).toBeUndefined();
+  });
+});
+
+describe('Slack', () => {
+  it('converts markdown to mrkdwn', () => {
+    expect(markdownToMrkdwn('## Fixes\n- **Bold** <b> [docs](https://example.com)'))
+      .toBe('*Fixes*\n• *Bold* &lt;b&gt; <https://example.com|docs>');
+  });
+
+  it('splits long text into sections and messages within Block Kit limits', () => {
+    const line = 'x'.repeat(2999);
+    const payloads = buildSlackPayloads(`# Title\n${Array(60).fill(line).join('\n')}`);
+    expect(payloads).toHaveLength(2);
+    expect(payloads[0].blocks).toHaveLength(50);
+    expect(payloads[0].text).toBe('Title');
+    const sections = payloads.flatMap(payload => payload.blocks ?? []).filter(block => block.type === 'section');
+    expect(sections.every(block => block.text.text.length <= 3000)).toBe(true);
+  });
+});
+
+describe('Discord', () => {
+  it('posts 2000-character chunks that never mention anyone', () => {
+    const payloads = buildDiscordPayloads(`@everyone\n${'y'.repeat(2500)}`);
+    expect(payloads.map(payload => payload.content.length)).toEqual([9, 2000, 500]);
+    expect(payloads.every(payload => payload.allowed_mentions.parse.length === 0)).toBe(true);
+  });
+});
+
+describe('Teams', () => {
+  it('puts the title on the first card only and turns headings bold', () => {
+    const payloads = buildTeamsPayloads(`## Features\n${'z'.repeat(20000)}`, 'Changes in acme/widgets');
+    expect(payloads).toHaveLength(2);
+    const [first, second] = payloads.map(payload => payload.attachments[0].content.body);
+    expect(first[0]).toMatchObject({ text: 'Changes in acme/widgets', weight: 'Bolder' });
+    expect(first[1].text).toBe('**Features**');
+    expect(second).toHaveLength(1);
+  });
+});
+
+describe('email', () => {
+  it('sends the purpose-built renderings of an untouched changelog', () => {
+    const message = buildEmailMessage({ type: 'email', from: 'changelog@example.com' }, deliverable());
+    expect(message).toMatchObject({
+      from: 'changelog@example.com',
+      to: ['team@example.com'],
+      cc: [],
+      subject: 'This week in widgets',
+      text: deliverable().renders.email,
+      html: deliverable().renders.html
+    });
+  });
+
+  it('sends edits as they were written', () => {
+    const message = buildEmailMessage(
+      { type: 'email', from: 'changelog@example.com', to: 'a@example.com, b@example.com', subject: 'Edited' },
+      deliverable({ content: 'Line one\nline two\n\n<script>' })
+    );
+    expect(message.to).toEqual(['a@example.com', 'b@example.com']);
+    expect(message.text).toBe('Line one\nline two\n\n<script>');
+    expect(message.html).toBe('<p>Line one<br>\nline two</p>\n<p>&lt;script&gt;</p>');
+  });
+
+  it('needs a sender', () => {
+    vi.stubEnv('SMTP_FROM', '');
+    expect(() => buildEmailMessage({ type: 'email' }, deliverable())).toThrow('No sender address');
+    vi.unstubAllEnvs();
+  });
+
+  it('escapes text turned into HTML', () => {
+    expect(textToHtml('a & b\n\n\nc')).toBe('<p>a &amp; b</p>\n<p>c</p>');
+  });
+});
@@ -0,0 +1,72 @@
+import type { OutputFormat } from '../renderers';
+import { DeliverableChangelog, DeliveryTarget } from './types';
+
+// Shared by the chat webhook channels (Slack, Discord, Teams)
+
+export interface WebhookTarget extends DeliveryTarget {
+  url: string;
+}
+
+// Formats whose edited content can be posted as text
+const TEXT_FORMATS: OutputFormat[] = ['markdown', 'keep-a-changelog', 'github-release', 'email'];
+
+export function validateWebhookUrl(target: DeliveryTarget): string | undefined {
+  const { url, type } = target as WebhookTarget;
+  if (typeof url !== 'string') {
+    return `A ${type} destination needs the webhook "url"`;
+  }
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:' ? undefined : `The ${type} webhook url must be http(s)`;
+  } catch {
+    return `The ${type} webhook url "${url}" is not a valid URL`;
+  }
+}
+
+// A webhook URL from a request would let anyone make the server post wherever they like
+export function refuseInlineWebhook({ type }: DeliveryTarget): string {
+  return `A ${type} webhook can only be sent to by name. Configure it under "destinations"`;
+}
+
+// Edited text if there is any, so fixes made in the preview are what gets posted
+export function editedText(changelog: DeliverableChangelog): string | undefined {
+  const { content, format, renders } = changelog;
+  return content !== renders[format] && TEXT_FORMATS.includes(format) ? content : undefined;
+}
+
+// Splits at line breaks so each piece fits `limit`; single lines longer than that are cut
+export function chunkText(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const line of text.split('\n')) {
+    const pieces = line.length > limit ? line.match(new RegExp(`[^]{1,${limit}}`, 'g')) ?? [] : [line];
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 1 > limit) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+
+  if (current.trim()) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// Posts each payload in order; a failure stops the rest so messages never arrive out of order
+export async function postPayloads(url: string, payloads: unknown[], service: string): Promise<void> {
+  for (const payload of payloads) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${service} webhook answered ${response.status}: ${errorText.substring(0, 200)}`);
+    }
+  }
+}
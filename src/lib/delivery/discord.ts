@@ -0,0 +1,24 @@
+import { chunkText, editedText, postPayloads, refuseInlineWebhook, validateWebhookUrl, WebhookTarget } from './chat';
+import { DeliveryChannel } from './types';
+
+// Discord caps message content at 2000 characters
+const MAX_CONTENT = 2000;
+
+export function buildDiscordPayloads(markdown: string): { content: string; allowed_mentions: { parse: string[] } }[] {
+  // Commit messages can contain @everyone; never let a changelog ping anyone
+  return chunkText(markdown, MAX_CONTENT).map(content => ({ content, allowed_mentions: { parse: [] } }));
+}
+
+// Discord renders markdown itself, so the markdown rendering is posted as is
+export const discordChannel: DeliveryChannel = {
+  type: 'discord',
+
+  validate: validateWebhookUrl,
+  validateInline: refuseInlineWebhook,
+
+  async deliver(target, changelog) {
+    const markdown = editedText(changelog) ?? changelog.renders.markdown;
+    await postPayloads((target as WebhookTarget).url, buildDiscordPayloads(markdown), 'Discord');
+    return {};
+  }
+};
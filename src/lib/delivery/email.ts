@@ -0,0 +1,166 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import addressparser from 'nodemailer/lib/addressparser';
+import { loadConfig } from '../config';
+import { loadPresets } from '../presets';
+import type { OutputFormat } from '../renderers';
+import { escapeHtml } from '../renderers/html';
+import { DeliverableChangelog, DeliveryChannel, DeliveryTarget } from './types';
+
+export interface EmailTarget extends DeliveryTarget {
+  type: 'email';
+  // Default to the preset's recipient
+  to?: string | string[];
+  cc?: string | string[];
+  // Defaults to SMTP_FROM
+  from?: string;
+  // Defaults to the preset's subject
+  subject?: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Formats whose edited content can be sent as the plain-text part
+const TEXT_FORMATS: OutputFormat[] = ['email', 'markdown', 'keep-a-changelog', 'github-release'];
+
+function isAddressList(value: unknown): boolean {
+  return value === undefined
+    || (typeof value === 'string' && value.trim() !== '')
+    || (Array.isArray(value) && value.every(address => typeof address === 'string' && address.trim() !== ''));
+}
+
+function toAddressList(value: string | string[] | undefined): string[] {
+  const addresses = Array.isArray(value) ? value : (value ?? '').split(',');
+  return addresses.map(address => address.trim()).filter(Boolean);
+}
+
+// "Team <team@example.com>" or "team@example.com" against the configured addresses
+// and domains. Read the way nodemailer will read it when sending, so separators
+// like ";" or a space can't smuggle in a second address; an entry must hold exactly one.
+function isAllowedRecipient(entry: string, allowed: string[]): boolean {
+  const parsed = addressparser(entry, { flatten: true });
+  if (parsed.length !== 1) {
+    return false;
+  }
+  const address = parsed[0].address.trim().toLowerCase();
+  return allowed.some(pattern => {
+    const normalized = pattern.trim().toLowerCase();
+    return normalized.startsWith('@') ? address.endsWith(normalized) : address === normalized;
+  });
+}
+
+// For text edited after rendering: a paragraph per blank-line block, line breaks kept
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => `<p>${escapeHtml(block).replace(/\n/g, '<br>\n')}</p>`)
+    .join('\n');
+}
+
+// Edits win over the renderings they started from; untouched changelogs go out
+// as the purpose-built email text and HTML
+function buildBody(changelog: DeliverableChangelog): { text: string; html: string } {
+  const { content, format, renders } = changelog;
+  if (content !== renders[format]) {
+    if (TEXT_FORMATS.includes(format)) {
+      return { text: content, html: textToHtml(content) };
+    }
+    if (format === 'html') {
+      return { text: renders.email, html: content };
+    }
+  }
+  return { text: renders.email, html: renders.html };
+}
+
+export function buildEmailMessage(target: EmailTarget, changelog: DeliverableChangelog): EmailMessage {
+  const presetEmail = loadPresets().find(preset => preset.name === changelog.preset)?.email;
+  const from = target.from ?? process.env.SMTP_FROM;
+  const to = toAddressList(target.to ?? presetEmail?.to);
+  if (!from) {
+    throw new Error('No sender address. Set SMTP_FROM or give the destination a "from"');
+  }
+  if (to.length === 0) {
+    throw new Error(`No recipient. Give the destination a "to", or set one on the "${changelog.preset}" preset`);
+  }
+
+  return {
+    from,
+    to,
+    cc: toAddressList(target.cc),
+    subject: target.subject?.trim() || presetEmail?.subject || `Changes in ${changelog.repo}`,
+    ...buildBody(changelog)
+  };
+}
+
+let transporter: Transporter | null = null;
+
+// SMTP settings are secrets, so they come from the environment like API keys
+function getTransporter(): Transporter {
+  if (!transporter) {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error('SMTP is not configured. Set SMTP_HOST');
+    }
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    transporter = nodemailer.createTransport({
+      host,
+      port,
+      // Implicit TLS on 465; other ports upgrade with STARTTLS when the server offers it
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+  return transporter;
+}
+
+export const emailChannel: DeliveryChannel = {
+  type: 'email',
+
+  validate(target) {
+    const { to, cc, from, subject } = target as EmailTarget;
+    if (!isAddressList(to) || !isAddressList(cc)) {
+      return 'Email "to" and "cc" must be an address or a list of addresses';
+    }
+    if (from !== undefined && (typeof from !== 'string' || !from.trim())) {
+      return 'Email "from" must be an address';
+    }
+    if (subject !== undefined && typeof subject !== 'string') {
+      return 'Email "subject" must be a string';
+    }
+    return undefined;
+  },
+
+  // Otherwise anyone who can reach the server could send mail through its SMTP account
+  validateInline(target) {
+    const { to, cc, from } = target as EmailTarget;
+    if (from !== undefined) {
+      return 'Email "from" can only be set on a destination in the config';
+    }
+    const allowed = loadConfig().allowedRecipients ?? [];
+    const refused = [...toAddressList(to), ...toAddressList(cc)]
+      .filter(address => !isAllowedRecipient(address, allowed));
+    if (refused.length > 0) {
+      return `Not allowed to email ${refused.join(', ')}. Add the address or its domain to "allowedRecipients", or send to a destination named in the config`;
+    }
+    return undefined;
+  },
+
+  async deliver(target, changelog) {
+    const message = buildEmailMessage(target as EmailTarget, changelog);
+    const info = await getTransporter().sendMail({
+      ...message,
+      cc: message.cc.length > 0 ? message.cc : undefined
+    });
+    return { id: info.messageId };
+  }
+};
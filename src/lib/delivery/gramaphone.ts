@@ -0,0 +1,25 @@
+import { publishToGramaphone } from '../publications';
+import { editedText } from './chat';
+import { DeliveryChannel } from './types';
+
+// Publishes the markdown rendering, whatever the preset's own format, unless it was edited
+export const gramaphoneChannel: DeliveryChannel = {
+  type: 'gramaphone',
+
+  validate() {
+    return undefined;
+  },
+
+  async deliver(_target, changelog) {
+    const message = await publishToGramaphone({
+      repoUrl: changelog.repoUrl,
+      period: changelog.period,
+      content: editedText(changelog) ?? changelog.renders.markdown
+    }, changelog.historyId);
+    // Failed attempts stay in the outbox and are retried; the delivery still reports them
+    if (message.status !== 'delivered') {
+      throw new Error(`${message.lastError ?? 'Not published yet'} (attempt ${message.attempts}, ${message.status === 'pending' ? 'will retry' : 'gave up'})`);
+    }
+    return { id: message.result?.id as string | undefined };
+  }
+};
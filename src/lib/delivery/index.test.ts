@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GramphibianConfig } from '../config';
+import { deliver, DeliverableChangelog, redactDestination, validateTarget } from './index';
+
+const config = vi.hoisted(() => ({ current: {} as GramphibianConfig }));
+
+vi.mock('../config', async importOriginal => ({
+  ...await importOriginal<typeof import('../config')>(),
+  loadConfig: () => config.current,
+  getRepoConfig: (fullRepoName: string) => config.current.repos?.[fullRepoName] ?? {}
+}));
+
+describe('validateTarget', () => {
+  beforeEach(() => {
+    config.current = {
+      destinations: {
+        'eng-slack': { type: 'slack', url: 'https://hooks.slack.com/services/T0/B0/x' },
+        'release-list': { type: 'email', to: 'releases@lists.example.org', from: 'changelog@example.com' }
+      },
+      repos: {
+        'acme/widgets': { destinations: { 'widgets-discord': { type: 'discord', url: 'https://discord.com/api/webhooks/1/x' } } }
+      }
+    };
+  });
+
+  it('accepts destinations named in the config, a repo its own', () => {
+    expect(validateTarget('eng-slack')).toBeUndefined();
+    expect(validateTarget('release-list')).toBeUndefined();
+    expect(validateTarget('widgets-discord', 'acme/widgets')).toBeUndefined();
+    expect(validateTarget('widgets-discord', 'acme/gadgets')).toBe('No destination named "widgets-discord" is configured for acme/gadgets');
+  });
+
+  it('refuses chat webhooks given in full', () => {
+    for (const type of ['slack', 'discord', 'teams']) {
+      expect(validateTarget({ type, url: 'http://169.254.169.254/latest/meta-data' })).toMatch(/only be sent to by name/);
+    }
+  });
+
+  it('only emails recipients given in full when they are allowed', () => {
+    expect(validateTarget({ type: 'email', to: 'anyone@example.net' })).toMatch(/Not allowed to email anyone@example.net/);
+
+    config.current.allowedRecipients = ['@example.com', 'partner@example.org'];
+    expect(validateTarget({ type: 'email', to: ['dev@example.com', 'Partner <PARTNER@example.org>'] })).toBeUndefined();
+    expect(validateTarget({ type: 'email', to: 'dev@example.com', cc: 'x@evil.example.com.net' })).toMatch(/x@evil.example.com.net/);
+    expect(validateTarget({ type: 'email', to: 'dev@example.com', from: 'ceo@example.com' })).toMatch(/"from"/);
+  });
+
+  it('reads recipients the way they will be sent, one address to an entry', () => {
+    config.current.allowedRecipients = ['@example.com'];
+    expect(validateTarget({ type: 'email', to: 'a@evil.com; b@example.com' })).toMatch(/Not allowed to email a@evil.com; b@example.com/);
+    expect(validateTarget({ type: 'email', to: 'a@evil.com b@example.com' })).toMatch(/Not allowed to email a@evil.com b@example.com/);
+    expect(validateTarget({ type: 'email', to: ['Team: a@example.com, b@evil.com;'] })).toMatch(/Not allowed/);
+    expect(validateTarget({ type: 'email', to: ['"Dev Team" <dev@example.com>'] })).toBeUndefined();
+  });
+
+  it('lets email go to the preset recipients without an allowlist', () => {
+    expect(validateTarget({ type: 'email', subject: 'This week' })).toBeUndefined();
+  });
+});
+
+describe('deliver', () => {
+  it('refuses chat webhooks stored in full before they were refused on the way in', async () => {
+    const results = await deliver(
+      [{ type: 'slack', url: 'http://169.254.169.254/latest/meta-data' }],
+      { repo: 'acme/widgets' } as DeliverableChangelog
+    );
+
+    expect(results).toEqual([expect.objectContaining({ type: 'slack', ok: false, error: expect.stringMatching(/only be sent to by name/) })]);
+  });
+});
+
+describe('redactDestination', () => {
+  it('keeps names and only the type of targets given in full', () => {
+    expect(redactDestination('eng-slack')).toBe('eng-slack');
+    expect(redactDestination({ type: 'slack', url: 'https://hooks.slack.com/services/T0/B0/x' })).toEqual({ type: 'slack' });
+    expect(redactDestination({ type: 'email', to: 'dev@example.com' })).toEqual({ type: 'email' });
+  });
+});
@@ -0,0 +1,151 @@
+import { getRepoConfig, loadConfig } from '../config';
+import type { ChangelogResult } from '../github-diff-generator';
+import { getHistoryStore } from '../history/history-store';
+import logger from '../logger';
+import { discordChannel } from './discord';
+import { emailChannel } from './email';
+import { gramaphoneChannel } from './gramaphone';
+import { slackChannel } from './slack';
+import { teamsChannel } from './teams';
+import { DeliverableChangelog, DeliveryChannel, DeliveryResult, DeliveryTarget, Destination } from './types';
+
+export type { DeliverableChangelog, DeliveryChannel, DeliveryReceipt, DeliveryResult, DeliveryTarget, Destination } from './types';
+
+const channels = new Map<string, DeliveryChannel>();
+
+export function registerChannel(channel: DeliveryChannel): void {
+  channels.set(channel.type, channel);
+}
+
+export function listChannels(): string[] {
+  return Array.from(channels.keys());
+}
+
+// Named destinations from the config, the repo's own taking precedence over global ones
+export function getDestinations(repo?: string): Record<string, DeliveryTarget> {
+  return {
+    ...loadConfig().destinations,
+    ...(repo ? getRepoConfig(repo).destinations : undefined)
+  };
+}
+
+// The destinations a repo can use by name, without their options (which hold webhook URLs)
+export function listDestinations(repo?: string): { name: string; type: string }[] {
+  return Object.entries(getDestinations(repo)).map(([name, target]) => ({ name, type: target.type }));
+}
+
+// A destination as the API shows it: names as they are, targets given in full
+// without their options, the same as listDestinations
+export function redactDestination(destination: Destination): Destination {
+  return typeof destination === 'string' ? destination : { type: destination.type };
+}
+
+// Targets given in full are checked again on the way out, so ones stored before
+// their channel refused them (chat webhooks, say) fail instead of being sent to
+function resolveDestination(destination: Destination, repo: string): DeliveryTarget {
+  if (typeof destination !== 'string') {
+    const problem = channels.get(destination.type)?.validateInline?.(destination);
+    if (problem) {
+      throw new Error(problem);
+    }
+    return destination;
+  }
+  const target = getDestinations(repo)[destination];
+  if (!target) {
+    throw new Error(`No destination named "${destination}" is configured for ${repo}`);
+  }
+  return target;
+}
+
+function validateOptions(target: unknown): string | undefined {
+  if (!target || typeof target !== 'object' || typeof (target as DeliveryTarget).type !== 'string') {
+    return 'Each destination needs a "type"';
+  }
+  const { type } = target as DeliveryTarget;
+  const channel = channels.get(type);
+  if (!channel) {
+    return `Unknown destination type "${type}". Available types: ${listChannels().join(', ')}`;
+  }
+  return channel.validate(target as DeliveryTarget);
+}
+
+// Problem with a destination from a request, or undefined when it can be
+// delivered to. Names are looked up among `repo`'s destinations; targets given
+// in full must also pass their channel's checks for inline targets.
+export function validateTarget(target: unknown, repo?: string): string | undefined {
+  if (typeof target === 'string') {
+    const named = getDestinations(repo)[target];
+    return named ? validateOptions(named) : `No destination named "${target}" is configured${repo ? ` for ${repo}` : ''}`;
+  }
+  const problem = validateOptions(target);
+  if (problem) {
+    return problem;
+  }
+  const inline = target as DeliveryTarget;
+  return channels.get(inline.type)?.validateInline?.(inline);
+}
+
+export function toDeliverable(result: ChangelogResult, repoUrl: string, historyId?: string): DeliverableChangelog {
+  return {
+    historyId,
+    repo: result.repo,
+    repoUrl,
+    period: {
+      start: result.period.start.toISOString(),
+      end: result.period.end.toISOString()
+    },
+    preset: result.preset,
+    format: result.format,
+    content: result.content,
+    renders: result.renders,
+    changelog: result.changelog
+  };
+}
+
+// Results of deliveries made from the history are kept with the changelog
+async function recordDeliveries(historyId: string, results: DeliveryResult[]): Promise<void> {
+  try {
+    await getHistoryStore()?.addDeliveries(historyId, results);
+  } catch (error) {
+    logger.warn('Failed to record deliveries', {
+      historyId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// Sends to every destination in turn; one failing destination doesn't stop the others
+export async function deliver(destinations: Destination[], changelog: DeliverableChangelog): Promise<DeliveryResult[]> {
+  const results: DeliveryResult[] = [];
+
+  for (const destination of destinations) {
+    const name = typeof destination === 'string' ? destination : undefined;
+    let type = typeof destination === 'string' ? 'unknown' : destination.type;
+    try {
+      const target = resolveDestination(destination, changelog.repo);
+      type = target.type;
+      const channel = channels.get(type);
+      if (!channel) {
+        throw new Error(`Unknown destination type "${type}"`);
+      }
+      const receipt = await channel.deliver(target, changelog);
+      results.push({ type, destination: name, ok: true, deliveredAt: new Date().toISOString(), receipt });
+      logger.info('Delivered changelog', { type, destination: name, repo: changelog.repo, receipt });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      results.push({ type, destination: name, ok: false, deliveredAt: new Date().toISOString(), error: message });
+      logger.error('Failed to deliver changelog', { type, destination: name, repo: changelog.repo, error: message });
+    }
+  }
+
+  if (changelog.historyId && results.length > 0) {
+    await recordDeliveries(changelog.historyId, results);
+  }
+  return results;
+}
+
+registerChannel(gramaphoneChannel);
+registerChannel(emailChannel);
+registerChannel(slackChannel);
+registerChannel(discordChannel);
+registerChannel(teamsChannel);
@@ -0,0 +1,52 @@
+import type { SlackBlock, SlackMessage } from '../renderers/slack';
+import { escapeMrkdwn } from '../renderers/slack';
+import { chunkText, editedText, postPayloads, refuseInlineWebhook, validateWebhookUrl, WebhookTarget } from './chat';
+import { DeliverableChangelog, DeliveryChannel } from './types';
+
+// Block Kit limits for one incoming-webhook message
+const MAX_BLOCKS = 50;
+const MAX_SECTION_TEXT = 3000;
+
+// Enough markdown to mrkdwn for edited changelogs: headings, bold and links
+export function markdownToMrkdwn(markdown: string): string {
+  return escapeMrkdwn(markdown)
+    .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<$2|$1>')
+    .replace(/^- /gm, '• ');
+}
+
+export function buildSlackPayloads(text: string): SlackMessage[] {
+  const blocks: SlackBlock[] = chunkText(markdownToMrkdwn(text), MAX_SECTION_TEXT)
+    .map(chunk => ({ type: 'section', text: { type: 'mrkdwn', text: chunk } }));
+  const fallback = (text.split('\n').find(line => line.trim()) ?? '').replace(/^#+\s*/, '');
+
+  const messages: SlackMessage[] = [];
+  for (let index = 0; index < blocks.length; index += MAX_BLOCKS) {
+    messages.push({ text: escapeMrkdwn(fallback), blocks: blocks.slice(index, index + MAX_BLOCKS) });
+  }
+  return messages;
+}
+
+// The Block Kit rendering already fits one message; edited text is converted and split
+function toSlackPayloads(changelog: DeliverableChangelog): SlackMessage[] {
+  const edited = editedText(changelog);
+  if (edited !== undefined) {
+    return buildSlackPayloads(edited);
+  }
+  // Block Kit JSON edited by hand goes out as written
+  return [JSON.parse(changelog.format === 'slack' ? changelog.content : changelog.renders.slack) as SlackMessage];
+}
+
+export const slackChannel: DeliveryChannel = {
+  type: 'slack',
+
+  validate: validateWebhookUrl,
+  validateInline: refuseInlineWebhook,
+
+  async deliver(target, changelog) {
+    const payloads = toSlackPayloads(changelog);
+    await postPayloads((target as WebhookTarget).url, payloads, 'Slack');
+    return {};
+  }
+};
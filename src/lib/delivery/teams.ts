@@ -0,0 +1,41 @@
+import { chunkText, editedText, postPayloads, refuseInlineWebhook, validateWebhookUrl, WebhookTarget } from './chat';
+import { DeliveryChannel } from './types';
+
+// Teams rejects webhook payloads over 28 KB; leave room for the card around the text
+const MAX_CARD_TEXT = 20000;
+
+// Adaptive Card TextBlocks have no headings, so they become bold lines
+function toCardMarkdown(markdown: string): string {
+  return markdown.replace(/^#{1,6}\s+(.+)$/gm, '**$1**');
+}
+
+export function buildTeamsPayloads(markdown: string, title: string) {
+  return chunkText(toCardMarkdown(markdown), MAX_CARD_TEXT).map((text, index) => ({
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          ...(index === 0 ? [{ type: 'TextBlock', text: title, weight: 'Bolder', size: 'Medium', wrap: true }] : []),
+          { type: 'TextBlock', text, wrap: true }
+        ]
+      }
+    }]
+  }));
+}
+
+export const teamsChannel: DeliveryChannel = {
+  type: 'teams',
+
+  validate: validateWebhookUrl,
+  validateInline: refuseInlineWebhook,
+
+  async deliver(target, changelog) {
+    const markdown = editedText(changelog) ?? changelog.renders.markdown;
+    await postPayloads((target as WebhookTarget).url, buildTeamsPayloads(markdown, `Changes in ${changelog.repo}`), 'Teams');
+    return {};
+  }
+};
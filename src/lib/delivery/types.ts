@@ -0,0 +1,56 @@
+import type { Changelog } from '../changelog';
+import type { OutputFormat } from '../renderers';
+
+// A finished changelog on its way out, from a fresh generation or the history
+export interface DeliverableChangelog {
+  historyId?: string;
+  // "owner/repo"
+  repo: string;
+  repoUrl: string;
+  period: {
+    start: string;
+    end: string;
+  };
+  preset: string;
+  format: OutputFormat;
+  // `changelog` in `format`, as the user last saw it
+  content: string;
+  renders: Record<OutputFormat, string>;
+  changelog: Changelog;
+}
+
+// Where to send a changelog. Options beyond `type` belong to the channel,
+// which checks them with `validate` before anything is sent.
+export interface DeliveryTarget {
+  type: string;
+  [option: string]: unknown;
+}
+
+// A target, or the name of one configured under `destinations` in the config
+export type Destination = DeliveryTarget | string;
+
+// What the destination answered with
+export interface DeliveryReceipt {
+  // Identifier of what was created on the other side, e.g. a Gramaphone entry
+  id?: string;
+}
+
+export interface DeliveryResult {
+  type: string;
+  // Set when delivered to a named destination
+  destination?: string;
+  ok: boolean;
+  deliveredAt: string;
+  receipt?: DeliveryReceipt;
+  error?: string;
+}
+
+export interface DeliveryChannel {
+  type: string;
+  // Problem with the target's options, or undefined when it can be used
+  validate(target: DeliveryTarget): string | undefined;
+  // Further checks on a target given in a request rather than configured by
+  // name, as requests aren't authenticated. Accepted when left out.
+  validateInline?(target: DeliveryTarget): string | undefined;
+  deliver(target: DeliveryTarget, changelog: DeliverableChangelog): Promise<DeliveryReceipt>;
+}
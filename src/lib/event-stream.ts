@@ -0,0 +1,48 @@
+// Server-Sent Events framing, written by the streaming routes and read back in
+// the browser. EventSource only speaks GET, so the client reads a fetch body.
+
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseEvent(block: string): StreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.substring(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.substring(5).trimStart());
+    }
+  });
+
+  return data.length > 0 ? { event, data: JSON.parse(data.join('\n')) } : null;
+}
+
+export async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: StreamEvent) => void): Promise<void> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += value;
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(block => {
+      const parsed = parseEvent(block);
+      if (parsed) {
+        onEvent(parsed);
+      }
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getDataDir } from './config';
+import logger from './logger';
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  createdAt: string;
+}
+
+export function hashKey(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// One JSON file per entry under <data dir>/cache/<namespace>
+export class FileCache<T> {
+  private directory: string;
+
+  constructor(namespace: string) {
+    this.directory = path.join(getDataDir(), 'cache', namespace);
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${hashKey(key)}.json`);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    try {
+      const raw = await fs.readFile(this.entryPath(key), 'utf8');
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      // Guard against hash collisions and hand-edited files
+      return entry.key === key ? entry.value : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const entry: CacheEntry<T> = { key, value, createdAt: new Date().toISOString() };
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.entryPath(key), JSON.stringify(entry));
+    } catch (error) {
+      // A cache write failing should never fail the generation
+      logger.warn('Failed to write cache entry', {
+        directory: this.directory,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
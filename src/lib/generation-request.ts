@@ -0,0 +1,112 @@
+import { ChangelogMode, SummarizationStrategy } from './config';
+import type { GenerateOptions } from './github-diff-generator';
+import { COMMIT_FETCH_STRATEGIES, CommitFetchStrategy } from './github/commit-fetchers';
+import { ChangelogRange } from './github/refs';
+import { listPresets } from './presets';
+import { listProviders } from './providers';
+import { OUTPUT_FORMATS, OutputFormat } from './renderers';
+
+const SUMMARIZATION_STRATEGIES: SummarizationStrategy[] = ['map-reduce', 'truncate'];
+const CHANGELOG_MODES: ChangelogMode[] = ['commits', 'pull-requests'];
+
+export interface GenerationRequest {
+  repoUrl: string;
+  range: ChangelogRange;
+  options: GenerateOptions;
+}
+
+export type ParsedGenerationRequest =
+  | { ok: true; request: GenerationRequest }
+  | { ok: false; message: string };
+
+function parseRange(body: Record<string, unknown>): ChangelogRange | string {
+  const { startDate, endDate, baseRef, headRef, sinceLatestRelease, releaseTag } = body;
+
+  if (releaseTag !== undefined) {
+    if (typeof releaseTag !== 'string' || !releaseTag) {
+      return 'releaseTag must be a tag name';
+    }
+    return { type: 'release', tag: releaseTag };
+  }
+
+  if (sinceLatestRelease === true) {
+    return { type: 'latest-release', headRef: typeof headRef === 'string' && headRef ? headRef : undefined };
+  }
+
+  if (baseRef || headRef) {
+    if (typeof baseRef !== 'string' || typeof headRef !== 'string' || !baseRef || !headRef) {
+      return 'Both baseRef and headRef are required for a ref range';
+    }
+    return { type: 'refs', baseRef, headRef };
+  }
+
+  if (!startDate || !endDate) {
+    return 'Missing required fields: repoUrl, startDate, and endDate are required';
+  }
+
+  const start = new Date(startDate as string);
+  const end = new Date(endDate as string);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return 'startDate and endDate must be valid dates';
+  }
+  return { type: 'dates', startDate: start, endDate: end };
+}
+
+// Shared validation for every endpoint that kicks off a generation
+export function parseGenerationRequest(body: Record<string, unknown>): ParsedGenerationRequest {
+  const { repoUrl, branch, mode, provider, summarization, fetchStrategy, format, preset } = body;
+
+  if (!repoUrl || typeof repoUrl !== 'string') {
+    return { ok: false, message: 'Missing required field: repoUrl' };
+  }
+
+  const range = parseRange(body);
+  if (typeof range === 'string') {
+    return { ok: false, message: range };
+  }
+
+  if (branch !== undefined && (typeof branch !== 'string' || !branch.trim())) {
+    return { ok: false, message: 'branch must be a non-empty string' };
+  }
+
+  if (mode && !CHANGELOG_MODES.includes(mode as ChangelogMode)) {
+    return { ok: false, message: `Unknown mode "${mode}". Use one of: ${CHANGELOG_MODES.join(', ')}` };
+  }
+
+  if (provider && !listProviders().includes(provider as string)) {
+    return { ok: false, message: `Unknown provider "${provider}". Available providers: ${listProviders().join(', ')}` };
+  }
+
+  if (fetchStrategy && !COMMIT_FETCH_STRATEGIES.includes(fetchStrategy as CommitFetchStrategy)) {
+    return { ok: false, message: `Unknown fetchStrategy "${fetchStrategy}". Use one of: ${COMMIT_FETCH_STRATEGIES.join(', ')}` };
+  }
+
+  if (summarization && !SUMMARIZATION_STRATEGIES.includes(summarization as SummarizationStrategy)) {
+    return { ok: false, message: `Unknown summarization "${summarization}". Use one of: ${SUMMARIZATION_STRATEGIES.join(', ')}` };
+  }
+
+  if (preset && !listPresets().includes(preset as string)) {
+    return { ok: false, message: `Unknown preset "${preset}". Available presets: ${listPresets().join(', ')}` };
+  }
+
+  if (format && !OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    return { ok: false, message: `Unknown format "${format}". Use one of: ${OUTPUT_FORMATS.join(', ')}` };
+  }
+
+  return {
+    ok: true,
+    request: {
+      repoUrl,
+      range,
+      options: {
+        branch: branch as string | undefined,
+        mode: mode as ChangelogMode | undefined,
+        provider: provider as string | undefined,
+        summarization: summarization as SummarizationStrategy | undefined,
+        fetchStrategy: fetchStrategy as CommitFetchStrategy | undefined,
+        preset: preset as string | undefined,
+        format: format as OutputFormat | undefined
+      }
+    }
+  };
+}
@@ -0,0 +1,85 @@
+import { ChangelogValidationError } from './changelog';
+import type { ChangelogResult } from './github-diff-generator';
+import { GitHubRateLimitError } from './github/client';
+
+export interface GenerationErrorResponse {
+  status: number;
+  body: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+// Response body shared by the JSON and streaming generation endpoints. `historyId`
+// is set when the run was recorded, for saving edits back to the history.
+export function toGenerationResponse(result: ChangelogResult, repoUrl: string, historyId?: string) {
+  return {
+    historyId,
+    changelog: result.content,
+    format: result.format,
+    formats: result.renders,
+    structured: result.changelog,
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      repo: repoUrl,
+      period: {
+        start: result.period.start.toISOString(),
+        end: result.period.end.toISOString()
+      },
+      refs: result.refs,
+      branch: result.branch,
+      mode: result.mode,
+      preset: result.preset,
+      pullRequests: result.pullRequests,
+      provider: result.provider,
+      tokenBudget: result.budget,
+      githubRateLimits: result.rateLimits
+    }
+  };
+}
+
+export type GenerationResponse = ReturnType<typeof toGenerationResponse>;
+
+export function describeGenerationError(error: unknown): GenerationErrorResponse {
+  if (error instanceof GitHubRateLimitError) {
+    return {
+      status: 429,
+      body: {
+        message: error.message,
+        type: error.type,
+        resetAt: error.resetAt.toISOString(),
+        retryAfter: error.retryAfterSeconds
+      },
+      headers: { 'Retry-After': String(error.retryAfterSeconds) }
+    };
+  }
+
+  if (error instanceof ChangelogValidationError) {
+    return {
+      status: 502,
+      body: {
+        message: error.message,
+        type: error.type,
+        issues: error.issues
+      }
+    };
+  }
+
+  // Determine if it's a GitHub API error
+  if (error instanceof Error && error.message.includes('GitHub API')) {
+    return {
+      status: 400,
+      body: {
+        message: error.message,
+        type: 'github_api_error'
+      }
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      message: error instanceof Error ? error.message : 'Failed to generate changelog',
+      details: error instanceof Error ? error.stack : undefined,
+      type: 'general_error'
+    }
+  };
+}
@@ -1,6 +1,34 @@
-import axios from 'axios';
-import { format } from 'date-fns';
-import OpenAI from 'openai';
+import { Changelog, CHANGELOG_OUTPUT_FORMAT, ChangelogValidationError, parseChangelog } from './changelog';
+import { ChangelogMode, loadConfig, SummarizationStrategy } from './config';
+import type { ChangeEntry } from './conventional-commits';
+import { getGitHubClient, GitHubClient, RateLimitStatus } from './github/client';
+import { CommitCache } from './github/commit-cache';
+import { CommitFetchResult, CommitFetchStrategy, CommitSpan, createCommitFetcher } from './github/commit-fetchers';
+import { fetchMergedPullRequests, PullRequestSummary } from './github/pull-requests';
+import {
+  BranchSummary,
+  ChangelogRange,
+  getDefaultBranch,
+  getPreviousTag,
+  getReleaseByTag,
+  listBranches,
+  listReleases,
+  listTags,
+  ReleaseSummary,
+  resolveRefRange,
+  ResolvedRefs,
+  TagSummary,
+  updateReleaseBody
+} from './github/refs';
+import { CommitData } from './github/types';
+import { applyPreset, Preset, resolvePreset } from './presets';
+import type { ProgressListener } from './progress';
+import { buildChangelogPrompt, PromptMessages, withOutputSchema, withValidationFeedback } from './prompts';
+import { ChangelogProvider, CompletionRequest, resolveProvider } from './providers';
+import { OutputFormat, renderAllFormats } from './renderers';
+import { MapReduceSummarizer } from './summarizer';
+import { createTokenBudget, formatCommitHeader, selectDiffContent, selectPullRequestContent, TokenBudget } from './token-budget';
+import { countTokens, fitsInTokens } from './tokens';
 
 type LogMetadata = {
   [key: string]: string | number | boolean | null | undefined | Date | LogMetadata;
@@ -22,150 +50,201 @@ const logger = {
 };
 
 // Constants for GitHub API limits
-const MAX_PER_PAGE = 100;
 const MAX_TOTAL_COMMITS = 3000;
-
-// LLM Constants
-const MAX_TOKENS = 6000;
-const CHARS_PER_TOKEN = 4;
-const MAX_DIFF_LENGTH = MAX_TOKENS * CHARS_PER_TOKEN;
-
-interface CommitFile {
-  filename: string;
-  patch?: string;
-}
-
-interface CommitData {
-  stats: {
-    additions: number;
-    deletions: number;
-    total: number;
-  };
-  files: CommitFile[];
-  commit: {
-    message: string;
-    author: {
-      date: string;
-    };
-  };
-  sha: string;
-}
-
-interface SubmitMetadata {
-  repo: string;
-  period: {
-    start: string;
-    end: string;
-  };
-}
+const MAX_TOTAL_PULL_REQUESTS = 1000;
 
 interface DiffSummary {
   additions: number;
   deletions: number;
   netDiff: number;
   diffs: string[];
+  commits: CommitData[];
+  // Combined diff of the range, for fetch strategies without per-commit files
+  rangeDiff?: CommitData;
   totalCommits: number;
   hasMore: boolean;
   period: {
     start: Date;
     end: Date;
   };
+  // Set when the range was given as refs rather than dates
+  refs?: ResolvedRefs;
+  branch: string;
 }
 
-// type LLMProvider = 'none' | 'greptile' | 'openai';
+// Size of the commit range a changelog was written from
+export type DiffStats = Pick<DiffSummary, 'additions' | 'deletions' | 'netDiff' | 'totalCommits' | 'hasMore'>;
 
-export class GitHubDiffGenerator {
-  private githubToken: string;
-  private apiBaseUrl = 'https://api.github.com';
-  private openai: OpenAI | null = null;
-  private gramaphoneUrl: string;
-  private indexedRepos = [
-    'facebook/react',
-    'microsoft/vscode',
-    'rstudio/marimo'
-  ];
+interface PullRequestSummaryList {
+  pullRequests: PullRequestSummary[];
+  hasMore: boolean;
+  period: {
+    start: Date;
+    end: Date;
+  };
+  refs?: ResolvedRefs;
+  branch: string;
+}
 
-  constructor(githubToken: string) {
-    this.githubToken = githubToken;
-    this.gramaphoneUrl = process.env.GRAMAPHONE_URL || 'http://localhost:3000';
+// What the final prompt is built from, whichever mode produced it
+interface PreparedInput {
+  text: string;
+  originalLength: number;
+  period: {
+    start: Date;
+    end: Date;
+  };
+  refs?: ResolvedRefs;
+  branch: string;
+  pullRequests?: number;
+  changes: ChangeEntry[];
+  // Full commit SHAs, or "#123" references in pull-request mode
+  sources: string[];
+  // Commit mode only
+  stats?: DiffStats;
+  // Shown above the changelog, e.g. when the range was cut short
+  notes: string[];
+}
 
-    if (process.env.ENABLE_OPENAI === 'true') {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY
-      });
-    }
+interface ResolvedSpan {
+  span: CommitSpan;
+  refs?: ResolvedRefs;
+  branch: string;
+}
 
-    logger.info('GitHubDiffGenerator initialized', { 
-      tokenLength: githubToken.length
-    });
-  }
+export interface DiffOptions {
+  // Defaults to the repository's default branch
+  branch?: string;
+  // Defaults to the configured strategy, then per-commit REST
+  fetchStrategy?: CommitFetchStrategy;
+  // Fetch progress, and for generations the summarization stages and streamed reply
+  onProgress?: ProgressListener;
+}
 
-  private async selectLLMProvider(repoUrl: string): Promise<'openai' | 'greptile'> {
-    const { owner, repo } = this.parseGitHubUrl(repoUrl);
-    const fullRepoName = `${owner}/${repo}`;
-    
-    if (this.indexedRepos.includes(fullRepoName) && process.env.ENABLE_GREPTILE === 'true') {
-      logger.info('Using Greptile for indexed repository', { repo: fullRepoName });
-      return 'greptile';
-    }
-    
-    if (process.env.ENABLE_OPENAI === 'true') {
-      logger.info('Using OpenAI for unindexed repository', { repo: fullRepoName });
-      return 'openai';
-    }
+export interface RepoRefs {
+  defaultBranch: string;
+  branches: BranchSummary[];
+  tags: TagSummary[];
+  releases: ReleaseSummary[];
+}
+
+export interface GenerateOptions extends DiffOptions {
+  // Write from raw commits (default) or from merged pull requests
+  mode?: ChangelogMode;
+  // Name of a registered provider; falls back to per-repo config, then auto-selection
+  provider?: string;
+  // Defaults to the configured strategy, then map-reduce
+  summarization?: SummarizationStrategy;
+  // Name of a preset; defaults to the configured one, then the weekly status email
+  preset?: string;
+  // Rendering returned as `content`; defaults to the preset's format
+  format?: OutputFormat;
+  // Stops the run at its next progress point
+  signal?: AbortSignal;
+}
 
-    throw new Error('No LLM provider enabled. Set either ENABLE_GREPTILE=true or ENABLE_OPENAI=true');
+export interface ChangelogResult {
+  // "owner/repo"
+  repo: string;
+  // `changelog` rendered in the requested format
+  content: string;
+  format: OutputFormat;
+  renders: Record<OutputFormat, string>;
+  preset: string;
+  changelog: Changelog;
+  notes: string[];
+  provider: string;
+  budget: TokenBudget;
+  rateLimits: RateLimitStatus[];
+  period: {
+    start: Date;
+    end: Date;
+  };
+  refs?: ResolvedRefs;
+  branch: string;
+  mode: ChangelogMode;
+  // Number of merged pull requests used, in pull-request mode
+  pullRequests?: number;
+  // What the changelog was written from: commit SHAs, or "#123" pull request references
+  sources: string[];
+  // Additions, deletions and commit count, in commit mode
+  stats?: DiffStats;
+}
+
+// Ref ranges have no dates of their own; take them from what they contain
+function periodOf(span: CommitSpan, dates: string[]): { start: Date; end: Date } {
+  if (span.kind === 'dates') {
+    return { start: span.since, end: span.until };
   }
+  const times = dates.map(date => new Date(date).getTime()).filter(time => !isNaN(time));
+  return {
+    start: new Date(times.length > 0 ? Math.min(...times) : Date.now()),
+    end: new Date(times.length > 0 ? Math.max(...times) : Date.now())
+  };
+}
 
-  private async submitToGramaphone(changelog: string, metadata: SubmitMetadata): Promise<{ id: string }> {
-    const url = `${this.gramaphoneUrl}/api/changelogs`;
-    logger.info('Submitting to Gramaphone', {
-      url,
-      metadataPreview: {
-        repo: metadata.repo,
-        periodStart: metadata.period.start,
-        periodEnd: metadata.period.end
-      }
+// Providers without constrained output get the schema spelled out in the prompt
+function changelogPrompt(text: string, provider: ChangelogProvider, mode: ChangelogMode, preset: Preset): PromptMessages {
+  const messages = buildChangelogPrompt(text, preset, provider.capabilities.contextWindow, mode);
+  return provider.capabilities.structuredOutput ? messages : withOutputSchema(messages, CHANGELOG_OUTPUT_FORMAT);
+}
+
+// Validates the reply against the changelog schema, giving the model one more try with the errors
+async function requestChangelog(
+  provider: ChangelogProvider,
+  messages: PromptMessages,
+  request: Pick<CompletionRequest, 'repo' | 'changes'>,
+  onProgress?: ProgressListener
+): Promise<Changelog> {
+  const complete = (prompt: PromptMessages) => {
+    onProgress?.({ type: 'phase', phase: 'generating' });
+    return provider.complete({
+      ...prompt,
+      ...request,
+      responseFormat: CHANGELOG_OUTPUT_FORMAT,
+      onToken: onProgress && (text => onProgress({ type: 'token', text }))
     });
-  
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          repoUrl: metadata.repo,
-          content: changelog,
-          metadata: {
-            generatedAt: new Date().toISOString(),
-            period: metadata.period
-          }
-        })
-      });
-  
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to submit to Gramaphone: ${response.status} ${errorText}`);
-      }
-  
-      return await response.json() as { id: string };
-    } catch (error) {
-      logger.error('Gramaphone submit error', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        url
-      });
+  };
+
+  const reply = await complete(messages);
+  try {
+    return parseChangelog(reply);
+  } catch (error) {
+    if (!(error instanceof ChangelogValidationError)) {
       throw error;
     }
+    logger.warn('Malformed changelog response, retrying once', {
+      provider: provider.name,
+      issues: error.issues.slice(0, 5).join('; ')
+    });
+    return parseChangelog(await complete(withValidationFeedback(messages, error.issues)));
   }
+}
 
-  private getAxiosConfig() {
-    return {
-      headers: {
-        'Accept': 'application/vnd.github.v3+json',
-        'Authorization': `token ${this.githubToken}`,
-      },
-    };
+function describeRange(range: ChangelogRange): LogMetadata {
+  switch (range.type) {
+    case 'dates':
+      return { startDate: range.startDate.toISOString(), endDate: range.endDate.toISOString() };
+    case 'refs':
+      return { baseRef: range.baseRef, headRef: range.headRef };
+    case 'latest-release':
+      return { sinceLatestRelease: true, headRef: range.headRef };
+    case 'release':
+      return { releaseTag: range.tag };
+  }
+}
+
+export class GitHubDiffGenerator {
+  private githubToken: string;
+  private github: GitHubClient;
+
+  constructor(githubToken: string) {
+    this.githubToken = githubToken;
+    this.github = getGitHubClient(githubToken);
+
+    logger.info('GitHubDiffGenerator initialized', { 
+      tokenLength: githubToken.length
+    });
   }
 
   private parseGitHubUrl(repoUrl: string): { owner: string; repo: string } {
@@ -176,193 +255,131 @@ export class GitHubDiffGenerator {
     };
   }
 
-  private async getAllCommits(owner: string, repo: string, startDate: Date, endDate: Date): Promise<CommitData[]> {
-    let page = 1;
-    let allCommits: CommitData[] = [];
-    let hasMore = true;
-  
-    while (hasMore && allCommits.length < MAX_TOTAL_COMMITS) {
-      const response = await axios.get(`${this.apiBaseUrl}/repos/${owner}/${repo}/commits`, {
-        ...this.getAxiosConfig(),
-        params: {
-          since: format(startDate, "yyyy-MM-dd'T'HH:mm:ss'Z'"),
-          until: format(endDate, "yyyy-MM-dd'T'HH:mm:ss'Z'"),
-          per_page: MAX_PER_PAGE,
-          page: page
-        },
-      });
-  
-      const commitDetails = await Promise.all(
-        response.data.map((commit: { url: string }) => 
-          axios.get(commit.url, this.getAxiosConfig())
-            .then(res => res.data as CommitData)
-        )
-      );
-  
-      allCommits = [...allCommits, ...commitDetails];
-      const linkHeader = response.headers.link;
-      hasMore = linkHeader?.includes('rel="next"') ?? false;
-      page++;
-  
-      await new Promise(resolve => setTimeout(resolve, 100));
-      logger.info(`Fetched page ${page-1}, total commits: ${allCommits.length}`);
-    }
-  
-    return allCommits;
-  }
-
-  private truncateDiffs(diffs: string[]): string {
-    const fullText = diffs.join('\n\n');
-    
-    if (fullText.length <= MAX_DIFF_LENGTH) {
-      return fullText;
-    }
-
-    logger.info('Truncating diff text', {
-      originalLength: fullText.length,
-      maxLength: MAX_DIFF_LENGTH,
-      diffCount: diffs.length
-    });
-
-    const truncatedDiffs = diffs.map(diff => {
-      const sections = diff.split('\n');
-      const commitInfo = sections.slice(0, 3).join('\n');
-      const content = sections.slice(3).join('\n');
-      const truncatedContent = content.substring(0, 200);
-      return `${commitInfo}\n${truncatedContent}${content.length > 200 ? '\n... (truncated)' : ''}`;
+  private async getAllCommits(
+    owner: string,
+    repo: string,
+    span: CommitSpan,
+    strategy: CommitFetchStrategy,
+    onProgress?: ProgressListener
+  ): Promise<CommitFetchResult> {
+    const fetcher = createCommitFetcher(strategy, {
+      client: this.github,
+      concurrency: loadConfig().github?.concurrency,
+      cache: loadConfig().github?.cache === false ? undefined : new CommitCache(),
+      onProgress
     });
 
-    let result = truncatedDiffs.join('\n\n');
-    
-    if (result.length > MAX_DIFF_LENGTH) {
-      const maxDiffs = Math.floor(MAX_DIFF_LENGTH / 400);
-      result = truncatedDiffs.slice(0, maxDiffs).join('\n\n');
-      result += `\n\n... (${diffs.length - maxDiffs} more changes)`;
-    }
-
-    return result;
+    logger.info('Fetching commits', { owner, repo, strategy });
+    return fetcher.fetchCommits({ owner, repo, span, maxCommits: MAX_TOTAL_COMMITS });
   }
 
-  private async generateWithOpenAI(diffText: string): Promise<string> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not initialized');
-    }
+  private async resolveSpan(owner: string, repo: string, range: ChangelogRange, requestedBranch?: string): Promise<ResolvedSpan> {
+    // Never assume "main"; repos default to master, develop, trunk...
+    const branch = requestedBranch ?? await getDefaultBranch(this.github, owner, repo);
 
-    logger.info('Generating changelog with OpenAI');
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: "You are a developer writing a quick email response to your manager's question 'What did you get done this week?' Be concise and natural. Format as a brief email with a greeting to 'Boss', 3-5 key points, and a sign-off. Do not write a subject line. Do not use markdown headings."
-        },
-        {
-          role: "user",
-          content: `Based on these git changes, write a quick update email about what was accomplished:\n\n${diffText}`
-        }
-      ],
-      temperature: 0.7,
-    });
+    if (range.type === 'dates') {
+      return { span: { kind: 'dates', since: range.startDate, until: range.endDate, branch }, branch };
+    }
 
-    const changelog = completion.choices[0].message.content || 'No changelog generated';
-    return changelog;
+    const refs = await resolveRefRange(this.github, owner, repo, range, branch);
+    return { span: { kind: 'refs', base: refs.baseRef, head: refs.headRef }, refs, branch };
   }
 
-  private async generateWithGreptile(diffText: string, repoUrl: string): Promise<string> {
+  // Branches, tags and releases to offer as range endpoints
+  async getRepoRefs(repoUrl: string): Promise<RepoRefs> {
     const { owner, repo } = this.parseGitHubUrl(repoUrl);
-  
-    logger.info('Calling Greptile API', {
-      repo: `${owner}/${repo}`,
-      diffLength: diffText.length
-    });
-
-    try {
-      const greptileResponse = await fetch("https://api.greptile.com/v2/query", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${process.env.GREPTILE_API_KEY}`,
-          "X-Github-Token": this.githubToken,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          messages: [{
-            content: `Write a quick email response to 'What did you get done this week?' based on these git changes. Include a greeting, 3-5 key points, and a sign-off:\n\n${diffText}`,
-            role: "user"
-          }],
-          repositories: [{
-            remote: "github",
-            repository: `${owner}/${repo}`,
-            branch: "main"
-          }]
-        })
-      });
-
-      if (!greptileResponse.ok) {
-        const errorText = await greptileResponse.text();
-        throw new Error(`Greptile API request failed: ${greptileResponse.status} ${errorText}`);
-      }
-
-      const data = await greptileResponse.json();
-      
-      if (!data.message) {
-        throw new Error('No changelog content received from Greptile');
-      }
+    const [defaultBranch, branches, tags, releases] = await Promise.all([
+      getDefaultBranch(this.github, owner, repo),
+      listBranches(this.github, owner, repo),
+      listTags(this.github, owner, repo),
+      listReleases(this.github, owner, repo)
+    ]);
+    return { defaultBranch, branches, tags, releases: releases.filter(release => !release.draft) };
+  }
 
-      logger.info('Greptile response received', {
-        responseLength: data.message.length,
-        sourcesCount: data.sources?.length || 0
-      });
+  // The release or tag a new tag's notes start from
+  async getPreviousTag(repoUrl: string, tag: string): Promise<string | undefined> {
+    const { owner, repo } = this.parseGitHubUrl(repoUrl);
+    return getPreviousTag(this.github, owner, repo, tag);
+  }
 
-      return data.message;
-    } catch (error) {
-      logger.error('Greptile API error', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined
-      });
-      throw error;
+  // Replaces the description of the tag's release, returning its id; undefined
+  // when the tag has no release to write to
+  async setReleaseBody(repoUrl: string, tag: string, body: string, releaseId?: number): Promise<number | undefined> {
+    const { owner, repo } = this.parseGitHubUrl(repoUrl);
+    const id = releaseId ?? await getReleaseByTag(this.github, owner, repo, tag);
+    if (id !== undefined) {
+      await updateReleaseBody(this.github, owner, repo, id, body);
     }
+    return id;
   }
 
-  async getRepoDiff(repoUrl: string, startDate: Date, endDate: Date): Promise<DiffSummary> {
+  async getRepoDiff(repoUrl: string, range: ChangelogRange, options: DiffOptions = {}): Promise<DiffSummary> {
     logger.info('Getting repo diff', { 
       repoUrl, 
-      startDate: startDate.toISOString(), 
-      endDate: endDate.toISOString() 
+      branch: options.branch,
+      ...describeRange(range)
     });
 
     const { owner, repo } = this.parseGitHubUrl(repoUrl);
+    const strategy = options.fetchStrategy ?? loadConfig().github?.fetchStrategy ?? 'rest';
 
     try {
-      const commits = await this.getAllCommits(owner, repo, startDate, endDate);
+      options.onProgress?.({ type: 'phase', phase: 'fetching' });
+      const { span, refs, branch } = await this.resolveSpan(owner, repo, range, options.branch);
+      const { commits, aggregateFiles, aggregateRange } = await this.getAllCommits(owner, repo, span, strategy, options.onProgress);
+      const period = periodOf(span, commits.map(commit => commit.commit.author.date));
       
       const summary: DiffSummary = {
         additions: 0,
         deletions: 0,
         netDiff: 0,
         diffs: [],
+        commits,
         totalCommits: commits.length,
         hasMore: commits.length >= MAX_TOTAL_COMMITS,
-        period: {
-          start: startDate,
-          end: endDate
-        }
+        period,
+        refs,
+        branch
       };
 
       commits.forEach(commit => {
         summary.additions += commit.stats.additions;
         summary.deletions += commit.stats.deletions;
 
-        commit.files.forEach(file => {
+        const header = formatCommitHeader(commit);
+        const patchedFiles = commit.files.filter(file => file.patch);
+
+        // Keep the message even when the strategy fetched no patches for this commit
+        if (patchedFiles.length === 0) {
+          summary.diffs.push(header);
+        }
+
+        patchedFiles.forEach(file => {
+          summary.diffs.push(`${header}\nFile: ${file.filename}\n${file.patch}`);
+        });
+      });
+
+      if (aggregateFiles && aggregateRange && commits.length > 0) {
+        summary.rangeDiff = {
+          // Named after the range, so a cached summary of it is never taken for one of its commits'
+          sha: `${aggregateRange.base}...${aggregateRange.head}`,
+          stats: { additions: 0, deletions: 0, total: 0 },
+          files: aggregateFiles,
+          commit: {
+            message: `Combined diff of ${commits.length} commits`,
+            author: commits[0].commit.author
+          }
+        };
+
+        aggregateFiles.forEach(file => {
+          summary.additions += file.additions ?? 0;
+          summary.deletions += file.deletions ?? 0;
           if (file.patch) {
-            const commitDate = new Date(commit.commit.author.date);
-            summary.diffs.push(
-              `Commit: ${commit.sha.substring(0, 7)} - ${format(commitDate, 'yyyy-MM-dd HH:mm:ss')}\n` +
-              `Message: ${commit.commit.message}\n` +
-              `File: ${file.filename}\n${file.patch}`
-            );
+            summary.diffs.push(`Combined diff\nFile: ${file.filename}\n${file.patch}`);
           }
         });
-      });
+      }
 
       summary.netDiff = summary.additions - summary.deletions;
 
@@ -385,65 +402,193 @@ export class GitHubDiffGenerator {
     }
   }
 
-  async generateChangelog(repoUrl: string, startDate: Date, endDate: Date, shouldPublish: boolean = false): Promise<string> {
-    logger.info('Starting changelog generation', {
+  async getMergedPullRequests(repoUrl: string, range: ChangelogRange, options: DiffOptions = {}): Promise<PullRequestSummaryList> {
+    logger.info('Getting merged pull requests', {
       repoUrl,
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString()
+      branch: options.branch,
+      ...describeRange(range)
     });
 
-    try {
-      const diff = await this.getRepoDiff(repoUrl, startDate, endDate);
-      const truncatedDiffText = this.truncateDiffs(diff.diffs);
-      
-      logger.debug('Processed diff text', {
-        originalLength: diff.diffs.join('\n\n').length,
-        truncatedLength: truncatedDiffText.length
-      });
+    const { owner, repo } = this.parseGitHubUrl(repoUrl);
+    options.onProgress?.({ type: 'phase', phase: 'fetching' });
+    const { span, refs, branch } = await this.resolveSpan(owner, repo, range, options.branch);
+    const { pullRequests, hasMore } = await fetchMergedPullRequests(
+      { client: this.github, onProgress: options.onProgress },
+      { owner, repo, span, maxPullRequests: MAX_TOTAL_PULL_REQUESTS }
+    );
+
+    return {
+      pullRequests,
+      hasMore,
+      period: periodOf(span, pullRequests.map(pr => pr.mergedAt)),
+      refs,
+      branch
+    };
+  }
 
-      let warningMessage = '';
-      if (diff.hasMore) {
-        warningMessage = `Note: This update only includes the first ${MAX_TOTAL_COMMITS} commits due to API limitations. There may be additional changes.\n\n`;
+  // Commit mode: patches, summarized or prioritized when they overflow the budget
+  private async prepareCommitInput(repoUrl: string, range: ChangelogRange, options: GenerateOptions, provider: ChangelogProvider, budget: TokenBudget): Promise<PreparedInput> {
+    const { tokenizer } = provider.capabilities;
+    const diff = await this.getRepoDiff(repoUrl, range, {
+      branch: options.branch,
+      fetchStrategy: options.fetchStrategy,
+      onProgress: options.onProgress
+    });
+    const { owner, repo } = this.parseGitHubUrl(repoUrl);
+    const repoRef = { owner, repo, branch: diff.branch };
+    const contentCommits = diff.rangeDiff ? [...diff.commits, diff.rangeDiff] : diff.commits;
+    const fullDiffText = diff.diffs.join('\n\n');
+    const strategy = options.summarization ?? loadConfig().summarization ?? 'map-reduce';
+
+    let diffText = fullDiffText;
+    if (!fitsInTokens(fullDiffText, budget.availableTokens, tokenizer)) {
+      if (strategy === 'map-reduce') {
+        diffText = await new MapReduceSummarizer({ provider, repo: repoRef, onProgress: options.onProgress })
+          .summarize(contentCommits, budget.availableTokens);
+        budget.strategy = 'map-reduce';
+      } else {
+        const selected = selectDiffContent(contentCommits, budget.availableTokens, tokenizer);
+        diffText = selected.text;
+        budget.strategy = 'prioritized';
+        budget.includedPatches = selected.includedPatches;
+        budget.totalPatches = selected.totalPatches;
       }
+    }
 
-      // Determine which LLM to use and generate changelog
-      const selectedProvider = await this.selectLLMProvider(repoUrl);
-      let changelogContent: string;
-      
-      switch (selectedProvider) {
-        case 'openai':
-          changelogContent = await this.generateWithOpenAI(truncatedDiffText);
-          break;
+    return {
+      text: diffText,
+      originalLength: fullDiffText.length,
+      period: diff.period,
+      refs: diff.refs,
+      branch: diff.branch,
+      changes: diff.commits.map(commit => ({
+        message: commit.commit.message,
+        reference: commit.sha.substring(0, 7),
+        author: commit.commit.author.name
+      })),
+      sources: diff.commits.map(commit => commit.sha),
+      stats: {
+        additions: diff.additions,
+        deletions: diff.deletions,
+        netDiff: diff.netDiff,
+        totalCommits: diff.totalCommits,
+        hasMore: diff.hasMore
+      },
+      notes: diff.hasMore
+        ? [`Note: This update only includes the first ${MAX_TOTAL_COMMITS} commits due to API limitations. There may be additional changes.`]
+        : []
+    };
+  }
 
-        case 'greptile':
-          changelogContent = await this.generateWithGreptile(truncatedDiffText, repoUrl);
-          break;
+  // Pull-request mode: titles, labels and descriptions instead of patches
+  private async preparePullRequestInput(repoUrl: string, range: ChangelogRange, options: GenerateOptions, provider: ChangelogProvider, budget: TokenBudget): Promise<PreparedInput> {
+    const list = await this.getMergedPullRequests(repoUrl, range, { branch: options.branch, onProgress: options.onProgress });
+    const selected = selectPullRequestContent(list.pullRequests, budget.availableTokens, provider.capabilities.tokenizer);
 
-        default:
-          throw new Error('No LLM provider configured');
-      }
+    if (selected.includedDescriptions < selected.totalDescriptions) {
+      budget.strategy = 'prioritized';
+    }
+    budget.includedDescriptions = selected.includedDescriptions;
+    budget.totalDescriptions = selected.totalDescriptions;
 
-      const finalChangelog = warningMessage + changelogContent;
-
-      // Submit to Gramaphone if requested
-      if (shouldPublish) {
-        try {
-          await this.submitToGramaphone(finalChangelog, {
-            repo: repoUrl,
-            period: {
-              start: startDate.toISOString(),
-              end: endDate.toISOString()
-            }
-          });
-        } catch (error) {
-          logger.warn('Failed to submit to Gramaphone', {
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          // Don't throw the error, just log it - we still want to return the changelog
-        }
+    return {
+      text: selected.text,
+      originalLength: selected.text.length,
+      period: list.period,
+      refs: list.refs,
+      branch: list.branch,
+      pullRequests: list.pullRequests.length,
+      changes: list.pullRequests.map(pr => ({
+        message: `${pr.title}\n\n${pr.body ?? ''}`,
+        reference: `#${pr.number}`,
+        author: pr.author
+      })),
+      sources: list.pullRequests.map(pr => `#${pr.number}`),
+      notes: list.hasMore
+        ? [`Note: This update only includes the first ${MAX_TOTAL_PULL_REQUESTS} pull requests due to API limitations. There may be additional changes.`]
+        : []
+    };
+  }
+
+  async generateChangelog(repoUrl: string, range: ChangelogRange, options: GenerateOptions = {}): Promise<ChangelogResult> {
+    const { signal } = options;
+    const mode = options.mode ?? loadConfig().mode ?? 'commits';
+    // Cancellation piggybacks on progress reporting, which every long stage already does
+    const listener = options.onProgress;
+    const onProgress: ProgressListener | undefined = signal || listener
+      ? event => {
+        signal?.throwIfAborted();
+        listener?.(event);
       }
+      : undefined;
+    const runOptions = { ...options, onProgress };
+    const preset = resolvePreset(options.preset);
+    const format = options.format ?? preset.format;
+
+    logger.info('Starting changelog generation', {
+      repoUrl,
+      mode,
+      preset: preset.name,
+      ...describeRange(range)
+    });
+
+    try {
+      // Determine which LLM to use so the diff can be sized to its context window
+      const { owner, repo } = this.parseGitHubUrl(repoUrl);
+      const provider = resolveProvider({ owner, repo }, { githubToken: this.githubToken }, {
+        requested: options.provider
+      });
+      const { contextWindow, tokenizer } = provider.capabilities;
+      const budget = createTokenBudget(provider, changelogPrompt('', provider, mode, preset));
+
+      const input = mode === 'pull-requests'
+        ? await this.preparePullRequestInput(repoUrl, range, runOptions, provider, budget)
+        : await this.prepareCommitInput(repoUrl, range, runOptions, provider, budget);
+      budget.usedTokens = countTokens(input.text, tokenizer);
+      
+      logger.debug('Processed diff text', {
+        originalLength: input.originalLength,
+        processedLength: input.text.length,
+        provider: provider.name,
+        strategy: budget.strategy,
+        contextWindow,
+        availableTokens: budget.availableTokens,
+        usedTokens: budget.usedTokens
+      });
 
-      return finalChangelog;
+      const changelog = applyPreset(await requestChangelog(provider, changelogPrompt(input.text, provider, mode, preset), {
+        repo: { owner, repo, branch: input.branch },
+        changes: input.changes
+      }, onProgress), preset);
+      signal?.throwIfAborted();
+      const renders = renderAllFormats(changelog, {
+        owner,
+        repo,
+        notes: input.notes,
+        period: input.period,
+        refs: input.refs,
+        branch: input.branch
+      });
+
+      return {
+        repo: `${owner}/${repo}`,
+        content: renders[format],
+        format,
+        renders,
+        preset: preset.name,
+        changelog,
+        notes: input.notes,
+        provider: provider.name,
+        budget,
+        rateLimits: this.github.getRateLimits(),
+        period: input.period,
+        refs: input.refs,
+        branch: input.branch,
+        mode,
+        pullRequests: input.pullRequests,
+        sources: input.sources,
+        stats: input.stats
+      };
 
     } catch (error) {
       logger.error('Error in generateChangelog', {
@@ -453,4 +598,4 @@ export class GitHubDiffGenerator {
       throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GramphibianConfig } from '../config';
+import { getGitHubClient, GitHubClient } from './client';
+
+const config = vi.hoisted(() => ({ current: {} as GramphibianConfig }));
+
+vi.mock('../config', async importOriginal => ({
+  ...await importOriginal<typeof import('../config')>(),
+  loadConfig: () => config.current
+}));
+
+function serverError(request: AxiosRequestConfig): AxiosError {
+  const response = { status: 502, data: { message: 'Bad gateway' }, headers: {}, config: request } as AxiosResponse;
+  return new AxiosError('Request failed with status code 502', 'ERR_BAD_RESPONSE', undefined, undefined, response);
+}
+
+describe('GitHubClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Largest backoff, so the retry is still waiting when the other request runs
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('lets other requests run while a retry waits out its backoff', async () => {
+    let failures = 1;
+    const requested: string[] = [];
+    vi.spyOn(axios, 'request').mockImplementation(async (request: AxiosRequestConfig) => {
+      requested.push(request.url as string);
+      if (request.url?.endsWith('/flaky') && failures-- > 0) {
+        throw serverError(request);
+      }
+      return { status: 200, data: request.url, headers: {} };
+    });
+
+    const client = new GitHubClient({ token: 'token', maxConcurrency: 1 });
+    const flaky = client.get<string>('/flaky');
+    await vi.advanceTimersByTimeAsync(0);
+
+    const other = await client.get<string>('/other');
+    expect(other.data).toBe('https://api.github.com/other');
+    expect(requested).toEqual(['https://api.github.com/flaky', 'https://api.github.com/other']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await flaky).data).toBe('https://api.github.com/flaky');
+    expect(requested).toHaveLength(3);
+  });
+});
+
+describe('getGitHubClient', () => {
+  it('shares one client per token', () => {
+    config.current = { github: { concurrency: 2 } };
+    expect(getGitHubClient('first')).toBe(getGitHubClient('first'));
+    expect(getGitHubClient('second')).not.toBe(getGitHubClient('first'));
+  });
+});
@@ -0,0 +1,317 @@
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse, AxiosResponseHeaders, RawAxiosResponseHeaders } from 'axios';
+import { loadConfig } from '../config';
+import logger from '../logger';
+
+const DEFAULT_API_BASE_URL = 'https://api.github.com';
+const DEFAULT_MAX_CONCURRENCY = 8;
+const DEFAULT_MAX_RETRIES = 3;
+// Waiting longer than this for a limit to reset is worse than failing fast
+const DEFAULT_MAX_WAIT_MS = 60_000;
+// GitHub asks for at least a minute when a secondary limit comes without retry-after
+const SECONDARY_LIMIT_WAIT_MS = 60_000;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+export class GitHubApiError extends Error {
+  readonly type = 'github_api_error';
+
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+export class GitHubRateLimitError extends Error {
+  readonly type = 'github_rate_limited';
+
+  constructor(message: string, public readonly resetAt: Date) {
+    super(message);
+    this.name = 'GitHubRateLimitError';
+  }
+
+  get retryAfterSeconds(): number {
+    return Math.max(Math.ceil((this.resetAt.getTime() - Date.now()) / 1000), 1);
+  }
+}
+
+export interface RateLimitStatus {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
+}
+
+// A previously seen response, replayed when GitHub answers 304 Not Modified
+export interface ConditionalEntry<T> {
+  etag: string;
+  data: T;
+  link?: string;
+}
+
+export interface ConditionalResponse<T> {
+  data: T;
+  etag?: string;
+  link?: string;
+  notModified: boolean;
+}
+
+export interface GitHubClientOptions {
+  token: string;
+  apiBaseUrl?: string;
+  maxConcurrency?: number;
+  maxRetries?: number;
+  maxWaitMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// "Full jitter" exponential backoff, so parallel requests don't retry in lockstep
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+}
+
+/**
+ * Every GitHub request goes through here: it caps concurrent requests, tracks
+ * the rate-limit headers per resource (core, graphql, search), waits out short
+ * primary/secondary limits and retries transient failures with backoff.
+ */
+export class GitHubClient {
+  readonly apiBaseUrl: string;
+  private token: string;
+  private maxConcurrency: number;
+  private maxRetries: number;
+  private maxWaitMs: number;
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private rateLimits = new Map<string, RateLimitStatus>();
+
+  constructor(options: GitHubClientOptions) {
+    this.token = options.token;
+    this.apiBaseUrl = options.apiBaseUrl ?? DEFAULT_API_BASE_URL;
+    this.maxConcurrency = options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+  }
+
+  get<T>(pathOrUrl: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'GET', url: this.resolveUrl(pathOrUrl) });
+  }
+
+  post<T>(pathOrUrl: string, data: unknown, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'POST', url: this.resolveUrl(pathOrUrl), data });
+  }
+
+  patch<T>(pathOrUrl: string, data: unknown, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'PATCH', url: this.resolveUrl(pathOrUrl), data });
+  }
+
+  // 304 responses don't count against the rate limit, so revalidating is nearly free
+  async getConditional<T>(pathOrUrl: string, config: AxiosRequestConfig, cached?: ConditionalEntry<T>): Promise<ConditionalResponse<T>> {
+    const response = await this.get<T>(pathOrUrl, {
+      ...config,
+      headers: cached ? { ...config.headers, 'If-None-Match': cached.etag } : config.headers,
+      validateStatus: status => (status >= 200 && status < 300) || status === 304
+    });
+
+    if (response.status === 304 && cached) {
+      return { data: cached.data, etag: cached.etag, link: cached.link, notModified: true };
+    }
+
+    return {
+      data: response.data,
+      etag: response.headers.etag,
+      link: response.headers.link,
+      notModified: false
+    };
+  }
+
+  async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await this.post<{ data?: T; errors?: { type?: string; message: string }[] }>('/graphql', { query, variables });
+
+    if (response.data.errors?.length) {
+      if (response.data.errors.some(error => error.type === 'RATE_LIMITED')) {
+        throw new GitHubRateLimitError('GitHub GraphQL rate limit exceeded', this.resetTimeFor('graphql'));
+      }
+      throw new GitHubApiError(`GitHub API GraphQL error: ${response.data.errors.map(error => error.message).join('; ')}`);
+    }
+
+    return response.data.data as T;
+  }
+
+  // Latest known budget for every resource this client has touched
+  getRateLimits(): RateLimitStatus[] {
+    return Array.from(this.rateLimits.values());
+  }
+
+  private resolveUrl(pathOrUrl: string): string {
+    return pathOrUrl.startsWith('http') ? pathOrUrl : `${this.apiBaseUrl}${pathOrUrl}`;
+  }
+
+  private resourceFor(url: string): string {
+    return url.endsWith('/graphql') ? 'graphql' : url.includes('/search/') ? 'search' : 'core';
+  }
+
+  private resetTimeFor(resource: string): Date {
+    const status = this.rateLimits.get(resource);
+    return status ? new Date(status.resetAt) : new Date(Date.now() + this.maxWaitMs);
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private recordRateLimit(headers: RawAxiosResponseHeaders | AxiosResponseHeaders | undefined, url: string): void {
+    const remaining = headers?.['x-ratelimit-remaining'];
+    if (remaining === undefined) {
+      return;
+    }
+
+    const resource = String(headers?.['x-ratelimit-resource'] ?? this.resourceFor(url));
+    this.rateLimits.set(resource, {
+      resource,
+      limit: Number(headers?.['x-ratelimit-limit'] ?? 0),
+      remaining: Number(remaining),
+      used: Number(headers?.['x-ratelimit-used'] ?? 0),
+      resetAt: new Date(Number(headers?.['x-ratelimit-reset'] ?? 0) * 1000).toISOString()
+    });
+  }
+
+  // Sleeps through an exhausted budget if the reset is close, otherwise fails fast
+  private async waitForBudget(url: string): Promise<void> {
+    const status = this.rateLimits.get(this.resourceFor(url));
+    if (!status || status.remaining > 0) {
+      return;
+    }
+
+    const resetAt = new Date(status.resetAt);
+    const waitMs = resetAt.getTime() - Date.now();
+    if (waitMs <= 0) {
+      return;
+    }
+    if (waitMs > this.maxWaitMs) {
+      throw new GitHubRateLimitError(`GitHub API rate limit exhausted for ${status.resource} until ${resetAt.toISOString()}`, resetAt);
+    }
+
+    logger.warn('GitHub rate limit exhausted, waiting for reset', { resource: status.resource, waitMs });
+    await sleep(waitMs);
+  }
+
+  // How long to wait before retrying a rate-limited response, or null if it wasn't one
+  private rateLimitWait(error: AxiosError, url: string): number | null {
+    const status = error.response?.status;
+    if (status !== 403 && status !== 429) {
+      return null;
+    }
+
+    const headers = error.response?.headers;
+    const retryAfter = headers?.['retry-after'];
+    if (retryAfter !== undefined) {
+      return Number(retryAfter) * 1000;
+    }
+
+    if (headers?.['x-ratelimit-remaining'] === '0') {
+      return Math.max(this.resetTimeFor(this.resourceFor(url)).getTime() - Date.now(), 0);
+    }
+
+    // Secondary limits don't always send headers, only a message
+    const message = JSON.stringify(error.response?.data ?? '');
+    if (status === 429 || /secondary rate limit|abuse/i.test(message)) {
+      return SECONDARY_LIMIT_WAIT_MS;
+    }
+
+    return null;
+  }
+
+  // Holds a concurrency slot for the request itself only, so retries waiting out
+  // a backoff or a rate limit don't keep other requests from running
+  private async send<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    await this.acquire();
+    try {
+      return await axios.request<T>({
+        ...config,
+        headers: {
+          'Accept': 'application/vnd.github.v3+json',
+          'Authorization': `token ${this.token}`,
+          ...config.headers
+        }
+      });
+    } finally {
+      this.release();
+    }
+  }
+
+  private async request<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const url = config.url as string;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget(url);
+
+      try {
+        const response = await this.send<T>(config);
+        this.recordRateLimit(response.headers, url);
+        return response;
+      } catch (error) {
+        if (!axios.isAxiosError(error)) {
+          throw error;
+        }
+
+        this.recordRateLimit(error.response?.headers, url);
+        const status = error.response?.status;
+
+        const rateLimitWait = this.rateLimitWait(error, url);
+        if (rateLimitWait !== null) {
+          const resetAt = new Date(Date.now() + rateLimitWait);
+          if (rateLimitWait > this.maxWaitMs || attempt >= this.maxRetries) {
+            throw new GitHubRateLimitError(`GitHub API rate limited (${status}), retry after ${resetAt.toISOString()}`, resetAt);
+          }
+          const delay = rateLimitWait + backoffDelay(attempt);
+          logger.warn('GitHub rate limited, retrying', { url, status, attempt, delay });
+          await sleep(delay);
+          continue;
+        }
+
+        // Network failures and server errors are usually transient
+        const transient = !error.response || (status !== undefined && status >= 500);
+        if (transient && attempt < this.maxRetries) {
+          const delay = backoffDelay(attempt);
+          logger.warn('GitHub request failed, retrying', { url, status, attempt, delay });
+          await sleep(delay);
+          continue;
+        }
+
+        const detail = (error.response?.data as { message?: string } | undefined)?.message ?? error.message;
+        throw new GitHubApiError(`GitHub API request failed: ${status ?? 'network error'} ${detail}`, status);
+      }
+    }
+  }
+}
+
+const CLIENTS_KEY = Symbol.for('gramphibian.githubClients');
+
+// One client per token and server process, so every generation using a token
+// shares its concurrency cap and what is known about its rate limits
+export function getGitHubClient(token: string): GitHubClient {
+  const holder = globalThis as typeof globalThis & { [CLIENTS_KEY]?: Map<string, GitHubClient> };
+  holder[CLIENTS_KEY] ??= new Map();
+
+  let client = holder[CLIENTS_KEY].get(token);
+  if (!client) {
+    client = new GitHubClient({ token, maxConcurrency: loadConfig().github?.concurrency });
+    holder[CLIENTS_KEY].set(token, client);
+  }
+  return client;
+}
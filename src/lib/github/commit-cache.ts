@@ -0,0 +1,187 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getDataDir } from '../config';
+import { hashKey } from '../file-cache';
+import logger from '../logger';
+import { ConditionalEntry } from './client';
+import { CommitData } from './types';
+
+const SEGMENT_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/;
+
+interface StoredPage<T> extends ConditionalEntry<T> {
+  url: string;
+  storedAt: string;
+}
+
+export interface CacheRepoStats {
+  repo: string;
+  commits: number;
+  pages: number;
+  bytes: number;
+}
+
+export interface PurgeFilter {
+  owner?: string;
+  repo?: string;
+  sha?: string;
+}
+
+// Path segments come from user input, so refuse anything that could escape the cache root
+function assertSegment(value: string, label: string): string {
+  if (!SEGMENT_PATTERN.test(value) || value === '.' || value === '..') {
+    throw new Error(`Invalid ${label} "${value}"`);
+  }
+  return value;
+}
+
+function assertSha(sha: string): string {
+  if (!SHA_PATTERN.test(sha)) {
+    throw new Error(`Invalid commit SHA "${sha}"`);
+  }
+  return sha;
+}
+
+async function listDirectory(directory: string): Promise<string[]> {
+  try {
+    return await fs.readdir(directory);
+  } catch {
+    return [];
+  }
+}
+
+async function directorySize(directory: string): Promise<{ files: number; bytes: number }> {
+  const entries = await listDirectory(directory);
+  let bytes = 0;
+  for (const entry of entries) {
+    bytes += (await fs.stat(path.join(directory, entry))).size;
+  }
+  return { files: entries.length, bytes };
+}
+
+/**
+ * Commit contents never change once pushed, so details are stored for good
+ * under commits/<owner>/<repo>/<sha>.json. Commit list pages can change, so
+ * they are kept with their ETag under pages/<owner>/<repo>/ and revalidated.
+ */
+export class CommitCache {
+  private root: string;
+
+  constructor(root: string = path.join(getDataDir(), 'cache')) {
+    this.root = root;
+  }
+
+  private commitPath(owner: string, repo: string, sha: string): string {
+    return path.join(this.root, 'commits', assertSegment(owner, 'owner'), assertSegment(repo, 'repo'), `${assertSha(sha)}.json`);
+  }
+
+  private pagePath(owner: string, repo: string, url: string): string {
+    return path.join(this.root, 'pages', assertSegment(owner, 'owner'), assertSegment(repo, 'repo'), `${hashKey(url)}.json`);
+  }
+
+  private async readJson<T>(file: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeJson(file: string, value: unknown): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(value));
+    } catch (error) {
+      logger.warn('Failed to write commit cache entry', {
+        file,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  getCommit(owner: string, repo: string, sha: string): Promise<CommitData | undefined> {
+    return this.readJson<CommitData>(this.commitPath(owner, repo, sha));
+  }
+
+  setCommit(owner: string, repo: string, commit: CommitData): Promise<void> {
+    return this.writeJson(this.commitPath(owner, repo, commit.sha), commit);
+  }
+
+  async getPage<T>(owner: string, repo: string, url: string): Promise<ConditionalEntry<T> | undefined> {
+    const page = await this.readJson<StoredPage<T>>(this.pagePath(owner, repo, url));
+    return page?.url === url ? page : undefined;
+  }
+
+  setPage<T>(owner: string, repo: string, url: string, entry: ConditionalEntry<T>): Promise<void> {
+    const page: StoredPage<T> = { ...entry, url, storedAt: new Date().toISOString() };
+    return this.writeJson(this.pagePath(owner, repo, url), page);
+  }
+
+  async listRepos(): Promise<CacheRepoStats[]> {
+    const stats = new Map<string, CacheRepoStats>();
+
+    for (const kind of ['commits', 'pages'] as const) {
+      for (const owner of await listDirectory(path.join(this.root, kind))) {
+        for (const repo of await listDirectory(path.join(this.root, kind, owner))) {
+          const key = `${owner}/${repo}`;
+          const entry = stats.get(key) ?? { repo: key, commits: 0, pages: 0, bytes: 0 };
+          const size = await directorySize(path.join(this.root, kind, owner, repo));
+          entry[kind] += size.files;
+          entry.bytes += size.bytes;
+          stats.set(key, entry);
+        }
+      }
+    }
+
+    return Array.from(stats.values()).sort((a, b) => a.repo.localeCompare(b.repo));
+  }
+
+  async listCommits(owner: string, repo: string): Promise<string[]> {
+    const directory = path.join(this.root, 'commits', assertSegment(owner, 'owner'), assertSegment(repo, 'repo'));
+    return (await listDirectory(directory)).map(file => file.replace(/\.json$/, ''));
+  }
+
+  // Removes a single commit, one repository, one owner, or everything; returns entries removed
+  async purge(filter: PurgeFilter = {}): Promise<number> {
+    if (filter.sha) {
+      if (!filter.owner || !filter.repo) {
+        throw new Error('Purging a single commit requires owner and repo');
+      }
+      try {
+        await fs.unlink(this.commitPath(filter.owner, filter.repo, filter.sha));
+        return 1;
+      } catch {
+        return 0;
+      }
+    }
+
+    if (filter.repo && !filter.owner) {
+      throw new Error('Purging a repository requires its owner');
+    }
+
+    const scope = [
+      ...(filter.owner ? [assertSegment(filter.owner, 'owner')] : []),
+      ...(filter.repo ? [assertSegment(filter.repo, 'repo')] : [])
+    ];
+
+    let removed = 0;
+    for (const kind of ['commits', 'pages']) {
+      const directory = path.join(this.root, kind, ...scope);
+      removed += await this.countFiles(directory);
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+
+    logger.info('Purged commit cache', { ...filter, removed });
+    return removed;
+  }
+
+  private async countFiles(directory: string): Promise<number> {
+    let count = 0;
+    for (const entry of await listDirectory(directory)) {
+      const entryPath = path.join(directory, entry);
+      const stat = await fs.stat(entryPath);
+      count += stat.isDirectory() ? await this.countFiles(entryPath) : 1;
+    }
+    return count;
+  }
+}
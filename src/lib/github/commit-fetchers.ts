@@ -0,0 +1,326 @@
+import { format } from 'date-fns';
+import { mapWithConcurrency } from '../async-pool';
+import logger from '../logger';
+import type { ProgressListener } from '../progress';
+import { GitHubClient } from './client';
+import { CommitCache } from './commit-cache';
+import { CommitData, CommitFile } from './types';
+
+const MAX_PER_PAGE = 100;
+const DEFAULT_CONCURRENCY = 8;
+
+export const COMMIT_FETCH_STRATEGIES = ['rest', 'graphql', 'compare'] as const;
+export type CommitFetchStrategy = typeof COMMIT_FETCH_STRATEGIES[number];
+
+export interface GitHubRequestContext {
+  client: GitHubClient;
+  // When set, commit details are read from disk and list pages are revalidated by ETag
+  cache?: CommitCache;
+  // Upper bound on commit detail requests in flight at once
+  concurrency?: number;
+  onProgress?: ProgressListener;
+}
+
+// Branch names may contain slashes, which the compare endpoint expects unescaped
+function encodeRef(ref: string): string {
+  return ref.split('/').map(encodeURIComponent).join('/');
+}
+
+export type CommitSpan =
+  // Commits on `branch` (the default branch when omitted) within the window
+  | { kind: 'dates'; since: Date; until: Date; branch?: string }
+  // Commits reachable from head but not from base, as in `git log base..head`
+  | { kind: 'refs'; base: string; head: string };
+
+export interface CommitQuery {
+  owner: string;
+  repo: string;
+  span: CommitSpan;
+  maxCommits: number;
+}
+
+export interface CommitFetchResult {
+  commits: CommitData[];
+  // Whole-range diff when the strategy cannot attribute files to single commits
+  aggregateFiles?: CommitFile[];
+  // Commits the whole-range diff runs between, which pin down its content
+  aggregateRange?: { base: string; head: string };
+}
+
+export interface CommitFetcher {
+  fetchCommits(query: CommitQuery): Promise<CommitFetchResult>;
+}
+
+interface CommitListItem {
+  sha: string;
+  url: string;
+  commit: CommitData['commit'];
+  parents: { sha: string }[];
+}
+
+// Pages through the cheap commit list endpoint (one request per 100 commits)
+async function listCommitsByDate(context: GitHubRequestContext, query: CommitQuery, since: Date, until: Date, branch?: string): Promise<CommitListItem[]> {
+  let page = 1;
+  let allCommits: CommitListItem[] = [];
+  let hasMore = true;
+
+  while (hasMore && allCommits.length < query.maxCommits) {
+    const listPath = `/repos/${query.owner}/${query.repo}/commits`;
+    const params = {
+      ...(branch ? { sha: branch } : {}),
+      since: format(since, "yyyy-MM-dd'T'HH:mm:ss'Z'"),
+      until: format(until, "yyyy-MM-dd'T'HH:mm:ss'Z'"),
+      per_page: MAX_PER_PAGE,
+      page: page
+    };
+    const cacheKey = `${listPath}?${new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]))}`;
+    const cached = await context.cache?.getPage<CommitListItem[]>(query.owner, query.repo, cacheKey);
+
+    const response = await context.client.getConditional<CommitListItem[]>(listPath, { params }, cached);
+    if (context.cache && !response.notModified && response.etag) {
+      await context.cache.setPage(query.owner, query.repo, cacheKey, {
+        etag: response.etag,
+        data: response.data,
+        link: response.link
+      });
+    }
+
+    allCommits = [...allCommits, ...response.data];
+    const linkHeader = response.link;
+    hasMore = linkHeader?.includes('rel="next"') ?? false;
+    page++;
+
+    logger.info(`Listed page ${page - 1}, total commits: ${allCommits.length}`);
+    context.onProgress?.({ type: 'progress', phase: 'fetching', completed: allCommits.length, unit: 'commits' });
+  }
+
+  return allCommits.slice(0, query.maxCommits);
+}
+
+interface CompareResponse {
+  commits: CommitListItem[];
+  files?: CommitFile[];
+  merge_base_commit?: { sha: string };
+}
+
+// The compare API pages through every commit between two refs, oldest first
+async function listCommitsBetweenRefs(context: GitHubRequestContext, query: CommitQuery, base: string, head: string): Promise<CommitListItem[]> {
+  let page = 1;
+  let allCommits: CommitListItem[] = [];
+  let hasMore = true;
+
+  while (hasMore && allCommits.length < query.maxCommits) {
+    const response = await context.client.get<CompareResponse>(
+      `/repos/${query.owner}/${query.repo}/compare/${encodeRef(base)}...${encodeRef(head)}`,
+      { params: { per_page: MAX_PER_PAGE, page } }
+    );
+
+    allCommits = [...allCommits, ...response.data.commits];
+    hasMore = response.headers.link?.includes('rel="next"') ?? false;
+    page++;
+
+    logger.info(`Compared page ${page - 1}, total commits: ${allCommits.length}`);
+    context.onProgress?.({ type: 'progress', phase: 'fetching', completed: allCommits.length, unit: 'commits' });
+  }
+
+  // Match the newest-first order of the commit list endpoint
+  return allCommits.reverse().slice(0, query.maxCommits);
+}
+
+export function listCommits(context: GitHubRequestContext, query: CommitQuery): Promise<CommitListItem[]> {
+  return query.span.kind === 'dates'
+    ? listCommitsByDate(context, query, query.span.since, query.span.until, query.span.branch)
+    : listCommitsBetweenRefs(context, query, query.span.base, query.span.head);
+}
+
+// One detail request per commit, but never more than `concurrency` at a time
+export class RestCommitFetcher implements CommitFetcher {
+  constructor(private context: GitHubRequestContext) {}
+
+  async fetchCommits(query: CommitQuery): Promise<CommitFetchResult> {
+    return this.hydrate(query, await listCommits(this.context, query));
+  }
+
+  async hydrate(query: CommitQuery, listed: CommitListItem[]): Promise<CommitFetchResult> {
+    const { client, cache, onProgress } = this.context;
+    const concurrency = this.context.concurrency ?? DEFAULT_CONCURRENCY;
+    let cacheHits = 0;
+    let completed = 0;
+
+    onProgress?.({ type: 'phase', phase: 'hydrating' });
+    const commits = await mapWithConcurrency(listed, concurrency, async (item, index) => {
+      if ((index + 1) % MAX_PER_PAGE === 0) {
+        logger.info(`Hydrated ${index + 1}/${listed.length} commits`);
+      }
+
+      const cached = await cache?.getCommit(query.owner, query.repo, item.sha);
+      if (cached) {
+        cacheHits++;
+      }
+      const commit = cached ?? (await client.get<CommitData>(item.url)).data;
+      if (!cached) {
+        await cache?.setCommit(query.owner, query.repo, commit);
+      }
+
+      onProgress?.({ type: 'progress', phase: 'hydrating', completed: ++completed, total: listed.length, unit: 'commits' });
+      return commit;
+    });
+
+    logger.info('Hydrated commits', { total: listed.length, cacheHits });
+    return { commits };
+  }
+}
+
+interface HistoryNode {
+  oid: string;
+  message: string;
+  additions: number;
+  deletions: number;
+  authoredDate: string;
+  author: { name: string | null } | null;
+}
+
+interface HistoryResponse {
+  repository: {
+    ref: {
+      target: {
+        history: {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          nodes: HistoryNode[];
+        };
+      };
+    } | null;
+  } | null;
+}
+
+// `ref` is aliased so the same response shape serves a named branch or the default one
+function historyQuery(branch?: string): string {
+  return `
+    query($owner: String!, $repo: String!, $since: GitTimestamp!, $until: GitTimestamp!, $cursor: String${branch ? ', $branch: String!' : ''}) {
+      repository(owner: $owner, name: $repo) {
+        ref: ${branch ? 'ref(qualifiedName: $branch)' : 'defaultBranchRef'} {
+          target {
+            ... on Commit {
+              history(first: 100, since: $since, until: $until, after: $cursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes { oid message additions deletions authoredDate author { name } }
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+}
+
+// Messages and line stats for 100 commits per request; GraphQL exposes no patches
+export class GraphQLCommitFetcher implements CommitFetcher {
+  constructor(private context: GitHubRequestContext) {}
+
+  async fetchCommits(query: CommitQuery): Promise<CommitFetchResult> {
+    if (query.span.kind === 'refs') {
+      // History queries can't express "between two refs"; keep the messages from compare
+      const listed = await listCommitsBetweenRefs(this.context, query, query.span.base, query.span.head);
+      return {
+        commits: listed.map(item => ({
+          sha: item.sha,
+          stats: { additions: 0, deletions: 0, total: 0 },
+          files: [],
+          commit: item.commit
+        }))
+      };
+    }
+
+    const { since, until, branch } = query.span;
+    const commits: CommitData[] = [];
+    let cursor: string | null = null;
+    let hasMore = true;
+
+    while (hasMore && commits.length < query.maxCommits) {
+      const data: HistoryResponse = await this.context.client.graphql<HistoryResponse>(historyQuery(branch), {
+        owner: query.owner,
+        repo: query.repo,
+        since: since.toISOString(),
+        until: until.toISOString(),
+        cursor,
+        ...(branch ? { branch: `refs/heads/${branch}` } : {})
+      });
+
+      const history = data.repository?.ref?.target.history;
+      if (!history) {
+        break;
+      }
+
+      commits.push(...history.nodes.map(node => ({
+        sha: node.oid,
+        stats: {
+          additions: node.additions,
+          deletions: node.deletions,
+          total: node.additions + node.deletions
+        },
+        files: [],
+        commit: {
+          message: node.message,
+          author: { name: node.author?.name ?? undefined, date: node.authoredDate }
+        }
+      })));
+
+      hasMore = history.pageInfo.hasNextPage;
+      cursor = history.pageInfo.endCursor;
+      logger.info(`Fetched GraphQL history page, total commits: ${commits.length}`);
+      this.context.onProgress?.({ type: 'progress', phase: 'fetching', completed: commits.length, unit: 'commits' });
+    }
+
+    return { commits: commits.slice(0, query.maxCommits) };
+  }
+}
+
+// Lists the range, then pulls the whole diff in a single compare request
+export class CompareCommitFetcher implements CommitFetcher {
+  constructor(private context: GitHubRequestContext) {}
+
+  async fetchCommits(query: CommitQuery): Promise<CommitFetchResult> {
+    const listed = await listCommits(this.context, query);
+    if (listed.length === 0) {
+      return { commits: [] };
+    }
+
+    // The list is newest first; compare is exclusive of its base
+    const head = query.span.kind === 'refs' ? query.span.head : listed[0].sha;
+    const base = query.span.kind === 'refs' ? query.span.base : listed[listed.length - 1].parents[0]?.sha;
+    if (!base) {
+      logger.info('Range starts at the root commit, falling back to per-commit fetching');
+      return new RestCommitFetcher(this.context).hydrate(query, listed);
+    }
+
+    const response = await this.context.client.get<CompareResponse>(
+      `/repos/${query.owner}/${query.repo}/compare/${encodeRef(base)}...${encodeRef(head)}`
+    );
+    const files = response.data.files ?? [];
+
+    return {
+      commits: listed.map(item => ({
+        sha: item.sha,
+        // Per-commit stats are not part of the list response; totals come from aggregateFiles
+        stats: { additions: 0, deletions: 0, total: 0 },
+        files: [],
+        commit: item.commit
+      })),
+      aggregateFiles: files,
+      aggregateRange: { base: response.data.merge_base_commit?.sha ?? base, head: listed[0].sha }
+    };
+  }
+}
+
+export function createCommitFetcher(strategy: CommitFetchStrategy, context: GitHubRequestContext): CommitFetcher {
+  switch (strategy) {
+    case 'rest':
+      return new RestCommitFetcher(context);
+    case 'graphql':
+      return new GraphQLCommitFetcher(context);
+    case 'compare':
+      return new CompareCommitFetcher(context);
+    default:
+      throw new Error(`Unknown commit fetch strategy "${strategy}"`);
+  }
+}
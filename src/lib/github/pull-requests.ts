@@ -0,0 +1,205 @@
+import logger from '../logger';
+import { CommitSpan, GitHubRequestContext, listCommits } from './commit-fetchers';
+
+const SEARCH_PAGE_SIZE = 50;
+// GitHub search never returns more than this many results for one query
+const MAX_SEARCH_RESULTS = 1000;
+// Commits resolved to pull requests per GraphQL request
+const COMMIT_BATCH_SIZE = 50;
+const MAX_SCANNED_COMMITS = 3000;
+const SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+export interface PullRequestSummary {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  author: string | null;
+  labels: string[];
+  mergedAt: string;
+  // Issues this PR closes, from GitHub's "Fixes #123" linking
+  linkedIssues: number[];
+}
+
+export interface PullRequestQuery {
+  owner: string;
+  repo: string;
+  span: CommitSpan;
+  maxPullRequests: number;
+}
+
+export interface PullRequestFetchResult {
+  pullRequests: PullRequestSummary[];
+  hasMore: boolean;
+}
+
+interface PullRequestNode {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  merged: boolean;
+  mergedAt: string | null;
+  author: { login: string } | null;
+  labels: { nodes: { name: string }[] };
+  closingIssuesReferences: { nodes: { number: number }[] };
+}
+
+const PULL_REQUEST_FIELDS = `
+  fragment PullRequestFields on PullRequest {
+    number
+    title
+    body
+    url
+    merged
+    mergedAt
+    author { login }
+    labels(first: 20) { nodes { name } }
+    closingIssuesReferences(first: 10) { nodes { number } }
+  }
+`;
+
+const SEARCH_QUERY = `
+  query($search: String!, $cursor: String) {
+    search(query: $search, type: ISSUE, first: ${SEARCH_PAGE_SIZE}, after: $cursor) {
+      issueCount
+      pageInfo { hasNextPage endCursor }
+      nodes { ... on PullRequest { ...PullRequestFields } }
+    }
+  }
+  ${PULL_REQUEST_FIELDS}
+`;
+
+interface SearchResponse {
+  search: {
+    issueCount: number;
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: PullRequestNode[];
+  };
+}
+
+type AssociatedPullRequestsResponse = {
+  repository: Record<string, { associatedPullRequests: { nodes: PullRequestNode[] } } | null> | null;
+};
+
+function toSummary(node: PullRequestNode): PullRequestSummary {
+  return {
+    number: node.number,
+    title: node.title,
+    body: node.body,
+    url: node.url,
+    author: node.author?.login ?? null,
+    labels: node.labels.nodes.map(label => label.name),
+    mergedAt: node.mergedAt ?? '',
+    linkedIssues: node.closingIssuesReferences.nodes.map(issue => issue.number)
+  };
+}
+
+// Shape of GitHub's `merged:` qualifier: whole seconds, UTC
+function searchTimestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+// One search per 50 PRs: everything merged into `branch` inside the window
+async function searchMergedPullRequests(
+  context: GitHubRequestContext,
+  query: PullRequestQuery,
+  since: Date,
+  until: Date,
+  branch?: string
+): Promise<PullRequestFetchResult> {
+  const search = [
+    `repo:${query.owner}/${query.repo}`,
+    'is:pr',
+    'is:merged',
+    ...(branch ? [`base:"${branch}"`] : []),
+    `merged:${searchTimestamp(since)}..${searchTimestamp(until)}`
+  ].join(' ');
+  const limit = Math.min(query.maxPullRequests, MAX_SEARCH_RESULTS);
+
+  const pullRequests: PullRequestSummary[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+  let total = 0;
+
+  while (hasNextPage && pullRequests.length < limit) {
+    const data: SearchResponse = await context.client.graphql<SearchResponse>(SEARCH_QUERY, { search, cursor });
+    total = data.search.issueCount;
+    pullRequests.push(...data.search.nodes.map(toSummary));
+    hasNextPage = data.search.pageInfo.hasNextPage;
+    cursor = data.search.pageInfo.endCursor;
+
+    logger.info(`Searched merged pull requests, ${pullRequests.length}/${total}`);
+    context.onProgress?.({ type: 'progress', phase: 'fetching', completed: pullRequests.length, total: Math.min(total, limit), unit: 'pull requests' });
+  }
+
+  return {
+    pullRequests: pullRequests.slice(0, limit),
+    hasMore: total > limit
+  };
+}
+
+// Compare has no PR filter, so list the commits and ask which merged PR brought each one in
+async function pullRequestsBetweenRefs(context: GitHubRequestContext, query: PullRequestQuery): Promise<PullRequestFetchResult> {
+  const listed = await listCommits(context, { owner: query.owner, repo: query.repo, span: query.span, maxCommits: MAX_SCANNED_COMMITS });
+  const shas = listed.map(item => item.sha).filter(sha => SHA_PATTERN.test(sha));
+
+  const byNumber = new Map<number, PullRequestSummary>();
+  let scanned = 0;
+  for (let start = 0; start < shas.length && byNumber.size < query.maxPullRequests; start += COMMIT_BATCH_SIZE) {
+    const batch = shas.slice(start, start + COMMIT_BATCH_SIZE);
+    const fields = batch.map((sha, index) =>
+      `c${index}: object(oid: "${sha}") { ... on Commit { associatedPullRequests(first: 5) { nodes { ...PullRequestFields } } } }`
+    );
+    const data = await context.client.graphql<AssociatedPullRequestsResponse>(
+      `query($owner: String!, $repo: String!) { repository(owner: $owner, name: $repo) { ${fields.join('\n')} } } ${PULL_REQUEST_FIELDS}`,
+      { owner: query.owner, repo: query.repo }
+    );
+
+    Object.values(data.repository ?? {}).forEach(commit => {
+      commit?.associatedPullRequests.nodes
+        .filter(node => node.merged)
+        .forEach(node => byNumber.set(node.number, toSummary(node)));
+    });
+
+    scanned = Math.min(start + COMMIT_BATCH_SIZE, shas.length);
+    logger.info(`Resolved ${scanned}/${shas.length} commits to ${byNumber.size} pull requests`);
+    context.onProgress?.({
+      type: 'progress',
+      phase: 'fetching',
+      completed: scanned,
+      total: shas.length,
+      unit: 'commits resolved to pull requests'
+    });
+  }
+
+  const pullRequests = Array.from(byNumber.values());
+
+  return {
+    pullRequests: pullRequests.slice(0, query.maxPullRequests),
+    // Also when commits were left unresolved, or more were there than were listed
+    hasMore: pullRequests.length > query.maxPullRequests || scanned < shas.length || listed.length >= MAX_SCANNED_COMMITS
+  };
+}
+
+export async function fetchMergedPullRequests(context: GitHubRequestContext, query: PullRequestQuery): Promise<PullRequestFetchResult> {
+  const result = query.span.kind === 'dates'
+    ? await searchMergedPullRequests(context, query, query.span.since, query.span.until, query.span.branch)
+    : await pullRequestsBetweenRefs(context, query);
+  result.pullRequests.sort((a, b) => new Date(b.mergedAt).getTime() - new Date(a.mergedAt).getTime());
+
+  logger.info('Fetched merged pull requests', {
+    owner: query.owner,
+    repo: query.repo,
+    count: result.pullRequests.length,
+    hasMore: result.hasMore
+  });
+  return result;
+}
+
+// Bare "#123" references become links, so they survive rendering outside GitHub
+export function linkPullRequestReferences(text: string, owner: string, repo: string): string {
+  return text.replace(/(^|[^\[\w/&])#(\d+)\b(?!\]|\()/g, (_, prefix: string, number: string) =>
+    `${prefix}[#${number}](https://github.com/${owner}/${repo}/issues/${number})`
+  );
+}
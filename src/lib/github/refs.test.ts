@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { GitHubClient } from './client';
+import { getPreviousTag, listBranches, listTags } from './refs';
+
+interface FakeRelease {
+  tag_name: string;
+  draft?: boolean;
+}
+
+// Serves releases and tags (or branches) the way GitHub pages them, newest first
+function fakeClient(releases: FakeRelease[], tags: string[], perPage = 100) {
+  const requests: string[] = [];
+  const pageOf = <T>(items: T[], page: number) => ({
+    data: items.slice((page - 1) * perPage, page * perPage),
+    headers: page * perPage < items.length ? { link: `<next>; rel="next"` } : {}
+  });
+
+  const client = {
+    async get(path: string, config: { params: { page: number } }) {
+      requests.push(`${path}?page=${config.params.page}`);
+      if (path.endsWith('/releases')) {
+        return pageOf(releases.map((release, index) => ({
+          id: index + 1,
+          tag_name: release.tag_name,
+          name: null,
+          published_at: null,
+          draft: release.draft ?? false,
+          prerelease: false
+        })), config.params.page);
+      }
+      return pageOf(tags.map(name => ({ name, commit: { sha: `sha-${name}` } })), config.params.page);
+    }
+  };
+  return { client: client as unknown as GitHubClient, requests };
+}
+
+describe('listTags', () => {
+  it('follows every page', async () => {
+    const tags = Array.from({ length: 5 }, (_, index) => `v0.${5 - index}.0`);
+    const { client, requests } = fakeClient([], tags, 2);
+
+    expect((await listTags(client, 'acme', 'widgets')).map(tag => tag.name)).toEqual(tags);
+    expect(requests).toEqual([1, 2, 3].map(page => `/repos/acme/widgets/tags?page=${page}`));
+  });
+});
+
+describe('listBranches', () => {
+  it('follows every page', async () => {
+    const branches = Array.from({ length: 250 }, (_, index) => `feature-${index}`);
+    const { client, requests } = fakeClient([], branches);
+
+    expect((await listBranches(client, 'acme', 'widgets')).map(branch => branch.name)).toEqual(branches);
+    expect(requests).toEqual([1, 2, 3].map(page => `/repos/acme/widgets/branches?page=${page}`));
+  });
+});
+
+describe('getPreviousTag', () => {
+  it('returns the release before it, skipping drafts', async () => {
+    const { client } = fakeClient(
+      [{ tag_name: 'v3.0.0' }, { tag_name: 'v2.1.0', draft: true }, { tag_name: 'v2.0.0' }],
+      ['v3.0.0', 'v2.1.0', 'v2.0.0']
+    );
+    expect(await getPreviousTag(client, 'acme', 'widgets', 'v3.0.0')).toBe('v2.0.0');
+  });
+
+  it('finds releases past the first page', async () => {
+    const releases = Array.from({ length: 7 }, (_, index) => ({ tag_name: `v1.${7 - index}.0` }));
+    const { client } = fakeClient(releases, [], 3);
+    expect(await getPreviousTag(client, 'acme', 'widgets', 'v1.2.0')).toBe('v1.1.0');
+  });
+
+  it('falls back to the tags for a tag without a release', async () => {
+    const { client } = fakeClient([{ tag_name: 'v2.0.0' }], ['v2.2.0', 'v2.1.0', 'v2.0.0']);
+    expect(await getPreviousTag(client, 'acme', 'widgets', 'v2.2.0')).toBe('v2.1.0');
+  });
+
+  it('returns undefined for an unknown tag rather than the newest release', async () => {
+    const { client } = fakeClient([{ tag_name: 'v2.0.0' }], ['v2.0.0']);
+    expect(await getPreviousTag(client, 'acme', 'widgets', 'v9.9.9')).toBeUndefined();
+  });
+
+  it('returns undefined for the first tag', async () => {
+    const { client } = fakeClient([], ['v0.1.0']);
+    expect(await getPreviousTag(client, 'acme', 'widgets', 'v0.1.0')).toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+import { GitHubApiError, GitHubClient } from './client';
+
+const MAX_PER_PAGE = 100;
+
+export type ChangelogRange =
+  | { type: 'dates'; startDate: Date; endDate: Date }
+  | { type: 'refs'; baseRef: string; headRef: string }
+  // Everything after the newest release (or tag, if the repo has no releases)
+  | { type: 'latest-release'; headRef?: string }
+  // A tag's release notes: from the release or tag before it to the tag
+  | { type: 'release'; tag: string };
+
+export interface ResolvedRefs {
+  baseRef: string;
+  headRef: string;
+}
+
+export interface BranchSummary {
+  name: string;
+  sha: string;
+  protected: boolean;
+}
+
+export interface TagSummary {
+  name: string;
+  sha: string;
+}
+
+export interface ReleaseSummary {
+  id: number;
+  tagName: string;
+  name: string | null;
+  publishedAt: string | null;
+  draft: boolean;
+  prerelease: boolean;
+}
+
+interface RepoResponse {
+  default_branch: string;
+}
+
+interface BranchResponse {
+  name: string;
+  commit: { sha: string };
+  protected: boolean;
+}
+
+interface TagResponse {
+  name: string;
+  commit: { sha: string };
+}
+
+interface ReleaseResponse {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  published_at: string | null;
+  draft: boolean;
+  prerelease: boolean;
+}
+
+// Follows the Link header until GitHub stops offering a next page
+async function listAllPages<T>(client: GitHubClient, path: string): Promise<T[]> {
+  let items: T[] = [];
+  for (let page = 1; ; page++) {
+    const response = await client.get<T[]>(path, { params: { per_page: MAX_PER_PAGE, page } });
+    items = [...items, ...response.data];
+    if (!response.headers.link?.includes('rel="next"')) {
+      return items;
+    }
+  }
+}
+
+export async function getDefaultBranch(client: GitHubClient, owner: string, repo: string): Promise<string> {
+  const response = await client.get<RepoResponse>(`/repos/${owner}/${repo}`);
+  return response.data.default_branch;
+}
+
+export async function listBranches(client: GitHubClient, owner: string, repo: string): Promise<BranchSummary[]> {
+  const branches = await listAllPages<BranchResponse>(client, `/repos/${owner}/${repo}/branches`);
+  return branches.map(branch => ({ name: branch.name, sha: branch.commit.sha, protected: branch.protected }));
+}
+
+export async function listTags(client: GitHubClient, owner: string, repo: string): Promise<TagSummary[]> {
+  const tags = await listAllPages<TagResponse>(client, `/repos/${owner}/${repo}/tags`);
+  return tags.map(tag => ({ name: tag.name, sha: tag.commit.sha }));
+}
+
+export async function listReleases(client: GitHubClient, owner: string, repo: string): Promise<ReleaseSummary[]> {
+  const releases = await listAllPages<ReleaseResponse>(client, `/repos/${owner}/${repo}/releases`);
+  return releases.map(release => ({
+    id: release.id,
+    tagName: release.tag_name,
+    name: release.name,
+    publishedAt: release.published_at,
+    draft: release.draft,
+    prerelease: release.prerelease
+  }));
+}
+
+// The latest published release's tag, falling back to the most recent tag
+export async function getLatestReleaseTag(client: GitHubClient, owner: string, repo: string): Promise<string> {
+  try {
+    const response = await client.get<ReleaseResponse>(`/repos/${owner}/${repo}/releases/latest`);
+    return response.data.tag_name;
+  } catch (error) {
+    if (!(error instanceof GitHubApiError) || error.status !== 404) {
+      throw error;
+    }
+  }
+
+  const tags = await listTags(client, owner, repo);
+  if (tags.length === 0) {
+    throw new GitHubApiError(`GitHub API: ${owner}/${repo} has no releases or tags to start from`, 404);
+  }
+  return tags[0].name;
+}
+
+// The release or tag before `tag`, to generate its notes from. Releases come
+// newest first, so the one after it in the list; a tag without a published
+// release is looked up among the tags, which GitHub lists newest version first.
+// Undefined for a repo's first tag, or a tag GitHub doesn't know about.
+export async function getPreviousTag(client: GitHubClient, owner: string, repo: string, tag: string): Promise<string | undefined> {
+  const releases = (await listReleases(client, owner, repo)).filter(release => !release.draft);
+  const releaseIndex = releases.findIndex(release => release.tagName === tag);
+  if (releaseIndex >= 0) {
+    return releases[releaseIndex + 1]?.tagName;
+  }
+
+  const tags = await listTags(client, owner, repo);
+  const tagIndex = tags.findIndex(candidate => candidate.name === tag);
+  return tagIndex >= 0 ? tags[tagIndex + 1]?.name : undefined;
+}
+
+// Undefined when the tag has no release, or only a draft one
+export async function getReleaseByTag(client: GitHubClient, owner: string, repo: string, tag: string): Promise<number | undefined> {
+  try {
+    const response = await client.get<ReleaseResponse>(`/repos/${owner}/${repo}/releases/tags/${encodeURIComponent(tag)}`);
+    return response.data.id;
+  } catch (error) {
+    if (error instanceof GitHubApiError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export async function updateReleaseBody(client: GitHubClient, owner: string, repo: string, releaseId: number, body: string): Promise<void> {
+  await client.patch(`/repos/${owner}/${repo}/releases/${releaseId}`, { body });
+}
+
+// Turns the symbolic forms of a ref range into the two refs GitHub's compare API takes;
+// a missing head means the tip of `branch`
+export async function resolveRefRange(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  range: Exclude<ChangelogRange, { type: 'dates' }>,
+  branch: string
+): Promise<ResolvedRefs> {
+  switch (range.type) {
+    case 'refs':
+      return { baseRef: range.baseRef, headRef: range.headRef };
+    case 'latest-release':
+      return {
+        baseRef: await getLatestReleaseTag(client, owner, repo),
+        headRef: range.headRef ?? branch
+      };
+    case 'release': {
+      const baseRef = await getPreviousTag(client, owner, repo, range.tag);
+      if (!baseRef) {
+        throw new GitHubApiError(`GitHub API: ${owner}/${repo} has no release or tag before ${range.tag} to start from`, 404);
+      }
+      return { baseRef, headRef: range.tag };
+    }
+  }
+}
@@ -0,0 +1,23 @@
+export interface CommitFile {
+  filename: string;
+  patch?: string;
+  additions?: number;
+  deletions?: number;
+}
+
+export interface CommitData {
+  stats: {
+    additions: number;
+    deletions: number;
+    total: number;
+  };
+  files: CommitFile[];
+  commit: {
+    message: string;
+    author: {
+      name?: string;
+      date: string;
+    };
+  };
+  sha: string;
+}
@@ -0,0 +1,77 @@
+import { createHmac } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseGitHubEvent, verifyGitHubSignature } from './webhook';
+
+const FIXTURES = path.resolve(__dirname, '../../../scripts/fixtures/github');
+
+function fixture(name: string): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8'));
+}
+
+describe('parseGitHubEvent', () => {
+  it('asks for notes when a release is published', () => {
+    expect(parseGitHubEvent('release', fixture('release.published'))).toEqual({
+      type: 'release',
+      trigger: {
+        repo: 'octo-org/widgets',
+        repoUrl: 'https://github.com/octo-org/widgets',
+        tag: 'v1.4.0',
+        releaseId: 158406217,
+        event: 'release'
+      }
+    });
+  });
+
+  it('asks for notes up to the target commit when a draft release is created', () => {
+    expect(parseGitHubEvent('release', fixture('release.created'))).toEqual({
+      type: 'release',
+      trigger: {
+        repo: 'octo-org/widgets',
+        repoUrl: 'https://github.com/octo-org/widgets',
+        tag: 'v1.4.0',
+        releaseId: 158406217,
+        draft: true,
+        target: 'main',
+        event: 'release'
+      }
+    });
+  });
+
+  it('asks for notes when a tag is pushed', () => {
+    expect(parseGitHubEvent('push', fixture('push.tag'))).toEqual({
+      type: 'release',
+      trigger: { repo: 'octo-org/widgets', repoUrl: 'https://github.com/octo-org/widgets', tag: 'v1.4.0', event: 'push' }
+    });
+  });
+
+  it('answers pings', () => {
+    expect(parseGitHubEvent('ping', fixture('ping'))).toEqual({ type: 'ping' });
+  });
+
+  it('ignores branch pushes, tag deletions, other release actions and other events', () => {
+    expect(parseGitHubEvent('push', fixture('push.branch'))).toEqual({ type: 'ignored', reason: 'Push to a branch' });
+    expect(parseGitHubEvent('push', { ...fixture('push.tag'), created: false, deleted: true }))
+      .toEqual({ type: 'ignored', reason: 'Tag moved or deleted' });
+    expect(parseGitHubEvent('release', { ...fixture('release.published'), action: 'edited' }))
+      .toEqual({ type: 'ignored', reason: 'Release action "edited"' });
+    expect(parseGitHubEvent('issues', { action: 'opened' })).toEqual({ type: 'ignored', reason: 'Event "issues"' });
+  });
+});
+
+describe('verifyGitHubSignature', () => {
+  const body = JSON.stringify(fixture('ping'));
+  const signature = `sha256=${createHmac('sha256', 'secret').update(body).digest('hex')}`;
+
+  it('accepts the signature GitHub sends', () => {
+    expect(verifyGitHubSignature(body, signature, 'secret')).toBe(true);
+  });
+
+  it('rejects other secrets, changed bodies and missing headers', () => {
+    expect(verifyGitHubSignature(body, signature, 'other')).toBe(false);
+    expect(verifyGitHubSignature(`${body} `, signature, 'secret')).toBe(false);
+    expect(verifyGitHubSignature(body, null, 'secret')).toBe(false);
+    expect(verifyGitHubSignature(body, signature.slice('sha256='.length), 'secret')).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { createHmac } from 'crypto';
+import { safeEqual } from '../signing';
+
+// Webhook deliveries from GitHub, which can ask for release notes for a new tag.
+// GitHub signs each delivery with the webhook's secret:
+//
+//   X-Hub-Signature-256: sha256=<hex HMAC-SHA256 of the raw body>
+
+export const GITHUB_SIGNATURE_HEADER = 'X-Hub-Signature-256';
+export const GITHUB_EVENT_HEADER = 'X-GitHub-Event';
+export const GITHUB_DELIVERY_HEADER = 'X-GitHub-Delivery';
+
+// Outbox kind for writing generated notes to a release; generating them is a job
+export const RELEASE_BODY_UPDATE = 'github.release-body';
+
+// A new tag that wants release notes, from either kind of event
+export interface ReleaseTrigger {
+  // "owner/repo"
+  repo: string;
+  repoUrl: string;
+  tag: string;
+  // Set for release events; tag pushes look the release up when writing back
+  releaseId?: number;
+  // A draft's tag usually doesn't exist yet, so its notes run from the latest
+  // release to the commit it targets instead
+  draft?: boolean;
+  target?: string;
+  event: 'release' | 'push';
+}
+
+export interface ReleaseBodyUpdate {
+  repoUrl: string;
+  tag: string;
+  releaseId?: number;
+  body: string;
+}
+
+export type GitHubEventOutcome =
+  | { type: 'ping' }
+  | { type: 'release'; trigger: ReleaseTrigger }
+  | { type: 'ignored'; reason: string };
+
+interface RepositoryPayload {
+  full_name?: string;
+}
+
+interface ReleaseEventPayload {
+  action?: string;
+  release?: { id?: number; tag_name?: string; draft?: boolean; target_commitish?: string };
+  repository?: RepositoryPayload;
+}
+
+interface PushEventPayload {
+  ref?: string;
+  created?: boolean;
+  deleted?: boolean;
+  repository?: RepositoryPayload;
+}
+
+export function verifyGitHubSignature(body: string, header: string | null | undefined, secret: string): boolean {
+  if (!header?.startsWith('sha256=')) {
+    return false;
+  }
+  const expected = createHmac('sha256', secret).update(body).digest('hex');
+  return safeEqual(header.slice('sha256='.length), expected);
+}
+
+function repoOf(payload: { repository?: RepositoryPayload }): string | undefined {
+  return payload.repository?.full_name;
+}
+
+// Which deliveries ask for release notes: a release being created (drafts
+// included, which are never published until someone does so by hand) or
+// published, and a new tag being pushed. Everything else is acknowledged and
+// ignored.
+export function parseGitHubEvent(event: string | null, payload: Record<string, unknown>): GitHubEventOutcome {
+  switch (event) {
+    case 'ping':
+      return { type: 'ping' };
+
+    case 'release': {
+      const { action, release, ...rest } = payload as ReleaseEventPayload;
+      const repo = repoOf(rest);
+      if (action !== 'created' && action !== 'published') {
+        return { type: 'ignored', reason: `Release action "${action}"` };
+      }
+      if (!repo || !release?.tag_name) {
+        return { type: 'ignored', reason: 'Release event without a repository or tag' };
+      }
+      const trigger: ReleaseTrigger = {
+        repo,
+        repoUrl: `https://github.com/${repo}`,
+        tag: release.tag_name,
+        releaseId: release.id,
+        event: 'release'
+      };
+      return {
+        type: 'release',
+        trigger: release.draft ? { ...trigger, draft: true, target: release.target_commitish } : trigger
+      };
+    }
+
+    case 'push': {
+      const { ref, created, deleted, ...rest } = payload as PushEventPayload;
+      const repo = repoOf(rest);
+      if (!ref?.startsWith('refs/tags/')) {
+        return { type: 'ignored', reason: 'Push to a branch' };
+      }
+      if (!created || deleted) {
+        return { type: 'ignored', reason: 'Tag moved or deleted' };
+      }
+      if (!repo) {
+        return { type: 'ignored', reason: 'Push event without a repository' };
+      }
+      return {
+        type: 'release',
+        trigger: { repo, repoUrl: `https://github.com/${repo}`, tag: ref.slice('refs/tags/'.length), event: 'push' }
+      };
+    }
+
+    default:
+      return { type: 'ignored', reason: `Event "${event}"` };
+  }
+}
@@ -0,0 +1,74 @@
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockGramaphone, MockGramaphone } from '../../scripts/mock-gramaphone';
+import { deleteGramaphoneEntry, getGramaphoneUrl, submitToGramaphone, updateGramaphoneEntry } from './gramaphone';
+
+const TOKEN = 'gramaphone-token';
+const SECRET = 'gramaphone-secret';
+const metadata = {
+  repo: 'https://github.com/acme/widgets',
+  period: { start: '2024-06-01T00:00:00.000Z', end: '2024-06-08T00:00:00.000Z' }
+};
+
+describe('Gramaphone client', () => {
+  let mock: MockGramaphone;
+
+  beforeEach(async () => {
+    // Requires the same token and signature as a production receiver
+    mock = createMockGramaphone({ token: TOKEN, secret: SECRET, log: () => {} });
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    const { port } = mock.server.address() as AddressInfo;
+    vi.stubEnv('GRAMAPHONE_URL', `http://127.0.0.1:${port}`);
+    vi.stubEnv('GRAMAPHONE_API_TOKEN', TOKEN);
+    vi.stubEnv('GRAMAPHONE_SIGNING_SECRET', SECRET);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => mock.server.close(resolve));
+  });
+
+  it('publishes a signed entry', async () => {
+    const entry = await submitToGramaphone('## Changes', metadata, 'key-1');
+
+    expect(mock.entries.get(entry.id)).toMatchObject({ repoUrl: metadata.repo, content: '## Changes' });
+  });
+
+  it('returns the first entry when a publish is retried with the same key', async () => {
+    const first = await submitToGramaphone('## Changes', metadata, 'key-1');
+    const retried = await submitToGramaphone('## Changes', metadata, 'key-1');
+
+    expect(retried.id).toBe(first.id);
+    expect(mock.entries.size).toBe(1);
+  });
+
+  it('replaces the content of a published entry', async () => {
+    const { id } = await submitToGramaphone('## Changes', metadata, 'key-1');
+    await updateGramaphoneEntry(id, '## Changes, edited', metadata, 'key-2');
+
+    expect(mock.entries.get(id)).toMatchObject({ content: '## Changes, edited' });
+    expect(mock.entries.get(id)?.updatedAt).toBeDefined();
+  });
+
+  it('unpublishes an entry, and treats one already gone as unpublished', async () => {
+    const { id } = await submitToGramaphone('## Changes', metadata, 'key-1');
+    await deleteGramaphoneEntry(id, 'key-3');
+    expect(mock.entries.has(id)).toBe(false);
+
+    await expect(deleteGramaphoneEntry(id, 'key-3')).resolves.toBeUndefined();
+  });
+
+  it('fails when the receiver rejects the signature, so the outbox retries', async () => {
+    vi.stubEnv('GRAMAPHONE_SIGNING_SECRET', 'rotated-away');
+    await expect(submitToGramaphone('## Changes', metadata)).rejects.toThrow(/401 .*Signature does not match/);
+
+    vi.stubEnv('GRAMAPHONE_SIGNING_SECRET', '');
+    await expect(submitToGramaphone('## Changes', metadata)).rejects.toThrow(/401 .*Missing X-Gramphibian-Signature header/);
+    expect(mock.entries.size).toBe(0);
+  });
+
+  it('defaults to the mock rather than the app port', () => {
+    vi.stubEnv('GRAMAPHONE_URL', '');
+    expect(getGramaphoneUrl()).toBe('http://localhost:3001');
+  });
+});
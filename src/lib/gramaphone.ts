@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import logger from './logger';
+import { SIGNATURE_HEADER, signRequest } from './signing';
+
+// Outbox kinds for publishing a changelog, and later changing or withdrawing it
+export const GRAMAPHONE_PUBLISH = 'gramaphone.publish';
+export const GRAMAPHONE_UPDATE = 'gramaphone.update';
+export const GRAMAPHONE_UNPUBLISH = 'gramaphone.unpublish';
+
+export interface GramaphoneSubmission {
+  // Repository URL
+  repo: string;
+  period: {
+    start: string;
+    end: string;
+  };
+}
+
+// What a publish carries through the outbox
+export interface GramaphonePublication {
+  repoUrl: string;
+  period: {
+    start: string;
+    end: string;
+  };
+  content: string;
+}
+
+// Changes to an entry created by a publish, which `publicationId` refers to
+export interface GramaphoneEntryUpdate extends GramaphonePublication {
+  publicationId: string;
+  entryId: string;
+}
+
+export interface GramaphoneEntryRemoval {
+  publicationId: string;
+  entryId: string;
+}
+
+export function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Same repo, range and content means the same publish, however often it's requested
+export function publicationKey({ repoUrl, period, content }: GramaphonePublication): string {
+  return `gramaphone:${sha256([repoUrl, period.start, period.end, sha256(content)].join('\n'))}`;
+}
+
+// Defaults to the mock's port, as the app itself runs on 3000
+export function getGramaphoneUrl(): string {
+  return process.env.GRAMAPHONE_URL || 'http://localhost:3001';
+}
+
+function entryUrl(entryId?: string): string {
+  const base = `${getGramaphoneUrl()}/api/changelogs`;
+  return entryId ? `${base}/${encodeURIComponent(entryId)}` : base;
+}
+
+function requestBody(changelog: string, metadata: GramaphoneSubmission): string {
+  return JSON.stringify({
+    repoUrl: metadata.repo,
+    content: changelog,
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      period: metadata.period
+    }
+  });
+}
+
+// Credentials come from the server's environment and never reach the browser.
+// Signed at send time, so every retry carries a fresh timestamp.
+function authHeaders(method: string, url: string, body?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const token = process.env.GRAMAPHONE_API_TOKEN;
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  const secret = process.env.GRAMAPHONE_SIGNING_SECRET;
+  if (secret) {
+    const { pathname, search } = new URL(url);
+    headers[SIGNATURE_HEADER] = signRequest({ method, path: `${pathname}${search}`, body: body ?? '' }, secret);
+  }
+  return headers;
+}
+
+// Sends one request, logging and rethrowing failures so the outbox can retry them
+async function send(method: string, url: string, action: string, body?: string, idempotencyKey?: string): Promise<Response> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        ...authHeaders(method, url, body)
+      },
+      body
+    });
+
+    // Deleting an entry that is already gone has the outcome we wanted
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      const errorText = await response.text();
+      throw new Error(`Failed to ${action}: ${response.status} ${errorText}`);
+    }
+    return response;
+  } catch (error) {
+    logger.error('Gramaphone request error', {
+      action,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      url
+    });
+    throw error;
+  }
+}
+
+// `idempotencyKey` lets Gramaphone recognize a retry of a publish it already has
+export async function submitToGramaphone(changelog: string, metadata: GramaphoneSubmission, idempotencyKey?: string): Promise<{ id: string }> {
+  const url = entryUrl();
+  logger.info('Submitting to Gramaphone', {
+    url,
+    repo: metadata.repo,
+    periodStart: metadata.period.start,
+    periodEnd: metadata.period.end,
+    idempotencyKey
+  });
+
+  const response = await send('POST', url, 'submit to Gramaphone', requestBody(changelog, metadata), idempotencyKey);
+  return await response.json() as { id: string };
+}
+
+// Replaces the content of an entry created by `submitToGramaphone`
+export async function updateGramaphoneEntry(entryId: string, changelog: string, metadata: GramaphoneSubmission, idempotencyKey?: string): Promise<void> {
+  const url = entryUrl(entryId);
+  logger.info('Updating Gramaphone entry', { url, entryId, idempotencyKey });
+  await send('PUT', url, 'update Gramaphone entry', requestBody(changelog, metadata), idempotencyKey);
+}
+
+export async function deleteGramaphoneEntry(entryId: string, idempotencyKey?: string): Promise<void> {
+  const url = entryUrl(entryId);
+  logger.info('Deleting Gramaphone entry', { url, entryId, idempotencyKey });
+  await send('DELETE', url, 'delete Gramaphone entry', undefined, idempotencyKey);
+}
@@ -0,0 +1,144 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Changelog } from '../changelog';
+import type { OutputFormat } from '../renderers';
+import { NewChangelogRecord, SqliteHistoryStore } from './history-store';
+
+const changelog: Changelog = {
+  summary: 'Faster widgets',
+  sections: [{
+    title: 'Performance',
+    entries: [{ summary: 'Widgets render faster', scope: null, breaking: false, commits: ['1a2b3c4'], pullRequests: [], authors: [] }]
+  }]
+};
+
+function newRecord(overrides: Partial<NewChangelogRecord> = {}): NewChangelogRecord {
+  return {
+    repo: 'acme/widgets',
+    repoUrl: 'https://github.com/acme/widgets',
+    range: { type: 'dates', startDate: '2024-06-01T00:00:00.000Z', endDate: '2024-06-08T00:00:00.000Z' },
+    period: { start: '2024-06-01T00:00:00.000Z', end: '2024-06-08T00:00:00.000Z' },
+    branch: 'main',
+    mode: 'commits',
+    provider: 'none',
+    preset: 'default',
+    format: 'markdown',
+    sources: ['1a2b3c4'],
+    changelog,
+    content: '## Performance\n- Widgets render faster',
+    renders: { markdown: '## Performance\n- Widgets render faster' } as Record<OutputFormat, string>,
+    ...overrides
+  };
+}
+
+describe('SqliteHistoryStore', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gramphibian-history-'));
+    vi.stubEnv('GRAMPHIBIAN_DATA_DIR', dataDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps records in the data directory and gets them back whole', async () => {
+    const store = new SqliteHistoryStore();
+    const added = await store.add(newRecord());
+
+    expect(fs.existsSync(path.join(dataDir, 'history.db'))).toBe(true);
+    expect(added).toMatchObject({ draft: false });
+    expect(await store.get(added.id)).toEqual(added);
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('lists summaries newest first, by repo when asked', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = new SqliteHistoryStore();
+    try {
+      vi.setSystemTime(new Date('2024-06-08T00:00:00.000Z'));
+      const first = await store.add(newRecord());
+      vi.setSystemTime(new Date('2024-06-09T00:00:00.000Z'));
+      const other = await store.add(newRecord({ repo: 'acme/gadgets', repoUrl: 'https://github.com/acme/gadgets' }));
+      vi.setSystemTime(new Date('2024-06-10T00:00:00.000Z'));
+      const latest = await store.add(newRecord());
+
+      expect((await store.list()).map(summary => summary.id)).toEqual([latest.id, other.id, first.id]);
+      expect((await store.list({ repo: 'acme/widgets', limit: 1 })).map(summary => summary.id)).toEqual([latest.id]);
+      expect((await store.list())[0]).toMatchObject({ summary: 'Faster widgets', sourceCount: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('saves edits and makes a draft a regular changelog', async () => {
+    const store = new SqliteHistoryStore();
+    const draft = await store.add(newRecord({ draft: true }));
+    expect(draft.draft).toBe(true);
+
+    const updated = await store.update(draft.id, '## Performance\n- Widgets render much faster');
+
+    expect(updated).toMatchObject({ content: '## Performance\n- Widgets render much faster', draft: false });
+    expect(await store.update('missing', 'content')).toBeUndefined();
+  });
+
+  it('records and forgets the Gramaphone entry', async () => {
+    const store = new SqliteHistoryStore();
+    const { id } = await store.add(newRecord());
+
+    await store.setPublishedEntry(id, { entryId: 'entry-1', publishedAt: '2024-06-08T00:00:00.000Z' });
+    expect((await store.get(id))?.gramaphone).toEqual({ entryId: 'entry-1', publishedAt: '2024-06-08T00:00:00.000Z' });
+
+    await store.setPublishedEntry(id, undefined);
+    expect((await store.get(id))?.gramaphone).toBeUndefined();
+  });
+
+  it('removes a changelog along with its deliveries', async () => {
+    const store = new SqliteHistoryStore();
+    const { id } = await store.add(newRecord());
+    const kept = await store.add(newRecord());
+    await store.addDeliveries(id, [
+      { type: 'slack', destination: 'eng-slack', ok: true, deliveredAt: '2024-06-08T00:00:00.000Z' },
+      { type: 'email', ok: false, deliveredAt: '2024-06-09T00:00:00.000Z', error: 'SMTP is not configured' }
+    ]);
+    await store.addDeliveries(kept.id, [{ type: 'slack', ok: true, deliveredAt: '2024-06-08T00:00:00.000Z' }]);
+
+    expect((await store.listDeliveries(id)).map(delivery => delivery.type)).toEqual(['email', 'slack']);
+
+    expect(await store.delete(id)).toBe(true);
+    expect(await store.get(id)).toBeUndefined();
+    expect(await store.listDeliveries(id)).toEqual([]);
+    expect(await store.listDeliveries(kept.id)).toHaveLength(1);
+    expect(await store.delete(id)).toBe(false);
+  });
+
+  it('adds columns missing from a database created before them', async () => {
+    const file = path.join(dataDir, 'history.db');
+    const legacy = new Database(file);
+    legacy.exec(`
+      CREATE TABLE changelogs (
+        id TEXT PRIMARY KEY, repo TEXT NOT NULL, repo_url TEXT NOT NULL, range TEXT NOT NULL,
+        period_start TEXT NOT NULL, period_end TEXT NOT NULL, refs TEXT, branch TEXT NOT NULL,
+        mode TEXT NOT NULL, provider TEXT NOT NULL, preset TEXT NOT NULL, format TEXT NOT NULL,
+        sources TEXT NOT NULL, changelog TEXT NOT NULL, content TEXT NOT NULL, renders TEXT NOT NULL,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+      );
+      INSERT INTO changelogs VALUES ('old', 'acme/widgets', 'https://github.com/acme/widgets',
+        '{"type":"dates","startDate":"2024-06-01T00:00:00.000Z","endDate":"2024-06-08T00:00:00.000Z"}',
+        '2024-06-01T00:00:00.000Z', '2024-06-08T00:00:00.000Z', NULL, 'main', 'commits', 'none', 'default',
+        'markdown', '[]', '{"summary":"Old","sections":[]}', 'Old', '{}', '2024-06-08T00:00:00.000Z', '2024-06-08T00:00:00.000Z');
+    `);
+    legacy.close();
+
+    const store = new SqliteHistoryStore(file);
+
+    expect(await store.get('old')).toMatchObject({ content: 'Old', draft: false, gramaphone: undefined });
+    const added = await store.add(newRecord({ draft: true }));
+    expect((await store.get(added.id))?.draft).toBe(true);
+  });
+});
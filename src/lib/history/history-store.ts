@@ -0,0 +1,362 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Changelog } from '../changelog';
+import { ChangelogMode, getDataDir, loadConfig } from '../config';
+import type { DeliveryReceipt, DeliveryResult } from '../delivery/types';
+import type { ResolvedRefs } from '../github/refs';
+import type { OutputFormat } from '../renderers';
+
+// The requested range, with dates as ISO strings
+export type StoredRange =
+  | { type: 'dates'; startDate: string; endDate: string }
+  | { type: 'refs'; baseRef: string; headRef: string }
+  | { type: 'latest-release'; headRef?: string }
+  | { type: 'release'; tag: string };
+
+// Where a changelog was published on Gramaphone
+export interface PublishedEntry {
+  entryId: string;
+  publishedAt: string;
+  // Last time the entry's content was replaced
+  updatedAt?: string;
+}
+
+export interface ChangelogRecord {
+  id: string;
+  // "owner/repo"
+  repo: string;
+  repoUrl: string;
+  range: StoredRange;
+  period: {
+    start: string;
+    end: string;
+  };
+  refs?: ResolvedRefs;
+  branch: string;
+  mode: ChangelogMode;
+  provider: string;
+  preset: string;
+  format: OutputFormat;
+  // Commit SHAs, or "#123" pull request references, the changelog was written from
+  sources: string[];
+  changelog: Changelog;
+  // `changelog` in `format`, including any edits made since
+  content: string;
+  renders: Record<OutputFormat, string>;
+  gramaphone?: PublishedEntry;
+  // Generated without anyone asking, e.g. for a new release; cleared once edits are saved
+  draft: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewChangelogRecord = Omit<ChangelogRecord, 'id' | 'gramaphone' | 'draft' | 'createdAt' | 'updatedAt'> & {
+  draft?: boolean;
+};
+
+// What the archive lists; the full record is fetched when one is opened
+export type ChangelogSummary = Omit<ChangelogRecord, 'sources' | 'changelog' | 'content' | 'renders'> & {
+  summary: string;
+  sourceCount: number;
+};
+
+// One attempt to send a changelog somewhere, kept so failed deliveries show up
+export interface DeliveryRecord extends DeliveryResult {
+  id: string;
+  changelogId: string;
+}
+
+export interface HistoryQuery {
+  repo?: string;
+  limit?: number;
+}
+
+export interface ChangelogHistoryStore {
+  add(record: NewChangelogRecord): Promise<ChangelogRecord>;
+  get(id: string): Promise<ChangelogRecord | undefined>;
+  // Newest first
+  list(query?: HistoryQuery): Promise<ChangelogSummary[]>;
+  // Replaces the edited content, which also makes a draft a regular changelog;
+  // undefined when the record doesn't exist
+  update(id: string, content: string): Promise<ChangelogRecord | undefined>;
+  // Also removes the changelog's deliveries
+  delete(id: string): Promise<boolean>;
+  // Records, or with undefined forgets, the Gramaphone entry the changelog was published as
+  setPublishedEntry(id: string, entry: PublishedEntry | undefined): Promise<void>;
+  addDeliveries(changelogId: string, results: DeliveryResult[]): Promise<DeliveryRecord[]>;
+  // Newest first
+  listDeliveries(changelogId: string): Promise<DeliveryRecord[]>;
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS changelogs (
+    id TEXT PRIMARY KEY,
+    repo TEXT NOT NULL,
+    repo_url TEXT NOT NULL,
+    range TEXT NOT NULL,
+    period_start TEXT NOT NULL,
+    period_end TEXT NOT NULL,
+    refs TEXT,
+    branch TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    preset TEXT NOT NULL,
+    format TEXT NOT NULL,
+    sources TEXT NOT NULL,
+    changelog TEXT NOT NULL,
+    content TEXT NOT NULL,
+    renders TEXT NOT NULL,
+    gramaphone TEXT,
+    draft INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS changelogs_repo_created_at ON changelogs (repo, created_at);
+  CREATE TABLE IF NOT EXISTS deliveries (
+    id TEXT PRIMARY KEY,
+    changelog_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    destination TEXT,
+    ok INTEGER NOT NULL,
+    error TEXT,
+    receipt TEXT,
+    delivered_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS deliveries_changelog_id ON deliveries (changelog_id, delivered_at);
+`;
+
+// Columns added since the table was first created, for databases that predate them
+const ADDED_COLUMNS: Record<string, string> = {
+  gramaphone: 'TEXT',
+  draft: 'INTEGER NOT NULL DEFAULT 0'
+};
+
+// Columns shared by records and summaries; JSON ones are decoded in `toFields`
+const SUMMARY_COLUMNS = `id, repo, repo_url, range, period_start, period_end, refs, branch, mode,
+  provider, preset, format, json_extract(changelog, '$.summary') AS summary,
+  json_array_length(sources) AS source_count, gramaphone, draft, created_at, updated_at`;
+
+interface SummaryRow {
+  id: string;
+  repo: string;
+  repo_url: string;
+  range: string;
+  period_start: string;
+  period_end: string;
+  refs: string | null;
+  branch: string;
+  mode: string;
+  provider: string;
+  preset: string;
+  format: string;
+  summary: string | null;
+  source_count: number;
+  gramaphone: string | null;
+  draft: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RecordRow extends SummaryRow {
+  sources: string;
+  changelog: string;
+  content: string;
+  renders: string;
+}
+
+// Fields common to summaries and full records
+function toFields(row: SummaryRow): Omit<ChangelogSummary, 'summary' | 'sourceCount'> {
+  return {
+    id: row.id,
+    repo: row.repo,
+    repoUrl: row.repo_url,
+    range: JSON.parse(row.range) as StoredRange,
+    period: { start: row.period_start, end: row.period_end },
+    refs: row.refs ? JSON.parse(row.refs) as ResolvedRefs : undefined,
+    branch: row.branch,
+    mode: row.mode as ChangelogMode,
+    provider: row.provider,
+    preset: row.preset,
+    format: row.format as OutputFormat,
+    gramaphone: row.gramaphone ? JSON.parse(row.gramaphone) as PublishedEntry : undefined,
+    draft: row.draft === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toSummary(row: SummaryRow): ChangelogSummary {
+  return { ...toFields(row), summary: row.summary ?? '', sourceCount: row.source_count };
+}
+
+function toRecord(row: RecordRow): ChangelogRecord {
+  return {
+    ...toFields(row),
+    sources: JSON.parse(row.sources) as string[],
+    changelog: JSON.parse(row.changelog) as Changelog,
+    content: row.content,
+    renders: JSON.parse(row.renders) as Record<OutputFormat, string>
+  };
+}
+
+interface DeliveryRow {
+  id: string;
+  changelog_id: string;
+  type: string;
+  destination: string | null;
+  ok: number;
+  error: string | null;
+  receipt: string | null;
+  delivered_at: string;
+}
+
+function toDelivery(row: DeliveryRow): DeliveryRecord {
+  return {
+    id: row.id,
+    changelogId: row.changelog_id,
+    type: row.type,
+    destination: row.destination ?? undefined,
+    ok: row.ok === 1,
+    error: row.error ?? undefined,
+    receipt: row.receipt ? JSON.parse(row.receipt) as DeliveryReceipt : undefined,
+    deliveredAt: row.delivered_at
+  };
+}
+
+// Single-file SQLite database, by default <data dir>/history.db
+export class SqliteHistoryStore implements ChangelogHistoryStore {
+  private db: Database.Database;
+
+  constructor(file = path.join(getDataDir(), 'history.db')) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const existing = new Set((this.db.prepare('PRAGMA table_info(changelogs)').all() as { name: string }[])
+      .map(column => column.name));
+    for (const [column, type] of Object.entries(ADDED_COLUMNS)) {
+      if (!existing.has(column)) {
+        this.db.exec(`ALTER TABLE changelogs ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+
+  async add(record: NewChangelogRecord): Promise<ChangelogRecord> {
+    const now = new Date().toISOString();
+    const stored: ChangelogRecord = { ...record, id: randomUUID(), draft: record.draft ?? false, createdAt: now, updatedAt: now };
+
+    this.db.prepare(`
+      INSERT INTO changelogs (id, repo, repo_url, range, period_start, period_end, refs, branch, mode,
+        provider, preset, format, sources, changelog, content, renders, draft, created_at, updated_at)
+      VALUES (@id, @repo, @repoUrl, @range, @periodStart, @periodEnd, @refs, @branch, @mode,
+        @provider, @preset, @format, @sources, @changelog, @content, @renders, @draft, @createdAt, @updatedAt)
+    `).run({
+      id: stored.id,
+      repo: stored.repo,
+      repoUrl: stored.repoUrl,
+      range: JSON.stringify(stored.range),
+      periodStart: stored.period.start,
+      periodEnd: stored.period.end,
+      refs: stored.refs ? JSON.stringify(stored.refs) : null,
+      branch: stored.branch,
+      mode: stored.mode,
+      provider: stored.provider,
+      preset: stored.preset,
+      format: stored.format,
+      sources: JSON.stringify(stored.sources),
+      changelog: JSON.stringify(stored.changelog),
+      content: stored.content,
+      renders: JSON.stringify(stored.renders),
+      draft: stored.draft ? 1 : 0,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt
+    });
+    return stored;
+  }
+
+  async get(id: string): Promise<ChangelogRecord | undefined> {
+    const row = this.db.prepare(`SELECT ${SUMMARY_COLUMNS}, sources, changelog, content, renders FROM changelogs WHERE id = ?`)
+      .get(id) as RecordRow | undefined;
+    return row ? toRecord(row) : undefined;
+  }
+
+  async list({ repo, limit = DEFAULT_LIST_LIMIT }: HistoryQuery = {}): Promise<ChangelogSummary[]> {
+    const rows = repo
+      ? this.db.prepare(`SELECT ${SUMMARY_COLUMNS} FROM changelogs WHERE repo = ? ORDER BY created_at DESC LIMIT ?`).all(repo, limit)
+      : this.db.prepare(`SELECT ${SUMMARY_COLUMNS} FROM changelogs ORDER BY created_at DESC LIMIT ?`).all(limit);
+    return (rows as SummaryRow[]).map(toSummary);
+  }
+
+  async update(id: string, content: string): Promise<ChangelogRecord | undefined> {
+    const { changes } = this.db.prepare('UPDATE changelogs SET content = ?, draft = 0, updated_at = ? WHERE id = ?')
+      .run(content, new Date().toISOString(), id);
+    return changes > 0 ? this.get(id) : undefined;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM deliveries WHERE changelog_id = ?').run(id);
+      return this.db.prepare('DELETE FROM changelogs WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+
+  async setPublishedEntry(id: string, entry: PublishedEntry | undefined): Promise<void> {
+    this.db.prepare('UPDATE changelogs SET gramaphone = ? WHERE id = ?')
+      .run(entry ? JSON.stringify(entry) : null, id);
+  }
+
+  async addDeliveries(changelogId: string, results: DeliveryResult[]): Promise<DeliveryRecord[]> {
+    const records = results.map(result => ({ ...result, id: randomUUID(), changelogId }));
+    const insert = this.db.prepare(`
+      INSERT INTO deliveries (id, changelog_id, type, destination, ok, error, receipt, delivered_at)
+      VALUES (@id, @changelogId, @type, @destination, @ok, @error, @receipt, @deliveredAt)
+    `);
+
+    this.db.transaction(() => {
+      for (const record of records) {
+        insert.run({
+          id: record.id,
+          changelogId,
+          type: record.type,
+          destination: record.destination ?? null,
+          ok: record.ok ? 1 : 0,
+          error: record.error ?? null,
+          receipt: record.receipt ? JSON.stringify(record.receipt) : null,
+          deliveredAt: record.deliveredAt
+        });
+      }
+    })();
+    return records;
+  }
+
+  async listDeliveries(changelogId: string): Promise<DeliveryRecord[]> {
+    const rows = this.db.prepare('SELECT * FROM deliveries WHERE changelog_id = ? ORDER BY delivered_at DESC')
+      .all(changelogId) as DeliveryRow[];
+    return rows.map(toDelivery);
+  }
+}
+
+const STORE_KEY = Symbol.for('gramphibian.historyStore');
+
+// One connection per server process, surviving dev-server reloads like the job queue.
+// Undefined when history is turned off in the config.
+export function getHistoryStore(): ChangelogHistoryStore | undefined {
+  const config = loadConfig().history;
+  if (config?.enabled === false) {
+    return undefined;
+  }
+
+  const holder = globalThis as typeof globalThis & { [STORE_KEY]?: ChangelogHistoryStore };
+  if (!holder[STORE_KEY]) {
+    holder[STORE_KEY] = new SqliteHistoryStore(config?.path ? path.resolve(process.cwd(), config.path) : undefined);
+  }
+  return holder[STORE_KEY];
+}
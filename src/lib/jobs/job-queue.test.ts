@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GenerationResponse } from '../generation-response';
+import { JobQueue, JobRunner } from './job-queue';
+import { isFinished, Job, JobStore } from './job-store';
+
+const request = { repoUrl: 'https://github.com/acme/widgets' };
+const response = { changelog: '## Changes' } as GenerationResponse;
+
+// A job the previous process was running when it stopped
+function interruptedJob(attempts: number): Job {
+  return {
+    id: randomUUID(),
+    status: 'running',
+    request,
+    progress: { phase: 'generating', completed: 12, unit: 'tokens' },
+    attempts,
+    createdAt: new Date().toISOString(),
+    startedAt: new Date().toISOString()
+  };
+}
+
+async function settled(queue: JobQueue, id: string): Promise<Job> {
+  for (let i = 0; i < 100; i++) {
+    const job = await queue.get(id);
+    if (job && isFinished(job)) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} never finished`);
+}
+
+describe('JobQueue', () => {
+  let dataDir: string;
+  let store: JobStore;
+  let runs: number;
+  const runner: JobRunner = async () => {
+    runs++;
+    return response;
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gramphibian-jobs-'));
+    vi.stubEnv('GRAMPHIBIAN_DATA_DIR', dataDir);
+    store = new JobStore();
+    runs = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('runs queued jobs and counts the attempt', async () => {
+    const queue = new JobQueue({ store, runner });
+    const { id } = await queue.enqueue(request);
+
+    const job = await settled(queue, id);
+    expect(job).toMatchObject({ status: 'succeeded', attempts: 1, result: response });
+    expect(runs).toBe(1);
+  });
+
+  it('resumes jobs interrupted by a restart', async () => {
+    const interrupted = interruptedJob(1);
+    await store.save(interrupted);
+
+    const queue = new JobQueue({ store, runner, maxAttempts: 3 });
+    const job = await settled(queue, interrupted.id);
+    expect(job).toMatchObject({ status: 'succeeded', attempts: 2 });
+    expect(runs).toBe(1);
+  });
+
+  it('fails jobs that have used up their attempts instead of resuming them', async () => {
+    const interrupted = interruptedJob(3);
+    await store.save(interrupted);
+
+    const queue = new JobQueue({ store, runner, maxAttempts: 3 });
+    const job = await settled(queue, interrupted.id);
+    expect(job).toMatchObject({ status: 'failed', attempts: 3, progress: null, error: { status: 500 } });
+    expect(job.finishedAt).toBeDefined();
+    expect(runs).toBe(0);
+  });
+});
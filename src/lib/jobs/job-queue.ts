@@ -0,0 +1,273 @@
+import { randomUUID } from 'crypto';
+import { loadConfig } from '../config';
+import { parseGenerationRequest } from '../generation-request';
+import { describeGenerationError, GenerationResponse } from '../generation-response';
+import logger from '../logger';
+import type { ProgressEvent } from '../progress';
+import { runReleaseNotes } from '../release-notes';
+import { GenerationHooks, runGeneration } from '../run-generation';
+import { isFinished, Job, JobProgress, JobStore } from './job-store';
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_RETENTION_DAYS = 7;
+// Runs a job gets before it is given up on. Only restarts use more than one, so
+// a job that takes the process down with it can't do so forever.
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Progress events arrive per commit; the file only needs to keep up with pollers
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+export type JobRunner = (request: Record<string, unknown>, hooks: GenerationHooks, job: Job) => Promise<GenerationResponse>;
+
+export type JobOptions = Pick<Job, 'key' | 'release'>;
+
+export interface JobQueueOptions {
+  store?: JobStore;
+  // Replaceable so the queue can be exercised without GitHub or a model
+  runner?: JobRunner;
+  concurrency?: number;
+  retentionDays?: number;
+  maxAttempts?: number;
+}
+
+async function runGenerationJob(request: Record<string, unknown>, hooks: GenerationHooks, job: Job): Promise<GenerationResponse> {
+  // Validated when enqueued, but presets and providers may have changed since
+  const parsed = parseGenerationRequest(request);
+  if (!parsed.ok) {
+    throw new Error(parsed.message);
+  }
+  return job.release ? runReleaseNotes(parsed.request, job.release, hooks) : runGeneration(parsed.request, hooks);
+}
+
+function nextProgress(previous: JobProgress | null, event: ProgressEvent): JobProgress {
+  switch (event.type) {
+    case 'phase':
+      return { phase: event.phase, completed: 0, unit: '' };
+    case 'progress':
+      return { phase: event.phase, completed: event.completed, total: event.total, unit: event.unit };
+    case 'token':
+      return {
+        phase: 'generating',
+        completed: (previous?.phase === 'generating' ? previous.completed : 0) + 1,
+        unit: 'tokens'
+      };
+  }
+}
+
+/**
+ * In-process queue for generations too long for a request. Every job lives in
+ * the job store, so queued jobs, and running ones interrupted by a restart,
+ * start again the next time the queue is created.
+ */
+export class JobQueue {
+  private store: JobStore;
+  private runner: JobRunner;
+  private concurrency: number;
+  private retentionDays: number;
+  private maxAttempts: number;
+  // Jobs in flight; finished ones are read from the store
+  private active = new Map<string, Job>();
+  private pending: string[] = [];
+  private controllers = new Map<string, AbortController>();
+  // Jobs by key, finished ones included, so a key is checked without the store
+  private keys = new Map<string, Job>();
+  private writes: Promise<void> = Promise.resolve();
+  private ready: Promise<void>;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.store = options.store ?? new JobStore();
+    this.runner = options.runner ?? runGenerationJob;
+    this.concurrency = Math.max(options.concurrency ?? DEFAULT_CONCURRENCY, 1);
+    this.retentionDays = options.retentionDays ?? DEFAULT_RETENTION_DAYS;
+    this.maxAttempts = Math.max(options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, 1);
+    this.ready = this.restore();
+  }
+
+  private async restore(): Promise<void> {
+    const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+
+    for (const job of await this.store.list()) {
+      if (isFinished(job)) {
+        if (new Date(job.finishedAt ?? job.createdAt).getTime() < cutoff) {
+          await this.store.delete(job.id);
+        } else if (job.key) {
+          this.keys.set(job.key, job);
+        }
+        continue;
+      }
+
+      if (job.attempts >= this.maxAttempts) {
+        logger.warn('Giving up on interrupted job', { id: job.id, attempts: job.attempts });
+        const failed: Job = {
+          ...job,
+          status: 'failed',
+          progress: null,
+          error: {
+            status: 500,
+            body: { message: `Interrupted ${job.attempts} times, most likely by a server restart or crash; not retrying` }
+          },
+          finishedAt: new Date().toISOString()
+        };
+        await this.store.save(failed);
+        if (job.key) {
+          this.keys.set(job.key, failed);
+        }
+        continue;
+      }
+
+      // A job still marked running died with the previous process
+      const resumed: Job = { ...job, status: 'queued', progress: null };
+      logger.info('Resuming job', { id: job.id, previousStatus: job.status, attempts: job.attempts });
+      this.active.set(job.id, resumed);
+      this.pending.push(job.id);
+      if (job.key) {
+        this.keys.set(job.key, resumed);
+      }
+      void this.persist(resumed);
+    }
+
+    this.drain();
+  }
+
+  // Saves are chained so two writes of one job never race on its file
+  private persist(job: Job): Promise<void> {
+    const snapshot = { ...job };
+    this.writes = this.writes
+      .then(() => this.store.save(snapshot))
+      .catch(error => {
+        logger.error('Failed to save job', {
+          id: job.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    return this.writes;
+  }
+
+  // A key seen before returns that job instead, unless it failed or was cancelled
+  async enqueue(request: Record<string, unknown>, { key, release }: JobOptions = {}): Promise<Job> {
+    await this.ready;
+    const existing = key ? this.keys.get(key) : undefined;
+    if (existing && existing.status !== 'failed' && existing.status !== 'cancelled') {
+      logger.info('Job already exists', { id: existing.id, key, status: existing.status });
+      return existing;
+    }
+
+    const job: Job = {
+      id: randomUUID(),
+      status: 'queued',
+      request,
+      progress: null,
+      attempts: 0,
+      key,
+      release,
+      createdAt: new Date().toISOString()
+    };
+
+    // Claimed before the first await, so the same key enqueued twice at once runs once
+    if (key) {
+      this.keys.set(key, job);
+    }
+    this.active.set(job.id, job);
+    this.pending.push(job.id);
+    await this.persist(job);
+    logger.info('Enqueued job', { id: job.id, queued: this.pending.length });
+
+    this.drain();
+    return job;
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    await this.ready;
+    return this.active.get(id) ?? this.store.get(id);
+  }
+
+  async list(): Promise<Job[]> {
+    await this.ready;
+    const stored = await this.store.list();
+    return stored.map(job => this.active.get(job.id) ?? job);
+  }
+
+  // Queued jobs are dropped at once; running ones stop at their next progress point
+  async cancel(id: string): Promise<Job | undefined> {
+    await this.ready;
+    const job = this.active.get(id);
+    if (!job) {
+      return this.store.get(id);
+    }
+
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter(pendingId => pendingId !== id);
+      this.finish(job, { status: 'cancelled' });
+    } else {
+      this.controllers.get(id)?.abort();
+    }
+    return job;
+  }
+
+  private drain(): void {
+    while (this.controllers.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift() as string;
+      const job = this.active.get(id);
+      if (job) {
+        void this.run(job);
+      }
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    Object.assign(job, { status: 'running', attempts: job.attempts + 1, startedAt: new Date().toISOString() });
+    await this.persist(job);
+
+    let lastSave = Date.now();
+    const onProgress = (event: ProgressEvent) => {
+      job.progress = nextProgress(job.progress, event);
+      if (Date.now() - lastSave >= PROGRESS_SAVE_INTERVAL_MS) {
+        lastSave = Date.now();
+        void this.persist(job);
+      }
+    };
+
+    try {
+      const result = await this.runner(job.request, { onProgress, signal: controller.signal }, job);
+      this.finish(job, { status: 'succeeded', result });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.finish(job, { status: 'cancelled' });
+      } else {
+        logger.error('Job failed', {
+          id: job.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        this.finish(job, { status: 'failed', error: describeGenerationError(error) });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.drain();
+    }
+  }
+
+  private finish(job: Job, outcome: Pick<Job, 'status' | 'result' | 'error'>): void {
+    Object.assign(job, outcome, { finishedAt: new Date().toISOString() });
+    // Served from memory until the store has the final state
+    void this.persist(job).then(() => this.active.delete(job.id));
+    logger.info('Job finished', { id: job.id, status: job.status });
+  }
+}
+
+const QUEUE_KEY = Symbol.for('gramphibian.jobQueue');
+
+// One queue per server process. Kept on globalThis so dev-server reloads of
+// this module don't start a second queue running the same jobs.
+export function getJobQueue(): JobQueue {
+  const holder = globalThis as typeof globalThis & { [QUEUE_KEY]?: JobQueue };
+  if (!holder[QUEUE_KEY]) {
+    const config = loadConfig().jobs;
+    holder[QUEUE_KEY] = new JobQueue({
+      concurrency: config?.concurrency,
+      retentionDays: config?.retentionDays,
+      maxAttempts: config?.maxAttempts
+    });
+  }
+  return holder[QUEUE_KEY];
+}
@@ -0,0 +1,98 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getDataDir } from '../config';
+import type { GenerationErrorResponse, GenerationResponse } from '../generation-response';
+import type { ReleaseTrigger } from '../github/webhook';
+import logger from '../logger';
+import type { GenerationPhase } from '../progress';
+
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  phase: GenerationPhase;
+  completed: number;
+  total?: number;
+  unit: string;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  // The request body as received; re-parsed on every run so dates survive the round trip
+  request: Record<string, unknown>;
+  progress: JobProgress | null;
+  result?: GenerationResponse;
+  error?: GenerationErrorResponse;
+  // Runs started, including ones interrupted by a restart
+  attempts: number;
+  // Enqueueing the same key again returns this job instead of generating twice
+  key?: string;
+  // Set for release notes asked for by GitHub, which are written back to the release
+  release?: ReleaseTrigger;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export function isFinished(job: Job): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+// One JSON file per job under <data dir>/jobs
+export class JobStore {
+  private directory = path.join(getDataDir(), 'jobs');
+
+  private jobPath(id: string): string {
+    // Ids come from URLs, so refuse anything that isn't one of ours
+    if (!JOB_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid job id "${id}"`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.jobPath(id), 'utf8')) as Job;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Written to a temporary file first so a crash never leaves half a job behind
+  async save(job: Job): Promise<void> {
+    const target = this.jobPath(job.id);
+    const temporary = `${target}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(job));
+    await fs.rename(temporary, target);
+  }
+
+  async list(): Promise<Job[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const jobs = await Promise.all(entries
+      .filter(entry => entry.endsWith('.json'))
+      .map(entry => this.get(entry.replace(/\.json$/, ''))));
+    return jobs
+      .filter((job): job is Job => job !== undefined)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await fs.unlink(this.jobPath(id));
+    } catch (error) {
+      logger.warn('Failed to delete job', {
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
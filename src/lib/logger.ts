@@ -3,6 +3,8 @@ import winston from 'winston';
 // Configure the logger
 const logger = winston.createLogger({
     level: 'debug',
+    // Test runs only want the failures
+    silent: process.env.NODE_ENV === 'test',
     format: winston.format.combine(
       winston.format.timestamp(),
       winston.format.json()
@@ -0,0 +1,121 @@
+import {
+  deleteGramaphoneEntry,
+  GRAMAPHONE_PUBLISH,
+  GRAMAPHONE_UNPUBLISH,
+  GRAMAPHONE_UPDATE,
+  GramaphoneEntryRemoval,
+  GramaphoneEntryUpdate,
+  GramaphonePublication,
+  publicationKey,
+  submitToGramaphone,
+  updateGramaphoneEntry
+} from '../gramaphone';
+import { RELEASE_BODY_UPDATE } from '../github/webhook';
+import { getHistoryStore } from '../history/history-store';
+import logger from '../logger';
+import { writeReleaseBody } from '../release-notes';
+import { enqueueEvent, sendWebhook, WEBHOOK_DELIVER } from '../webhooks/dispatch';
+import { repoNameFromUrl } from '../webhooks/events';
+import type { OutboxHandler } from './outbox';
+import { messageIdFor, OutboxMessage, OutboxStore } from './outbox-store';
+
+// Bookkeeping after a send succeeded must not turn it into a failure, which would send again
+async function afterSend(message: OutboxMessage, update: () => Promise<void>): Promise<void> {
+  try {
+    await update();
+  } catch (error) {
+    logger.warn('Failed to record Gramaphone change', {
+      id: message.id,
+      kind: message.kind,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// How each kind of outbox message is sent
+export const OUTBOX_HANDLERS: Record<string, OutboxHandler> = {
+  [GRAMAPHONE_PUBLISH]: async (message, outbox) => {
+    const { repoUrl, period, content } = message.payload as unknown as GramaphonePublication;
+    const entry = await submitToGramaphone(content, { repo: repoUrl, period }, message.idempotencyKey);
+
+    await afterSend(message, async () => {
+      if (message.historyId) {
+        await getHistoryStore()?.setPublishedEntry(message.historyId, { entryId: entry.id, publishedAt: new Date().toISOString() });
+      }
+      await enqueueEvent(outbox, 'changelog.published', {
+        historyId: message.historyId,
+        repo: repoNameFromUrl(repoUrl),
+        repoUrl,
+        period,
+        entryId: entry.id,
+        content
+      });
+    });
+    return entry;
+  },
+
+  [GRAMAPHONE_UPDATE]: async message => {
+    const { publicationId, entryId, ...publication } = message.payload as unknown as GramaphoneEntryUpdate;
+    await updateGramaphoneEntry(entryId, publication.content, { repo: publication.repoUrl, period: publication.period }, message.idempotencyKey);
+
+    // Messages are stored under their key, so the publish moves to the key of the
+    // new content; publishing that content again then finds it rather than
+    // creating a second entry
+    const idempotencyKey = publicationKey(publication);
+    const movedId = messageIdFor(idempotencyKey);
+    await afterSend(message, async () => {
+      const store = new OutboxStore();
+      const original = await store.get(publicationId);
+      if (original) {
+        await store.save({
+          ...original,
+          id: movedId,
+          idempotencyKey,
+          payload: { ...publication },
+          updatedAt: new Date().toISOString()
+        });
+        if (movedId !== publicationId) {
+          await store.delete(publicationId);
+        }
+      }
+      const history = message.historyId ? getHistoryStore() : undefined;
+      const record = message.historyId ? await history?.get(message.historyId) : undefined;
+      if (record?.gramaphone?.entryId === entryId) {
+        await history?.setPublishedEntry(record.id, { ...record.gramaphone, updatedAt: new Date().toISOString() });
+      }
+    });
+    return { id: entryId, publicationId: movedId };
+  },
+
+  [GRAMAPHONE_UNPUBLISH]: async (message, outbox) => {
+    const { publicationId, entryId } = message.payload as unknown as GramaphoneEntryRemoval;
+    await deleteGramaphoneEntry(entryId, message.idempotencyKey);
+
+    await afterSend(message, async () => {
+      const store = new OutboxStore();
+      const original = await store.get(publicationId);
+      // Forgotten, so the same changelog can be published again
+      await store.delete(publicationId);
+      const history = message.historyId ? getHistoryStore() : undefined;
+      const record = message.historyId ? await history?.get(message.historyId) : undefined;
+      if (record?.gramaphone?.entryId === entryId) {
+        await history?.setPublishedEntry(record.id, undefined);
+      }
+      if (original) {
+        const { repoUrl } = original.payload as unknown as GramaphonePublication;
+        await enqueueEvent(outbox, 'changelog.unpublished', {
+          historyId: message.historyId,
+          repo: repoNameFromUrl(repoUrl),
+          repoUrl,
+          entryId
+        });
+      }
+    });
+    return { id: entryId };
+  },
+
+  [WEBHOOK_DELIVER]: sendWebhook,
+
+  // Wrapped, as the release notes module imports the outbox itself
+  [RELEASE_BODY_UPDATE]: message => writeReleaseBody(message)
+};
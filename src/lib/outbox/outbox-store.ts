@@ -0,0 +1,127 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getDataDir } from '../config';
+import logger from '../logger';
+
+const MESSAGE_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// `failed` means out of attempts; it can still be retried by hand
+export type OutboxStatus = 'pending' | 'delivered' | 'failed';
+
+export interface OutboxMessage {
+  id: string;
+  // Which handler sends it, e.g. "gramaphone.publish"
+  kind: string;
+  // Enqueueing the same key again returns this message instead of sending twice.
+  // Also sent along so the receiver can drop duplicates of its own.
+  idempotencyKey: string;
+  payload: Record<string, unknown>;
+  // History record the message is about, for showing its status next to it
+  historyId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  // When the next attempt is due, while pending
+  nextAttemptAt?: string;
+  lastError?: string;
+  // What the handler returned, e.g. the id of the created entry
+  result?: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+// Messages are named after their idempotency key, so a key can only ever be
+// stored once. Shaped like a UUID to pass the id check on the way back in.
+export function messageIdFor(idempotencyKey: string): string {
+  const hash = createHash('sha256').update(idempotencyKey).digest('hex');
+  return [hash.slice(0, 8), hash.slice(8, 12), hash.slice(12, 16), hash.slice(16, 20), hash.slice(20, 32)].join('-');
+}
+
+export interface OutboxQuery {
+  kind?: string;
+  status?: OutboxStatus;
+  historyId?: string;
+}
+
+// One JSON file per message under <data dir>/outbox
+export class OutboxStore {
+  private directory = path.join(getDataDir(), 'outbox');
+
+  private messagePath(id: string): string {
+    // Ids come from URLs, so refuse anything that isn't one of ours
+    if (!MESSAGE_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid outbox message id "${id}"`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  async get(id: string): Promise<OutboxMessage | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.messagePath(id), 'utf8')) as OutboxMessage;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Written to a temporary file first so a crash never leaves half a message behind
+  async save(message: OutboxMessage): Promise<void> {
+    const target = this.messagePath(message.id);
+    const temporary = `${target}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(message));
+    await fs.rename(temporary, target);
+  }
+
+  // False when a message with the same key is already stored. The file is
+  // written in full under a temporary name, then linked into place, which fails
+  // rather than overwrite when two processes create the same key at once.
+  async create(message: OutboxMessage): Promise<boolean> {
+    const target = this.messagePath(message.id);
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(message), { flag: 'wx' });
+    try {
+      await fs.link(temporary, target);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    } finally {
+      await fs.unlink(temporary);
+    }
+  }
+
+  // Oldest first
+  async list({ kind, status, historyId }: OutboxQuery = {}): Promise<OutboxMessage[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const messages = await Promise.all(entries
+      .filter(entry => entry.endsWith('.json'))
+      .map(entry => this.get(entry.replace(/\.json$/, ''))));
+    return messages
+      .filter((message): message is OutboxMessage => message !== undefined
+        && (!kind || message.kind === kind)
+        && (!status || message.status === status)
+        && (!historyId || message.historyId === historyId))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await fs.unlink(this.messagePath(id));
+    } catch (error) {
+      logger.warn('Failed to delete outbox message', {
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
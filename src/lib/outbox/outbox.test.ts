@@ -0,0 +1,119 @@
+import fs from 'fs';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockGramaphone, MockGramaphone } from '../../../scripts/mock-gramaphone';
+import { publishToGramaphone, updatePublication } from '../publications';
+import { getOutbox, Outbox, OutboxHandler } from './outbox';
+import { OutboxStore } from './outbox-store';
+
+const message = {
+  kind: 'test.send',
+  idempotencyKey: 'test:acme/widgets:v1.0.0',
+  payload: { tag: 'v1.0.0' }
+};
+
+describe('Outbox', () => {
+  let dataDir: string;
+  let sent: string[];
+  let failures: number;
+  let outbox: Outbox;
+
+  const send: OutboxHandler = async message => {
+    sent.push(message.idempotencyKey);
+    if (failures-- > 0) {
+      throw new Error('Destination unavailable');
+    }
+    return { ok: true };
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gramphibian-outbox-'));
+    vi.stubEnv('GRAMPHIBIAN_DATA_DIR', dataDir);
+    sent = [];
+    failures = 0;
+    outbox = new Outbox({ store: new OutboxStore(), handlers: { 'test.send': send }, maxAttempts: 1 });
+  });
+
+  afterEach(() => {
+    outbox.stop();
+    vi.unstubAllEnvs();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('sends a message and keeps what the handler returned', async () => {
+    const delivered = await outbox.enqueue(message);
+    expect(delivered).toMatchObject({ status: 'delivered', attempts: 1, result: { ok: true } });
+    expect(sent).toEqual([message.idempotencyKey]);
+  });
+
+  it('returns the stored message when a key is enqueued again', async () => {
+    const first = await outbox.enqueue(message);
+    const second = await outbox.enqueue({ ...message, payload: { tag: 'changed' } });
+
+    expect(second.id).toBe(first.id);
+    expect(second.payload).toEqual(message.payload);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('stores a key once when it is enqueued twice at the same moment', async () => {
+    const [first, second] = await Promise.all([
+      outbox.enqueue(message, { background: true }),
+      outbox.enqueue(message, { background: true })
+    ]);
+
+    expect(second.id).toBe(first.id);
+    await vi.waitFor(async () => expect((await outbox.get(first.id))?.status).toBe('delivered'));
+    expect(fs.readdirSync(path.join(dataDir, 'outbox'))).toEqual([`${first.id}.json`]);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('retries a failed message when its key is enqueued again', async () => {
+    failures = 1;
+    expect(await outbox.enqueue(message)).toMatchObject({ status: 'failed', lastError: 'Destination unavailable' });
+
+    expect(await outbox.enqueue(message)).toMatchObject({ status: 'delivered', attempts: 2 });
+    expect(sent).toHaveLength(2);
+  });
+});
+
+describe('Gramaphone publications', () => {
+  const publication = {
+    repoUrl: 'https://github.com/acme/widgets',
+    period: { start: '2024-06-01T00:00:00.000Z', end: '2024-06-08T00:00:00.000Z' },
+    content: '## Changes'
+  };
+  let dataDir: string;
+  let mock: MockGramaphone;
+  let requests: string[];
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gramphibian-publications-'));
+    vi.stubEnv('GRAMPHIBIAN_DATA_DIR', dataDir);
+    requests = [];
+    mock = createMockGramaphone({ log: line => requests.push(line) });
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    vi.stubEnv('GRAMAPHONE_URL', `http://127.0.0.1:${(mock.server.address() as AddressInfo).port}`);
+  });
+
+  afterEach(async () => {
+    getOutbox().stop();
+    delete (globalThis as Record<symbol, unknown>)[Symbol.for('gramphibian.outbox')];
+    vi.unstubAllEnvs();
+    await new Promise(resolve => mock.server.close(resolve));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('finds the updated entry when its new content is published again', async () => {
+    const published = await publishToGramaphone(publication);
+    const updated = await updatePublication(published, '## Changes, edited');
+    expect(updated.status).toBe('delivered');
+
+    const republished = await publishToGramaphone({ ...publication, content: '## Changes, edited' });
+
+    expect(republished).toMatchObject({ id: updated.result?.publicationId, result: { id: published.result?.id } });
+    expect(requests.filter(line => line.startsWith('POST'))).toHaveLength(1);
+    expect(mock.entries.size).toBe(1);
+  });
+});
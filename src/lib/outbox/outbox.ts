@@ -0,0 +1,244 @@
+import { loadConfig } from '../config';
+import logger from '../logger';
+import { OUTBOX_HANDLERS } from './handlers';
+import { messageIdFor, OutboxMessage, OutboxQuery, OutboxStore } from './outbox-store';
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETENTION_DAYS = 30;
+// Doubles after every failed attempt: 30s, 1m, 2m, ... up to an hour
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+// Longest the outbox sleeps, so messages enqueued by other processes are picked up
+const MAX_SLEEP_MS = 60 * 1000;
+
+// Sends one message; whatever it returns is kept as the message's result. Gets
+// the outbox so a send can queue follow-up messages.
+export type OutboxHandler = (message: OutboxMessage, outbox: Outbox) => Promise<Record<string, unknown> | void>;
+
+export type NewOutboxMessage = Pick<OutboxMessage, 'kind' | 'idempotencyKey' | 'payload' | 'historyId'>;
+
+export interface EnqueueOptions {
+  // Return once the message is saved, with the first attempt still running
+  background?: boolean;
+}
+
+export interface OutboxOptions {
+  store?: OutboxStore;
+  // Replaceable so the outbox can be exercised without real destinations
+  handlers?: Record<string, OutboxHandler>;
+  maxAttempts?: number;
+  retentionDays?: number;
+}
+
+function backoff(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+/**
+ * Durable queue for outbound calls that must eventually happen, like
+ * publishing to Gramaphone. Every message is on disk before it is first
+ * sent, failed sends are retried with exponential backoff, and pending
+ * messages survive restarts. Idempotency keys make enqueueing the same thing
+ * twice harmless.
+ */
+export class Outbox {
+  private store: OutboxStore;
+  private handlers: Record<string, OutboxHandler>;
+  private maxAttempts: number;
+  private retentionDays: number;
+  private timer: NodeJS.Timeout | undefined;
+  private started = false;
+  // Messages being sent, so a retry and a manual resend never overlap
+  private sending = new Set<string>();
+
+  constructor(options: OutboxOptions = {}) {
+    this.store = options.store ?? new OutboxStore();
+    this.handlers = options.handlers ?? OUTBOX_HANDLERS;
+    this.maxAttempts = Math.max(options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, 1);
+    this.retentionDays = options.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  }
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    void this.prune().then(() => this.flush());
+  }
+
+  stop(): void {
+    this.started = false;
+    clearTimeout(this.timer);
+  }
+
+  get(id: string): Promise<OutboxMessage | undefined> {
+    return this.store.get(id);
+  }
+
+  list(query?: OutboxQuery): Promise<OutboxMessage[]> {
+    return this.store.list(query);
+  }
+
+  // Saves the message and makes the first attempt before returning, unless asked
+  // to run it in the background. A key seen before returns that message instead;
+  // one that ran out of attempts gets another.
+  async enqueue(next: NewOutboxMessage, { background = false }: EnqueueOptions = {}): Promise<OutboxMessage> {
+    const now = new Date().toISOString();
+    const message: OutboxMessage = {
+      ...next,
+      id: messageIdFor(next.idempotencyKey),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    if (!await this.store.create(message)) {
+      const existing = await this.store.get(message.id);
+      if (existing) {
+        logger.info('Outbox message already exists', { id: existing.id, kind: existing.kind, status: existing.status });
+        return existing.status === 'failed' ? (await this.retry(existing.id)) ?? existing : existing;
+      }
+      // Deleted since; nothing else holds the key now
+      await this.store.save(message);
+    }
+    logger.info('Enqueued outbox message', { id: message.id, kind: message.kind });
+    if (background) {
+      this.attempt(message).catch(error => logger.error('Outbox attempt failed', {
+        id: message.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }));
+      return message;
+    }
+    return this.attempt(message);
+  }
+
+  // Sends a pending or failed message now rather than when its backoff ends
+  async retry(id: string): Promise<OutboxMessage | undefined> {
+    const message = await this.store.get(id);
+    if (!message || message.status === 'delivered') {
+      return message;
+    }
+    return this.attempt({ ...message, status: 'pending' });
+  }
+
+  // Attempts every pending message that is due, oldest first
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    try {
+      const isDue = (message: OutboxMessage) =>
+        message.status === 'pending' && (!message.nextAttemptAt || new Date(message.nextAttemptAt).getTime() <= Date.now());
+      for (const { id } of (await this.store.list({ status: 'pending' })).filter(isDue)) {
+        // Re-read, as an attempt that was already running may have finished since
+        const message = await this.store.get(id);
+        if (message && isDue(message)) {
+          await this.attempt(message);
+        }
+      }
+    } catch (error) {
+      logger.error('Outbox flush failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+    this.arm();
+  }
+
+  private async attempt(message: OutboxMessage): Promise<OutboxMessage> {
+    const handler = this.handlers[message.kind];
+    if (!handler || this.sending.has(message.id)) {
+      if (!handler) {
+        logger.warn('No outbox handler for message', { id: message.id, kind: message.kind });
+      }
+      return message;
+    }
+
+    this.sending.add(message.id);
+    const attempts = message.attempts + 1;
+    let updated: OutboxMessage;
+    try {
+      const result = await handler(message, this);
+      const now = new Date().toISOString();
+      updated = {
+        ...message,
+        status: 'delivered',
+        attempts,
+        nextAttemptAt: undefined,
+        lastError: undefined,
+        result: result ?? undefined,
+        updatedAt: now,
+        deliveredAt: now
+      };
+      logger.info('Outbox message delivered', { id: message.id, kind: message.kind, attempts });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : 'Unknown error';
+      const exhausted = attempts >= this.maxAttempts;
+      updated = {
+        ...message,
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: exhausted ? undefined : new Date(Date.now() + backoff(attempts)).toISOString(),
+        lastError,
+        updatedAt: new Date().toISOString()
+      };
+      logger.warn('Outbox message failed', {
+        id: message.id,
+        kind: message.kind,
+        attempts,
+        nextAttemptAt: updated.nextAttemptAt,
+        error: lastError
+      });
+    } finally {
+      this.sending.delete(message.id);
+    }
+
+    await this.store.save(updated);
+    this.arm();
+    return updated;
+  }
+
+  // Delivered messages are only kept long enough to answer repeated enqueues
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+    for (const message of await this.store.list({ status: 'delivered' })) {
+      if (new Date(message.deliveredAt ?? message.updatedAt).getTime() < cutoff) {
+        await this.store.delete(message.id);
+      }
+    }
+  }
+
+  // Sleeps until the earliest retry, but never longer than a minute
+  private arm(): void {
+    if (!this.started) {
+      return;
+    }
+    clearTimeout(this.timer);
+    void this.store.list({ status: 'pending' })
+      .then(messages => messages.map(message =>
+        new Date(message.nextAttemptAt ?? message.createdAt).getTime() - Date.now()))
+      .catch(() => [])
+      .then(untilDue => {
+        clearTimeout(this.timer);
+        if (!this.started) {
+          return;
+        }
+        this.timer = setTimeout(() => void this.flush(), Math.max(Math.min(...untilDue, MAX_SLEEP_MS), 0));
+      });
+  }
+}
+
+const OUTBOX_KEY = Symbol.for('gramphibian.outbox');
+
+// One outbox per server process, kept on globalThis like the job queue
+export function getOutbox(): Outbox {
+  const holder = globalThis as typeof globalThis & { [OUTBOX_KEY]?: Outbox };
+  if (!holder[OUTBOX_KEY]) {
+    const config = loadConfig().outbox;
+    holder[OUTBOX_KEY] = new Outbox({
+      maxAttempts: config?.maxAttempts,
+      retentionDays: config?.retentionDays
+    });
+    holder[OUTBOX_KEY].start();
+  }
+  return holder[OUTBOX_KEY];
+}
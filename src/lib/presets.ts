@@ -0,0 +1,143 @@
+import type { Changelog } from './changelog';
+import type { SectionTitle } from './conventional-commits';
+import { loadConfig } from './config';
+import logger from './logger';
+import { OUTPUT_FORMATS, OutputFormat } from './renderers';
+
+// Who the changelog is for and how it should read. Everything here only
+// shapes the prompt and the rendering; fetching and budgeting are unaffected.
+export interface Preset {
+  name: string;
+  label: string;
+  description: string;
+  // The writer's role and what the reader cares about
+  audience: string;
+  tone: string;
+  // Upper bound on entries across all sections
+  maxEntries: number;
+  summarySentences: number;
+  // Sections this audience doesn't care about, dropped after generation except
+  // for breaking changes
+  omitSections: SectionTitle[];
+  // Rendering used when the request doesn't ask for one
+  format: OutputFormat;
+  // Header shown above the preview in the UI
+  email?: {
+    subject: string;
+    to?: string;
+  };
+}
+
+// What a team can put under "presets" in gramphibian.config.json. Overriding a
+// built-in name only needs the fields that change.
+export type PresetConfig = Partial<Omit<Preset, 'name'>>;
+
+const DEFAULT_PRESET = 'weekly-status';
+
+const BUILT_IN_PRESETS: Preset[] = [
+  {
+    name: 'weekly-status',
+    label: 'Weekly status email',
+    description: 'A quick answer to "what did you get done this week?"',
+    audience: 'You are a developer telling your manager what got done this period. They want the few things that mattered, not every commit.',
+    tone: 'casual and direct, first person plural',
+    maxEntries: 5,
+    summarySentences: 2,
+    omitSections: ['Tests', 'Refactor', 'Dependencies'],
+    format: 'email',
+    email: {
+      subject: 'Re: What did you get done this week?'
+    }
+  },
+  {
+    name: 'release-notes',
+    label: 'Public release notes',
+    description: 'Complete notes for a tagged release, for users of the project',
+    audience: 'You are a maintainer writing release notes for the people who use this project. Cover every user-visible change and call out anything they must do to upgrade.',
+    tone: 'neutral and precise',
+    maxEntries: 40,
+    summarySentences: 2,
+    omitSections: ['Tests'],
+    format: 'github-release'
+  },
+  {
+    name: 'engineering-digest',
+    label: 'Internal engineering digest',
+    description: 'Technical roundup for the engineering team, internals included',
+    audience: 'You are an engineer writing a digest for fellow engineers on the team. Include internal changes such as refactors, dependency upgrades and test work, and name the components involved.',
+    tone: 'technical and concise',
+    maxEntries: 25,
+    summarySentences: 3,
+    omitSections: [],
+    format: 'markdown'
+  },
+  {
+    name: 'whats-new',
+    label: 'Customer-facing "What\'s new"',
+    description: 'Benefits-first announcement for customers, no internals',
+    audience: 'You are writing a "What\'s new" announcement for customers. Describe each change by what it lets them do, in plain language without jargon, commit references or internal component names.',
+    tone: 'friendly and upbeat, second person',
+    maxEntries: 8,
+    summarySentences: 2,
+    omitSections: ['Tests', 'Refactor', 'Dependencies', 'Documentation'],
+    format: 'html'
+  }
+];
+
+function isValidPreset(name: string, preset: Partial<Preset>): preset is Preset {
+  const missing = (['label', 'audience', 'tone', 'maxEntries', 'summarySentences', 'format'] as const)
+    .filter(field => preset[field] === undefined);
+  if (missing.length > 0) {
+    logger.warn('Ignoring preset with missing fields', { preset: name, missing: missing.join(', ') });
+    return false;
+  }
+  if (!OUTPUT_FORMATS.includes(preset.format as OutputFormat)) {
+    logger.warn('Ignoring preset with unknown format', { preset: name, format: String(preset.format) });
+    return false;
+  }
+  return true;
+}
+
+// Built-ins, with overrides and additions from the config file
+export function loadPresets(): Preset[] {
+  const presets = new Map(BUILT_IN_PRESETS.map(preset => [preset.name, preset]));
+
+  Object.entries(loadConfig().presets ?? {}).forEach(([name, overrides]) => {
+    const preset = {
+      description: '',
+      omitSections: [],
+      ...presets.get(name),
+      ...overrides,
+      name
+    };
+    if (isValidPreset(name, preset)) {
+      presets.set(name, preset);
+    }
+  });
+
+  return Array.from(presets.values());
+}
+
+export function listPresets(): string[] {
+  return loadPresets().map(preset => preset.name);
+}
+
+// Falls back to the configured default, then to the weekly status email
+export function resolvePreset(name?: string): Preset {
+  const presets = loadPresets();
+  const requested = name ?? loadConfig().defaultPreset ?? DEFAULT_PRESET;
+  const preset = presets.find(candidate => candidate.name === requested);
+  if (!preset) {
+    throw new Error(`Unknown preset "${requested}". Available presets: ${presets.map(candidate => candidate.name).join(', ')}`);
+  }
+  return preset;
+}
+
+export function applyPreset(changelog: Changelog, preset: Preset): Changelog {
+  const sections = changelog.sections
+    .map(section => preset.omitSections.includes(section.title)
+      ? { ...section, entries: section.entries.filter(entry => entry.breaking) }
+      : section)
+    .filter(section => section.entries.length > 0);
+  return { ...changelog, sections };
+}
@@ -0,0 +1,18 @@
+// Progress reporting for a generation run. Listeners are called synchronously
+// from inside the pipeline, so they must be cheap; a listener that throws
+// aborts the run, which is how cancellation is implemented.
+
+export const GENERATION_PHASES = ['fetching', 'hydrating', 'summarizing', 'generating'] as const;
+
+export type GenerationPhase = typeof GENERATION_PHASES[number];
+
+export type ProgressEvent =
+  // A new phase started; phases can be skipped but never go backwards, except
+  // that "generating" restarts when a malformed reply is retried
+  | { type: 'phase'; phase: GenerationPhase }
+  // `total` is absent while it isn't known yet, e.g. when paging through a range
+  | { type: 'progress'; phase: GenerationPhase; completed: number; total?: number; unit: string }
+  // A piece of the model's reply as it streams in
+  | { type: 'token'; text: string };
+
+export type ProgressListener = (event: ProgressEvent) => void;
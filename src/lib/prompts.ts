@@ -0,0 +1,76 @@
+import type { StructuredOutputFormat } from './changelog';
+import type { ChangelogMode } from './config';
+import type { Preset } from './presets';
+
+export interface PromptMessages {
+  system: string;
+  user: string;
+}
+
+const PULL_REQUEST_INSTRUCTIONS = ' Each entry comes from one or more pull requests: list their numbers in pullRequests and their authors in authors.';
+const COMMIT_INSTRUCTIONS = ' List the short SHAs each entry comes from in commits, and the commit authors in authors when given.';
+
+// Below this many tokens the full instructions crowd out the diff itself
+const COMPACT_PROMPT_CONTEXT_WINDOW = 8192;
+
+export type PromptPreset = Pick<Preset, 'audience' | 'tone' | 'maxEntries' | 'summarySentences' | 'omitSections'>;
+
+function presetInstructions(preset: PromptPreset): string {
+  const omit = preset.omitSections.length > 0 ? ` Leave out ${preset.omitSections.join(', ')}.` : '';
+  return ` Tone: ${preset.tone}. At most ${preset.maxEntries} entries in total.${omit}`;
+}
+
+export function buildChangelogPrompt(
+  diffText: string,
+  preset: PromptPreset,
+  contextWindow?: number,
+  mode: ChangelogMode = 'commits'
+): PromptMessages {
+  const pullRequests = mode === 'pull-requests';
+  const source = pullRequests ? 'merged pull requests' : 'git changes';
+  const extra = pullRequests ? PULL_REQUEST_INSTRUCTIONS : COMMIT_INSTRUCTIONS;
+  const sentences = preset.summarySentences === 1 ? 'one sentence' : `up to ${preset.summarySentences} sentences`;
+
+  if (contextWindow !== undefined && contextWindow < COMPACT_PROMPT_CONTEXT_WINDOW) {
+    // Smaller local models follow short, explicit instructions more reliably
+    return {
+      system: `Turn ${source} into a changelog JSON object. summary: ${sentences} on what was done. sections: group changes by title, one short entry per change, breaking: true for breaking changes.${presetInstructions(preset)}${extra}`,
+      user: `${pullRequests ? 'Merged pull requests' : 'Git changes'}:\n\n${diffText}`
+    };
+  }
+
+  return {
+    system: `${preset.audience} Reply with a changelog JSON object. In summary, write ${sentences} about what the period was about. In sections, group the changes under the fitting titles and write one concise entry per change, merging related commits and leaving out trivial noise. Put a component or area in scope when there is an obvious one. Set breaking to true for changes that require users to act.${presetInstructions(preset)}${extra}`,
+    user: `Based on these ${source}, write the changelog:\n\n${diffText}`
+  };
+}
+
+// For providers that can't constrain their output, spell the schema out instead
+export function withOutputSchema(messages: PromptMessages, format: StructuredOutputFormat): PromptMessages {
+  return {
+    ...messages,
+    system: `${messages.system}\n\nReply with only a JSON object, no prose and no code fences, matching this JSON schema:\n${JSON.stringify(format.schema)}`
+  };
+}
+
+// Second attempt after a malformed reply, telling the model what was wrong
+export function withValidationFeedback(messages: PromptMessages, issues: string[]): PromptMessages {
+  return {
+    ...messages,
+    user: `${messages.user}\n\nYour previous reply was rejected: ${issues.slice(0, 10).join('; ')}. Reply again with only the corrected JSON object.`
+  };
+}
+
+export function buildCommitSummaryPrompt(commitText: string): PromptMessages {
+  return {
+    system: 'You summarize a single git commit for a changelog. Reply with one or two plain sentences describing what changed and why it matters. No preamble.',
+    user: commitText
+  };
+}
+
+export function buildComponentSummaryPrompt(component: string, summaries: string): PromptMessages {
+  return {
+    system: 'You condense commit summaries for one area of a codebase into a short list of the most important changes. Merge related items, keep commit SHAs and #issue references, drop trivial noise. Reply with plain bullet points only.',
+    user: `Area: ${component}\n\n${summaries}`
+  };
+}
@@ -0,0 +1,23 @@
+import OpenAI from 'openai';
+import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+
+// Shared by the OpenAI-compatible providers: hands each delta to `onToken` and
+// resolves with the whole reply, so callers can treat it like a plain completion
+export async function streamChatCompletion(
+  client: OpenAI,
+  params: ChatCompletionCreateParamsNonStreaming,
+  onToken: (text: string) => void
+): Promise<string> {
+  const stream = await client.chat.completions.create({ ...params, stream: true });
+  let text = '';
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+  }
+
+  return text;
+}
@@ -0,0 +1,90 @@
+import { loadConfig } from '../config';
+import logger from '../logger';
+import { ChangelogProvider, CompletionRequest, ProviderCapabilities, ProviderContext, RepoRef } from './types';
+
+const DEFAULT_INDEXED_REPOS = [
+  'facebook/react',
+  'microsoft/vscode',
+  'rstudio/marimo'
+];
+
+export class GreptileProvider implements ChangelogProvider {
+  readonly name = 'greptile';
+  readonly capabilities: ProviderCapabilities = {
+    contextWindow: 32000,
+    maxOutputTokens: 1024,
+    tokenizer: 'cl100k_base',
+    requiresIndexedRepo: true,
+    streaming: false,
+    structuredOutput: false
+  };
+
+  constructor(private context: ProviderContext) {}
+
+  isEnabled(): boolean {
+    return process.env.ENABLE_GREPTILE === 'true';
+  }
+
+  supportsRepo(repo: RepoRef): boolean {
+    const indexedRepos = loadConfig().greptile?.indexedRepos ?? DEFAULT_INDEXED_REPOS;
+    return indexedRepos.includes(`${repo.owner}/${repo.repo}`);
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    // The generator always passes the resolved branch; "main" only covers direct callers
+    const { owner, repo, branch = 'main' } = request.repo;
+
+    logger.info('Calling Greptile API', {
+      repo: `${owner}/${repo}`,
+      branch,
+      promptLength: request.user.length
+    });
+
+    try {
+      const greptileResponse = await fetch("https://api.greptile.com/v2/query", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${process.env.GREPTILE_API_KEY}`,
+          "X-Github-Token": this.context.githubToken,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          // Greptile has no system role, so instructions lead the user message
+          messages: [{
+            content: `${request.system}\n\n${request.user}`,
+            role: "user"
+          }],
+          repositories: [{
+            remote: "github",
+            repository: `${owner}/${repo}`,
+            branch
+          }]
+        })
+      });
+
+      if (!greptileResponse.ok) {
+        const errorText = await greptileResponse.text();
+        throw new Error(`Greptile API request failed: ${greptileResponse.status} ${errorText}`);
+      }
+
+      const data = await greptileResponse.json();
+
+      if (!data.message) {
+        throw new Error('No changelog content received from Greptile');
+      }
+
+      logger.info('Greptile response received', {
+        responseLength: data.message.length,
+        sourcesCount: data.sources?.length || 0
+      });
+
+      return data.message;
+    } catch (error) {
+      logger.error('Greptile API error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GramphibianConfig } from '../config';
+import { listProviders, resolveProvider } from './index';
+
+const config = vi.hoisted(() => ({ current: {} as GramphibianConfig }));
+
+vi.mock('../config', async importOriginal => ({
+  ...await importOriginal<typeof import('../config')>(),
+  loadConfig: () => config.current,
+  getRepoConfig: (fullRepoName: string) => config.current.repos?.[fullRepoName] ?? {}
+}));
+
+const repo = { owner: 'acme', repo: 'widgets' };
+const context = { githubToken: 'token' };
+const FLAGS = ['ENABLE_GREPTILE', 'ENABLE_OPENAI', 'ENABLE_LOCAL_LLM'];
+
+describe('resolveProvider', () => {
+  beforeEach(() => {
+    config.current = {};
+    for (const flag of FLAGS) {
+      vi.stubEnv(flag, '');
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('registers the built-in providers in priority order', () => {
+    expect(listProviders()).toEqual(['greptile', 'openai', 'local', 'none']);
+  });
+
+  it('picks the first enabled provider that supports the repo', () => {
+    vi.stubEnv('ENABLE_OPENAI', 'true');
+    vi.stubEnv('ENABLE_LOCAL_LLM', 'true');
+    expect(resolveProvider(repo, context).name).toBe('openai');
+  });
+
+  it('skips Greptile for repos it has not indexed', () => {
+    vi.stubEnv('ENABLE_GREPTILE', 'true');
+    vi.stubEnv('ENABLE_LOCAL_LLM', 'true');
+    config.current = { greptile: { indexedRepos: ['acme/other'] } };
+    expect(resolveProvider(repo, context).name).toBe('local');
+  });
+
+  it('never selects the "none" provider on its own', () => {
+    expect(() => resolveProvider(repo, context)).toThrow('No LLM provider enabled');
+  });
+
+  it('prefers the request, then the repo, then the default', () => {
+    vi.stubEnv('ENABLE_OPENAI', 'true');
+    vi.stubEnv('ENABLE_LOCAL_LLM', 'true');
+    config.current = { defaultProvider: 'openai', repos: { 'acme/widgets': { provider: 'local' } } };
+
+    expect(resolveProvider(repo, context, { requested: 'none' }).name).toBe('none');
+    expect(resolveProvider(repo, context).name).toBe('local');
+    expect(resolveProvider({ owner: 'acme', repo: 'other' }, context).name).toBe('openai');
+  });
+
+  it('refuses a configured provider that is not enabled', () => {
+    config.current = { defaultProvider: 'openai' };
+    expect(() => resolveProvider(repo, context)).toThrow('LLM provider "openai" is not enabled');
+  });
+
+  it('names the available providers when asked for an unknown one', () => {
+    expect(() => resolveProvider(repo, context, { requested: 'gpt' }))
+      .toThrow('Unknown LLM provider "gpt". Available providers: greptile, openai, local, none');
+  });
+});
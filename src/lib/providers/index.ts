@@ -0,0 +1,75 @@
+import { getRepoConfig, loadConfig } from '../config';
+import logger from '../logger';
+import { GreptileProvider } from './greptile';
+import { LocalLLMProvider } from './local';
+import { ConventionalCommitsProvider } from './none';
+import { OpenAIProvider } from './openai';
+import { ChangelogProvider, ProviderContext, ProviderFactory, RepoRef } from './types';
+
+export type { ChangelogProvider, CompletionRequest, ProviderCapabilities, ProviderContext, RepoRef } from './types';
+
+interface RegisterOptions {
+  // Opt out of automatic selection, so the provider is only used when asked for by name
+  autoSelect?: boolean;
+}
+
+// Registration order doubles as the automatic selection priority
+const providerFactories = new Map<string, ProviderFactory>();
+const explicitOnly = new Set<string>();
+
+export function registerProvider(name: string, factory: ProviderFactory, options: RegisterOptions = {}): void {
+  providerFactories.set(name, factory);
+  if (options.autoSelect === false) {
+    explicitOnly.add(name);
+  }
+}
+
+export function listProviders(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+export function createProvider(name: string, context: ProviderContext): ChangelogProvider {
+  const factory = providerFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${name}". Available providers: ${listProviders().join(', ')}`);
+  }
+  return factory(context);
+}
+
+interface ResolveOptions {
+  // Explicit choice from the incoming request, takes precedence over configuration
+  requested?: string;
+}
+
+export function resolveProvider(repo: RepoRef, context: ProviderContext, options: ResolveOptions = {}): ChangelogProvider {
+  const fullRepoName = `${repo.owner}/${repo.repo}`;
+  const configured = options.requested || getRepoConfig(fullRepoName).provider || loadConfig().defaultProvider;
+
+  if (configured) {
+    const provider = createProvider(configured, context);
+    if (!provider.isEnabled()) {
+      throw new Error(`LLM provider "${configured}" is not enabled`);
+    }
+    if (!provider.supportsRepo(repo)) {
+      throw new Error(`LLM provider "${configured}" does not support ${fullRepoName}`);
+    }
+    logger.info('Using configured LLM provider', { provider: configured, repo: fullRepoName });
+    return provider;
+  }
+
+  for (const name of listProviders().filter(name => !explicitOnly.has(name))) {
+    const provider = createProvider(name, context);
+    if (provider.isEnabled() && provider.supportsRepo(repo)) {
+      logger.info('Selected LLM provider', { provider: name, repo: fullRepoName });
+      return provider;
+    }
+  }
+
+  throw new Error('No LLM provider enabled. Set ENABLE_GREPTILE=true, ENABLE_OPENAI=true or ENABLE_LOCAL_LLM=true, or use the "none" provider');
+}
+
+registerProvider('greptile', context => new GreptileProvider(context));
+registerProvider('openai', () => new OpenAIProvider());
+registerProvider('local', () => new LocalLLMProvider());
+// Always available, but a changelog without an LLM has to be asked for
+registerProvider('none', () => new ConventionalCommitsProvider(), { autoSelect: false });
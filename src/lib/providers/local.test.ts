@@ -0,0 +1,70 @@
+import type http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createStubLLMServer } from '../../../scripts/stub-llm-server';
+import { CHANGELOG_OUTPUT_FORMAT, parseChangelog } from '../changelog';
+import { LocalLLMProvider } from './local';
+
+const repo = { owner: 'acme', repo: 'widgets' };
+const prompt = [
+  'Commit: 1a2b3c4',
+  'File: src/index.ts',
+  'Commit: 5d6e7f8',
+  'File: src/index.ts',
+  'File: README.md'
+].join('\n');
+
+describe('LocalLLMProvider', () => {
+  let server: http.Server;
+
+  beforeEach(async () => {
+    server = createStubLLMServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    vi.stubEnv('LOCAL_LLM_BASE_URL', `http://127.0.0.1:${port}/v1`);
+    vi.stubEnv('LOCAL_LLM_MODEL', 'stub-model');
+    vi.stubEnv('LOCAL_LLM_STRUCTURED_OUTPUT', '');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('is only enabled when asked for', () => {
+    vi.stubEnv('ENABLE_LOCAL_LLM', '');
+    expect(new LocalLLMProvider().isEnabled()).toBe(false);
+    vi.stubEnv('ENABLE_LOCAL_LLM', 'true');
+    expect(new LocalLLMProvider().isEnabled()).toBe(true);
+  });
+
+  it('returns the same reply for the same prompt', async () => {
+    const provider = new LocalLLMProvider();
+    const first = await provider.complete({ system: 'Write a status email', user: prompt, repo });
+
+    expect(first).toContain('Worked through 2 commits touching 2 files');
+    expect(await provider.complete({ system: 'Write a status email', user: prompt, repo })).toBe(first);
+  });
+
+  it('streams the same reply token by token', async () => {
+    const provider = new LocalLLMProvider();
+    const tokens: string[] = [];
+    const streamed = await provider.complete({ system: 'Write a status email', user: prompt, repo, onToken: token => tokens.push(token) });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(streamed);
+    expect(streamed).toBe(await provider.complete({ system: 'Write a status email', user: prompt, repo }));
+  });
+
+  it('asks for the changelog schema and gets a valid changelog back', async () => {
+    const reply = await new LocalLLMProvider().complete({
+      system: 'Write a changelog',
+      user: prompt,
+      repo,
+      responseFormat: CHANGELOG_OUTPUT_FORMAT
+    });
+
+    const changelog = parseChangelog(reply);
+    expect(changelog.sections[0].entries.map(entry => entry.commits)).toEqual([['1a2b3c4'], ['5d6e7f8']]);
+  });
+});
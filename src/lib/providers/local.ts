@@ -0,0 +1,76 @@
+import OpenAI from 'openai';
+import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import logger from '../logger';
+import { streamChatCompletion } from './chat-stream';
+import { ChangelogProvider, CompletionRequest, ProviderCapabilities } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Any server speaking the OpenAI chat completions API: Ollama, llama.cpp, vLLM...
+export class LocalLLMProvider implements ChangelogProvider {
+  readonly name = 'local';
+  readonly capabilities: ProviderCapabilities = {
+    contextWindow: parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '', 10) || DEFAULT_CONTEXT_WINDOW,
+    // Room for a JSON changelog; prose summaries stop well before this
+    maxOutputTokens: 1024,
+    // Local models bring their own vocabularies; cl100k is a close enough stand-in for budgeting
+    tokenizer: 'cl100k_base',
+    requiresIndexedRepo: false,
+    streaming: true,
+    // Ollama, llama.cpp and vLLM all accept json_schema; older servers can opt out
+    structuredOutput: process.env.LOCAL_LLM_STRUCTURED_OUTPUT !== 'false'
+  };
+
+  readonly model = process.env.LOCAL_LLM_MODEL || DEFAULT_MODEL;
+  private client: OpenAI | null = null;
+  private baseURL = process.env.LOCAL_LLM_BASE_URL || DEFAULT_BASE_URL;
+
+  isEnabled(): boolean {
+    return process.env.ENABLE_LOCAL_LLM === 'true';
+  }
+
+  supportsRepo(): boolean {
+    return true;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        baseURL: this.baseURL,
+        // Most local servers ignore the key, but the client refuses to start without one
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local'
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    logger.info('Generating changelog with local LLM', {
+      baseURL: this.baseURL,
+      model: this.model,
+      contextWindow: this.capabilities.contextWindow
+    });
+
+    const params: ChatCompletionCreateParamsNonStreaming = {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.user }
+      ],
+      temperature: request.temperature ?? 0.7,
+      max_tokens: this.capabilities.maxOutputTokens,
+      ...(request.responseFormat && this.capabilities.structuredOutput
+        ? { response_format: { type: 'json_schema', json_schema: { ...request.responseFormat, strict: true } } }
+        : {})
+    };
+
+    if (request.onToken) {
+      return (await streamChatCompletion(this.getClient(), params, request.onToken)) || 'No changelog generated';
+    }
+
+    const completion = await this.getClient().chat.completions.create(params);
+    return completion.choices[0]?.message.content || 'No changelog generated';
+  }
+}
@@ -0,0 +1,43 @@
+import { groupChanges, renderGroupedChanges, toChangelog } from '../conventional-commits';
+import logger from '../logger';
+import { ChangelogProvider, CompletionRequest, ProviderCapabilities } from './types';
+
+// No model at all: groups Conventional Commits by type, so output is
+// deterministic, free and works offline
+export class ConventionalCommitsProvider implements ChangelogProvider {
+  readonly name = 'none';
+  readonly capabilities: ProviderCapabilities = {
+    // Nothing is sent anywhere, so nothing ever needs summarizing
+    contextWindow: Number.MAX_SAFE_INTEGER,
+    maxOutputTokens: 0,
+    tokenizer: 'approximate',
+    requiresIndexedRepo: false,
+    streaming: false,
+    // Builds the changelog model directly
+    structuredOutput: true
+  };
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  supportsRepo(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    if (!request.changes) {
+      throw new Error('The "none" provider needs the commit or pull request list, not a prompt');
+    }
+
+    logger.info('Rendering Conventional Commits changelog', {
+      repo: `${request.repo.owner}/${request.repo.repo}`,
+      changes: request.changes.length
+    });
+
+    if (request.responseFormat) {
+      return JSON.stringify(toChangelog(request.changes));
+    }
+    return renderGroupedChanges(groupChanges(request.changes)) || 'No changes in this range.';
+  }
+}
@@ -0,0 +1,96 @@
+import OpenAI from 'openai';
+import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import logger from '../logger';
+import { streamChatCompletion } from './chat-stream';
+import { TokenizerName } from '../tokens';
+import { ChangelogProvider, CompletionRequest, ProviderCapabilities } from './types';
+
+interface ModelLimits {
+  contextWindow: number;
+  tokenizer: TokenizerName;
+  // Supports response_format json_schema
+  structuredOutput: boolean;
+}
+
+// Matched by prefix, longest first, so "gpt-4o-mini" wins over "gpt-4"
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gpt-4o-mini': { contextWindow: 128000, tokenizer: 'o200k_base', structuredOutput: true },
+  'gpt-4o': { contextWindow: 128000, tokenizer: 'o200k_base', structuredOutput: true },
+  'gpt-4-turbo': { contextWindow: 128000, tokenizer: 'cl100k_base', structuredOutput: false },
+  'gpt-4-32k': { contextWindow: 32768, tokenizer: 'cl100k_base', structuredOutput: false },
+  'gpt-4': { contextWindow: 8192, tokenizer: 'cl100k_base', structuredOutput: false },
+  'gpt-3.5-turbo': { contextWindow: 16385, tokenizer: 'cl100k_base', structuredOutput: false }
+};
+
+function getModelLimits(model: string): ModelLimits {
+  const prefix = Object.keys(MODEL_LIMITS)
+    .sort((a, b) => b.length - a.length)
+    .find(candidate => model.startsWith(candidate));
+  const limits = prefix ? MODEL_LIMITS[prefix] : MODEL_LIMITS['gpt-4'];
+
+  return {
+    ...limits,
+    contextWindow: parseInt(process.env.OPENAI_CONTEXT_WINDOW || '', 10) || limits.contextWindow
+  };
+}
+
+export class OpenAIProvider implements ChangelogProvider {
+  readonly name = 'openai';
+  readonly capabilities: ProviderCapabilities;
+
+  readonly model = process.env.OPENAI_MODEL || 'gpt-4';
+  private client: OpenAI | null = null;
+
+  constructor() {
+    const limits = getModelLimits(this.model);
+    this.capabilities = {
+      contextWindow: limits.contextWindow,
+      maxOutputTokens: 1024,
+      tokenizer: limits.tokenizer,
+      requiresIndexedRepo: false,
+      streaming: true,
+      structuredOutput: limits.structuredOutput
+    };
+  }
+
+  isEnabled(): boolean {
+    return process.env.ENABLE_OPENAI === 'true';
+  }
+
+  supportsRepo(): boolean {
+    return true;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    logger.info('Generating changelog with OpenAI', { model: this.model });
+
+    const params: ChatCompletionCreateParamsNonStreaming = {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.user }
+      ],
+      temperature: request.temperature ?? 0.7,
+      max_tokens: this.capabilities.maxOutputTokens,
+      ...(request.responseFormat && this.capabilities.structuredOutput
+        ? { response_format: { type: 'json_schema', json_schema: { ...request.responseFormat, strict: true } } }
+        : {})
+    };
+
+    if (request.onToken) {
+      return (await streamChatCompletion(this.getClient(), params, request.onToken)) || 'No changelog generated';
+    }
+
+    const completion = await this.getClient().chat.completions.create(params);
+    return completion.choices[0].message.content || 'No changelog generated';
+  }
+}
@@ -0,0 +1,54 @@
+import type { StructuredOutputFormat } from '../changelog';
+import type { ChangeEntry } from '../conventional-commits';
+import { TokenizerName } from '../tokens';
+
+export interface RepoRef {
+  owner: string;
+  repo: string;
+  // Branch being described, for providers that read repository context
+  branch?: string;
+}
+
+export interface ProviderCapabilities {
+  // Maximum number of tokens the model accepts (prompt + completion)
+  contextWindow: number;
+  // Tokens to keep free for the model's reply
+  maxOutputTokens: number;
+  // Vocabulary used to measure prompts against the context window
+  tokenizer: TokenizerName;
+  // Only usable for repositories the backend has already indexed
+  requiresIndexedRepo: boolean;
+  // Can emit the completion incrementally
+  streaming: boolean;
+  // Can be held to a JSON schema by the backend itself rather than by the prompt
+  structuredOutput: boolean;
+}
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  repo: RepoRef;
+  temperature?: number;
+  // The changes behind the prompt, for providers that work from structure instead of prose
+  changes?: ChangeEntry[];
+  // Asks for a JSON reply matching this schema
+  responseFormat?: StructuredOutputFormat;
+  // Receives the reply as it streams in, from providers with `streaming`; others ignore it
+  onToken?: (text: string) => void;
+}
+
+export interface ProviderContext {
+  githubToken: string;
+}
+
+export interface ChangelogProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  // Model the provider talks to, for providers that can be pointed at different ones
+  readonly model?: string;
+  isEnabled(): boolean;
+  supportsRepo(repo: RepoRef): boolean;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export type ProviderFactory = (context: ProviderContext) => ChangelogProvider;
@@ -0,0 +1,66 @@
+import {
+  GRAMAPHONE_PUBLISH,
+  GRAMAPHONE_UNPUBLISH,
+  GRAMAPHONE_UPDATE,
+  GramaphonePublication,
+  publicationKey,
+  sha256
+} from './gramaphone';
+import { getOutbox } from './outbox/outbox';
+import type { OutboxMessage } from './outbox/outbox-store';
+
+export const PUBLICATION_KINDS = [GRAMAPHONE_PUBLISH, GRAMAPHONE_UPDATE, GRAMAPHONE_UNPUBLISH];
+
+// Publishes through the outbox, so a Gramaphone outage means a later retry
+// rather than a lost changelog. Resolves after the first attempt.
+export function publishToGramaphone(publication: GramaphonePublication, historyId?: string): Promise<OutboxMessage> {
+  return getOutbox().enqueue({
+    kind: GRAMAPHONE_PUBLISH,
+    idempotencyKey: publicationKey(publication),
+    payload: { ...publication },
+    historyId
+  });
+}
+
+// The Gramaphone entry a delivered publish created
+function entryIdOf(publication: OutboxMessage): string {
+  const entryId = publication.result?.id;
+  if (publication.kind !== GRAMAPHONE_PUBLISH || publication.status !== 'delivered' || typeof entryId !== 'string') {
+    throw new Error('Only a completed publish can be updated or unpublished');
+  }
+  return entryId;
+}
+
+// Replaces the published entry's content. The key changes with every update
+// that lands, so going back to earlier content is sent too.
+export function updatePublication(publication: OutboxMessage, content: string): Promise<OutboxMessage> {
+  const entryId = entryIdOf(publication);
+  const { repoUrl, period } = publication.payload as unknown as GramaphonePublication;
+  return getOutbox().enqueue({
+    kind: GRAMAPHONE_UPDATE,
+    idempotencyKey: `gramaphone-update:${entryId}:${sha256(`${publication.updatedAt}\n${content}`)}`,
+    payload: { publicationId: publication.id, entryId, repoUrl, period, content },
+    historyId: publication.historyId
+  });
+}
+
+export function unpublish(publication: OutboxMessage): Promise<OutboxMessage> {
+  const entryId = entryIdOf(publication);
+  return getOutbox().enqueue({
+    kind: GRAMAPHONE_UNPUBLISH,
+    idempotencyKey: `gramaphone-unpublish:${entryId}`,
+    payload: { publicationId: publication.id, entryId },
+    historyId: publication.historyId
+  });
+}
+
+// Publishes, updates and unpublishes, oldest first
+export async function listPublications(historyId?: string): Promise<OutboxMessage[]> {
+  const messages = await getOutbox().list({ historyId });
+  return messages.filter(message => PUBLICATION_KINDS.includes(message.kind));
+}
+
+// HTTP status for a publish: done, waiting for a retry, or out of attempts
+export function publicationStatus(message: OutboxMessage): number {
+  return message.status === 'delivered' ? 200 : message.status === 'pending' ? 202 : 502;
+}
@@ -0,0 +1,187 @@
+import { createHmac } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GramphibianConfig } from './config';
+import type { GenerationResponse } from './generation-response';
+import type { ChangelogResult } from './github-diff-generator';
+import { GITHUB_EVENT_HEADER, GITHUB_SIGNATURE_HEADER, RELEASE_BODY_UPDATE, ReleaseTrigger } from './github/webhook';
+import { JobQueue } from './jobs/job-queue';
+import { isFinished, JobStore } from './jobs/job-store';
+import { handleGitHubWebhook, runReleaseNotes } from './release-notes';
+
+const config = vi.hoisted(() => ({ current: {} as GramphibianConfig }));
+const outbox = vi.hoisted(() => ({ enqueue: vi.fn() }));
+const generateAndRecord = vi.hoisted(() => vi.fn());
+
+vi.mock('./config', async importOriginal => ({
+  ...await importOriginal<typeof import('./config')>(),
+  loadConfig: () => config.current
+}));
+
+vi.mock('./outbox/outbox', () => ({
+  getOutbox: () => outbox
+}));
+
+vi.mock('./run-generation', async importOriginal => ({
+  ...await importOriginal<typeof import('./run-generation')>(),
+  generateAndRecord
+}));
+
+const FIXTURES = path.resolve(__dirname, '../../scripts/fixtures/github');
+const SECRET = 'webhook-secret';
+
+// A delivery as GitHub sends it, from one of the recorded fixtures
+function delivery(event: string, fixture: string, secret = SECRET) {
+  const body = JSON.stringify(JSON.parse(fs.readFileSync(path.join(FIXTURES, `${fixture}.json`), 'utf8')));
+  const headers = new Headers({
+    [GITHUB_EVENT_HEADER]: event,
+    [GITHUB_SIGNATURE_HEADER]: `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+  });
+  return { body, headers };
+}
+
+describe('handleGitHubWebhook', () => {
+  let dataDir: string;
+  let queue: JobQueue;
+  let runs: number;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gramphibian-release-notes-'));
+    vi.stubEnv('GRAMPHIBIAN_DATA_DIR', dataDir);
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', SECRET);
+    config.current = { github: { webhook: { provider: 'openai', preset: 'release-notes' } } };
+    runs = 0;
+    // Only what was queued matters here, not the generation itself
+    queue = new JobQueue({
+      store: new JobStore(),
+      runner: async () => {
+        runs++;
+        return { changelog: '' } as GenerationResponse;
+      }
+    });
+  });
+
+  afterEach(async () => {
+    // Queued jobs run in the background; let them finish before their directory goes
+    await vi.waitFor(async () => expect((await new JobStore().list()).every(isFinished)).toBe(true));
+    vi.unstubAllEnvs();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('queues a job for the notes of a published release', async () => {
+    const { body, headers } = delivery('release', 'release.published');
+    const response = await handleGitHubWebhook(body, headers, queue);
+
+    expect(response).toMatchObject({ status: 202, body: { repo: 'octo-org/widgets', tag: 'v1.4.0' } });
+    const job = await queue.get(response.body.id as string);
+    expect(job?.request).toEqual({
+      repoUrl: 'https://github.com/octo-org/widgets',
+      releaseTag: 'v1.4.0',
+      provider: 'openai',
+      preset: 'release-notes'
+    });
+    expect(job?.release).toMatchObject({ repo: 'octo-org/widgets', tag: 'v1.4.0', releaseId: 158406217 });
+  });
+
+  it('queues notes up to the target commit for a draft release', async () => {
+    const { body, headers } = delivery('release', 'release.created');
+    const response = await handleGitHubWebhook(body, headers, queue);
+
+    expect(response.status).toBe(202);
+    const job = await queue.get(response.body.id as string);
+    expect(job?.request).toMatchObject({ sinceLatestRelease: true, headRef: 'main' });
+    expect(job?.release).toMatchObject({ tag: 'v1.4.0', draft: true, releaseId: 158406217 });
+  });
+
+  it('generates once for a release, its tag and redeliveries', async () => {
+    const responses = await Promise.all([
+      handleGitHubWebhook(delivery('release', 'release.created').body, delivery('release', 'release.created').headers, queue),
+      handleGitHubWebhook(delivery('push', 'push.tag').body, delivery('push', 'push.tag').headers, queue),
+      handleGitHubWebhook(delivery('release', 'release.published').body, delivery('release', 'release.published').headers, queue)
+    ]);
+
+    expect(new Set(responses.map(response => response.body.id)).size).toBe(1);
+    await vi.waitFor(async () => expect((await queue.get(responses[0].body.id as string))?.status).toBe('succeeded'));
+    expect(runs).toBe(1);
+  });
+
+  it('rejects deliveries without a valid signature', async () => {
+    const { body, headers } = delivery('release', 'release.published', 'wrong-secret');
+    expect(await handleGitHubWebhook(body, headers, queue)).toMatchObject({ status: 401 });
+
+    headers.delete(GITHUB_SIGNATURE_HEADER);
+    expect(await handleGitHubWebhook(body, headers, queue)).toMatchObject({ status: 401 });
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('refuses every delivery while no secret is configured', async () => {
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', '');
+    const { body, headers } = delivery('release', 'release.published');
+    expect(await handleGitHubWebhook(body, headers, queue)).toMatchObject({ status: 500 });
+  });
+
+  it('acknowledges pings and ignored events without queueing anything', async () => {
+    const ping = delivery('ping', 'ping');
+    expect(await handleGitHubWebhook(ping.body, ping.headers, queue)).toEqual({ status: 200, body: { message: 'pong' } });
+
+    const branch = delivery('push', 'push.branch');
+    expect(await handleGitHubWebhook(branch.body, branch.headers, queue))
+      .toEqual({ status: 200, body: { ignored: 'Push to a branch' } });
+
+    config.current = { github: { webhook: { repos: ['acme/widgets'] } } };
+    const release = delivery('release', 'release.published');
+    expect(await handleGitHubWebhook(release.body, release.headers, queue))
+      .toEqual({ status: 200, body: { ignored: 'octo-org/widgets is not set up for release notes' } });
+
+    expect(await queue.list()).toEqual([]);
+  });
+});
+
+describe('runReleaseNotes', () => {
+  const trigger: ReleaseTrigger = {
+    repo: 'octo-org/widgets',
+    repoUrl: 'https://github.com/octo-org/widgets',
+    tag: 'v1.4.0',
+    releaseId: 158406217,
+    event: 'release'
+  };
+  const request = {
+    repoUrl: trigger.repoUrl,
+    range: { type: 'release' as const, tag: trigger.tag },
+    options: {}
+  };
+  const result = {
+    content: '## v1.4.0',
+    format: 'markdown',
+    renders: { markdown: '## v1.4.0', 'github-release': '## What changed' },
+    period: { start: new Date('2024-06-01'), end: new Date('2024-06-10') },
+    refs: { baseRef: 'v1.3.0', headRef: 'v1.4.0' },
+    sources: []
+  } as unknown as ChangelogResult;
+
+  beforeEach(() => {
+    outbox.enqueue.mockReset();
+    generateAndRecord.mockReset().mockResolvedValue({ result, historyId: 'history-1' });
+  });
+
+  it('records the notes as a draft and queues the write to the release', async () => {
+    config.current = { github: { webhook: { updateRelease: true } } };
+    const response = await runReleaseNotes(request, trigger, {});
+
+    expect(generateAndRecord).toHaveBeenCalledWith(request, {}, { draft: true });
+    expect(response).toMatchObject({ historyId: 'history-1', changelog: '## v1.4.0' });
+    expect(outbox.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+      kind: RELEASE_BODY_UPDATE,
+      payload: { repoUrl: trigger.repoUrl, tag: 'v1.4.0', releaseId: 158406217, body: '## What changed' },
+      historyId: 'history-1'
+    }), { background: true });
+  });
+
+  it('leaves the release alone unless asked to update it', async () => {
+    config.current = {};
+    await runReleaseNotes(request, trigger, {});
+    expect(outbox.enqueue).not.toHaveBeenCalled();
+  });
+});
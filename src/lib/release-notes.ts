@@ -0,0 +1,165 @@
+import { loadConfig } from './config';
+import type { GenerationRequest } from './generation-request';
+import { GenerationResponse, toGenerationResponse } from './generation-response';
+import { GitHubDiffGenerator } from './github-diff-generator';
+import {
+  GITHUB_DELIVERY_HEADER,
+  GITHUB_EVENT_HEADER,
+  GITHUB_SIGNATURE_HEADER,
+  parseGitHubEvent,
+  RELEASE_BODY_UPDATE,
+  ReleaseBodyUpdate,
+  ReleaseTrigger,
+  verifyGitHubSignature
+} from './github/webhook';
+import { sha256 } from './gramaphone';
+import type { JobQueue } from './jobs/job-queue';
+import type { Job } from './jobs/job-store';
+import logger from './logger';
+import { getOutbox } from './outbox/outbox';
+import type { OutboxMessage } from './outbox/outbox-store';
+import { GenerationHooks, generateAndRecord, MissingGitHubTokenError } from './run-generation';
+
+// What the webhook endpoint answers GitHub with
+export interface GitHubWebhookResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+function getGenerator(): GitHubDiffGenerator {
+  const githubToken = process.env.GITHUB_PAT;
+  if (!githubToken) {
+    throw new MissingGitHubTokenError();
+  }
+  return new GitHubDiffGenerator(githubToken);
+}
+
+// Whether the webhook settings let this repo's tags through
+export function acceptsRepo(repo: string): boolean {
+  const repos = loadConfig().github?.webhook?.repos;
+  return !repos || repos.includes(repo);
+}
+
+// The generation request for a new tag's notes, in the webhook's settings
+function releaseNotesRequest(trigger: ReleaseTrigger): Record<string, unknown> {
+  const settings = loadConfig().github?.webhook;
+  const range = trigger.draft
+    ? { sinceLatestRelease: true, headRef: trigger.target }
+    : { releaseTag: trigger.tag };
+  return {
+    repoUrl: trigger.repoUrl,
+    ...range,
+    provider: settings?.provider,
+    preset: settings?.preset,
+    mode: settings?.mode
+  };
+}
+
+// Queues the notes for a new tag and returns without waiting for them. A
+// release and its tag push, or GitHub redelivering either, share one job.
+export function queueReleaseNotes(trigger: ReleaseTrigger, queue: JobQueue): Promise<Job> {
+  return queue.enqueue(releaseNotesRequest(trigger), {
+    key: `release-notes:${trigger.repo}:${trigger.tag}`,
+    release: trigger
+  });
+}
+
+// Generations and write-backs, each newest first
+export async function listReleaseNotes(queue: JobQueue): Promise<{ jobs: Record<string, unknown>[]; updates: OutboxMessage[] }> {
+  const jobs = (await queue.list())
+    .filter(job => job.release)
+    .reverse()
+    .map(({ result, ...job }) => ({ ...job, historyId: result?.historyId }));
+  const updates = await getOutbox().list({ kind: RELEASE_BODY_UPDATE });
+  return { jobs, updates: updates.reverse() };
+}
+
+// Checks, parses and queues one delivery. GitHub gives up on a delivery after
+// ten seconds, so generation is only queued here.
+export async function handleGitHubWebhook(body: string, headers: Headers, queue: JobQueue): Promise<GitHubWebhookResponse> {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return { status: 500, body: { message: 'GitHub webhook secret not configured' } };
+  }
+
+  // The signature covers the exact bytes GitHub sent
+  if (!verifyGitHubSignature(body, headers.get(GITHUB_SIGNATURE_HEADER), secret)) {
+    return { status: 401, body: { message: `Missing or invalid ${GITHUB_SIGNATURE_HEADER} header` } };
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return { status: 400, body: { message: 'Body must be JSON; set the webhook content type to application/json' } };
+  }
+
+  const outcome = parseGitHubEvent(headers.get(GITHUB_EVENT_HEADER), payload);
+  if (outcome.type === 'ping') {
+    return { status: 200, body: { message: 'pong' } };
+  }
+  if (outcome.type === 'ignored') {
+    return { status: 200, body: { ignored: outcome.reason } };
+  }
+
+  const { trigger } = outcome;
+  if (!acceptsRepo(trigger.repo)) {
+    return { status: 200, body: { ignored: `${trigger.repo} is not set up for release notes` } };
+  }
+
+  try {
+    const job = await queueReleaseNotes(trigger, queue);
+    logger.info('Queued release notes from GitHub webhook', {
+      delivery: headers.get(GITHUB_DELIVERY_HEADER),
+      repo: trigger.repo,
+      tag: trigger.tag,
+      id: job.id
+    });
+    return { status: 202, body: { id: job.id, status: job.status, repo: trigger.repo, tag: trigger.tag } };
+  } catch (error) {
+    return { status: 500, body: { message: error instanceof Error ? error.message : 'Failed to queue release notes' } };
+  }
+}
+
+// Runs a release notes job: generates into the history as a draft, then hands
+// the notes to the outbox for writing back, so a failed write never generates again
+export async function runReleaseNotes(request: GenerationRequest, trigger: ReleaseTrigger, hooks: GenerationHooks): Promise<GenerationResponse> {
+  const { result, historyId } = await generateAndRecord(request, hooks, { draft: true });
+  logger.info('Generated release notes', { repo: trigger.repo, tag: trigger.tag, refs: result.refs, historyId });
+
+  if (loadConfig().github?.webhook?.updateRelease) {
+    const update: ReleaseBodyUpdate = {
+      repoUrl: trigger.repoUrl,
+      tag: trigger.tag,
+      releaseId: trigger.releaseId,
+      body: result.renders['github-release']
+    };
+    try {
+      await getOutbox().enqueue({
+        kind: RELEASE_BODY_UPDATE,
+        idempotencyKey: `release-body:${trigger.repo}:${trigger.tag}:${sha256(update.body)}`,
+        payload: { ...update },
+        historyId
+      }, { background: true });
+    } catch (error) {
+      logger.warn('Failed to queue release body update', {
+        repo: trigger.repo,
+        tag: trigger.tag,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return toGenerationResponse(result, request.repoUrl, historyId);
+}
+
+// A tag is often pushed before its release is created, so a missing release is
+// retried like any other failure until it shows up
+export async function writeReleaseBody(message: OutboxMessage): Promise<Record<string, unknown>> {
+  const { repoUrl, tag, releaseId, body } = message.payload as unknown as ReleaseBodyUpdate;
+  const id = await getGenerator().setReleaseBody(repoUrl, tag, body, releaseId);
+  if (id === undefined) {
+    throw new Error(`No published release for ${tag} yet`);
+  }
+  return { releaseId: id };
+}
@@ -0,0 +1,39 @@
+import { Changelog, ChangelogEntry } from '../changelog';
+import { collectBreaking, formatPeriod, RenderContext } from './shared';
+
+// Plain text has no styling, so headings are capitalized and underlined
+function heading(title: string): string {
+  return `${title.toUpperCase()}\n${'-'.repeat(title.length)}`;
+}
+
+function formatEntry(entry: ChangelogEntry): string {
+  const scope = entry.scope ? `${entry.scope}: ` : '';
+  const references = [
+    ...entry.pullRequests.map(number => `#${number}`),
+    ...entry.commits.map(sha => sha.substring(0, 7))
+  ];
+  const suffix = references.length > 0 ? ` (${references.join(', ')})` : '';
+  const authors = entry.authors.length > 0 ? ` - ${entry.authors.join(', ')}` : '';
+  return `  * ${scope}${entry.summary}${suffix}${authors}`;
+}
+
+// Body of a plain-text email; no markup survives every mail client
+export function renderEmail(changelog: Changelog, context: RenderContext): string {
+  const period = formatPeriod(context);
+  const blocks = [`Changes in ${context.owner}/${context.repo}${period ? `, ${period}` : ''}`];
+
+  (context.notes ?? []).forEach(note => blocks.push(`Note: ${note}`));
+  if (changelog.summary) {
+    blocks.push(changelog.summary);
+  }
+
+  const breaking = collectBreaking(changelog);
+  if (breaking.length > 0) {
+    blocks.push([heading('Breaking Changes'), ...breaking.map(formatEntry)].join('\n'));
+  }
+  changelog.sections.forEach(section => {
+    blocks.push([heading(section.title), ...section.entries.map(formatEntry)].join('\n'));
+  });
+
+  return blocks.join('\n\n');
+}
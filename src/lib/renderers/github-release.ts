@@ -0,0 +1,42 @@
+import { Changelog, ChangelogEntry } from '../changelog';
+import { collectBreaking, compareUrl, RenderContext } from './shared';
+
+// GitHub autolinks "#123" and commit SHAs in release bodies, so references stay bare
+function formatItem(entry: ChangelogEntry): string {
+  const scope = entry.scope ? `**${entry.scope}:** ` : '';
+  const authors = entry.authors.length > 0 ? ` by ${entry.authors.join(', ')}` : '';
+  const references = [
+    ...entry.pullRequests.map(number => `#${number}`),
+    ...entry.commits.map(sha => sha.substring(0, 7))
+  ];
+  const where = references.length > 0 ? ` in ${references.join(', ')}` : '';
+  return `* ${scope}${entry.summary}${authors}${where}`;
+}
+
+// Laid out like GitHub's generated release notes
+export function renderGitHubRelease(changelog: Changelog, context: RenderContext): string {
+  const blocks: string[] = [];
+
+  if (changelog.summary) {
+    blocks.push(changelog.summary);
+  }
+
+  const breaking = collectBreaking(changelog);
+  if (breaking.length > 0) {
+    blocks.push(['## Breaking Changes', ...breaking.map(formatItem)].join('\n'));
+  }
+
+  if (changelog.sections.length > 0) {
+    blocks.push('## What\'s Changed');
+    changelog.sections.forEach(section => {
+      blocks.push([`### ${section.title}`, ...section.entries.map(formatItem)].join('\n'));
+    });
+  }
+
+  const compare = compareUrl(context);
+  if (compare) {
+    blocks.push(`**Full Changelog**: ${compare}`);
+  }
+
+  return blocks.join('\n\n');
+}
@@ -0,0 +1,64 @@
+import { Changelog, ChangelogEntry } from '../changelog';
+import { collectBreaking, repoBaseUrl, RenderContext, replaceReferences } from './shared';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&#x27;'
+};
+
+// Everything that came from the model or from commit messages is text, never markup
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, character => HTML_ESCAPES[character]);
+}
+
+function link(href: string, text: string): string {
+  return `<a href="${escapeHtml(href)}">${escapeHtml(text)}</a>`;
+}
+
+function formatText(text: string, context: RenderContext): string {
+  return replaceReferences(text, escapeHtml, number =>
+    link(`${repoBaseUrl(context)}/issues/${number}`, `#${number}`)
+  );
+}
+
+function formatEntry(entry: ChangelogEntry, context: RenderContext): string {
+  const base = repoBaseUrl(context);
+  const scope = entry.scope ? `<strong>${escapeHtml(entry.scope)}:</strong> ` : '';
+  const links = [
+    ...entry.pullRequests.map(number => link(`${base}/pull/${number}`, `#${number}`)),
+    ...entry.commits.map(sha => link(`${base}/commit/${sha}`, sha.substring(0, 7)))
+  ];
+  const references = links.length > 0 ? ` (${links.join(', ')})` : '';
+  const authors = entry.authors.length > 0 ? ` by ${escapeHtml(entry.authors.join(', '))}` : '';
+  return `<li>${scope}${formatText(entry.summary, context)}${references}${authors}</li>`;
+}
+
+function formatList(title: string, entries: ChangelogEntry[], context: RenderContext): string {
+  return [
+    `<h3>${escapeHtml(title)}</h3>`,
+    '<ul>',
+    ...entries.map(entry => `  ${formatEntry(entry, context)}`),
+    '</ul>'
+  ].join('\n');
+}
+
+// A self-contained fragment for embedding in a page or an HTML email
+export function renderHtml(changelog: Changelog, context: RenderContext): string {
+  const blocks: string[] = [];
+
+  (context.notes ?? []).forEach(note => blocks.push(`<blockquote><p>${escapeHtml(note)}</p></blockquote>`));
+  if (changelog.summary) {
+    blocks.push(`<p>${formatText(changelog.summary, context)}</p>`);
+  }
+
+  const breaking = collectBreaking(changelog);
+  if (breaking.length > 0) {
+    blocks.push(formatList('Breaking Changes', breaking, context));
+  }
+  changelog.sections.forEach(section => blocks.push(formatList(section.title, section.entries, context)));
+
+  return ['<section class="changelog">', ...blocks, '</section>'].join('\n');
+}
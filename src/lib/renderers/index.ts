@@ -0,0 +1,43 @@
+import { Changelog } from '../changelog';
+import { renderEmail } from './email';
+import { renderGitHubRelease } from './github-release';
+import { renderHtml } from './html';
+import { renderKeepAChangelog } from './keep-a-changelog';
+import { renderMarkdown } from './markdown';
+import { RenderContext } from './shared';
+import { renderSlack } from './slack';
+
+export type { RenderContext } from './shared';
+
+export const OUTPUT_FORMATS = [
+  'markdown',
+  'keep-a-changelog',
+  'github-release',
+  'html',
+  'email',
+  'slack'
+] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+type Renderer = (changelog: Changelog, context: RenderContext) => string;
+
+const RENDERERS: Record<OutputFormat, Renderer> = {
+  markdown: renderMarkdown,
+  'keep-a-changelog': renderKeepAChangelog,
+  'github-release': renderGitHubRelease,
+  html: renderHtml,
+  email: renderEmail,
+  slack: renderSlack
+};
+
+export function renderChangelog(changelog: Changelog, format: OutputFormat, context: RenderContext): string {
+  return RENDERERS[format](changelog, context);
+}
+
+// Every format at once, for previews; rendering is cheap next to generation
+export function renderAllFormats(changelog: Changelog, context: RenderContext): Record<OutputFormat, string> {
+  return Object.fromEntries(
+    OUTPUT_FORMATS.map(format => [format, renderChangelog(changelog, format, context)])
+  ) as Record<OutputFormat, string>;
+}
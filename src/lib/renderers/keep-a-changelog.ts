@@ -0,0 +1,58 @@
+import { format } from 'date-fns';
+import { Changelog, ChangelogEntry, ENTRY_SECTIONS } from '../changelog';
+import { formatEntry } from './markdown';
+import { compareUrl, RenderContext } from './shared';
+
+// https://keepachangelog.com/en/1.1.0/ - only the categories the model can tell apart
+const CATEGORIES = ['Added', 'Changed', 'Fixed', 'Security'] as const;
+
+type Category = typeof CATEGORIES[number];
+
+const CATEGORY_BY_SECTION: Record<typeof ENTRY_SECTIONS[number], Category> = {
+  Features: 'Added',
+  Improvements: 'Changed',
+  'Bug Fixes': 'Fixed',
+  Security: 'Security',
+  Performance: 'Changed',
+  Documentation: 'Changed',
+  Dependencies: 'Changed',
+  Refactor: 'Changed',
+  Tests: 'Changed',
+  Other: 'Changed'
+};
+
+function formatItem(entry: ChangelogEntry, context: RenderContext): string {
+  const item = formatEntry(entry, context);
+  return entry.breaking ? item.replace(/^- /, '- **BREAKING:** ') : item;
+}
+
+// A ref range ending at a tag is a release; anything ending at a branch is not yet
+function releaseName(context: RenderContext): string | null {
+  const head = context.refs?.headRef;
+  return head && head !== context.branch ? head : null;
+}
+
+// One release block, ready to paste at the top of CHANGELOG.md
+export function renderKeepAChangelog(changelog: Changelog, context: RenderContext): string {
+  const version = releaseName(context);
+  const heading = version && context.period
+    ? `## [${version}] - ${format(context.period.end, 'yyyy-MM-dd')}`
+    : '## [Unreleased]';
+  const blocks = [heading];
+
+  CATEGORIES.forEach(category => {
+    const entries = changelog.sections
+      .filter(section => CATEGORY_BY_SECTION[section.title] === category)
+      .flatMap(section => section.entries);
+    if (entries.length > 0) {
+      blocks.push([`### ${category}`, ...entries.map(entry => formatItem(entry, context))].join('\n'));
+    }
+  });
+
+  const compare = compareUrl(context);
+  if (compare) {
+    blocks.push(`[${version ?? 'Unreleased'}]: ${compare}`);
+  }
+
+  return blocks.join('\n\n');
+}
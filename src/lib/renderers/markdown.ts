@@ -0,0 +1,40 @@
+import { Changelog, ChangelogEntry } from '../changelog';
+import { linkPullRequestReferences } from '../github/pull-requests';
+import { collectBreaking, repoBaseUrl, RenderContext } from './shared';
+
+function formatLinks(entry: ChangelogEntry, context: RenderContext): string {
+  const base = repoBaseUrl(context);
+  const links = [
+    ...entry.pullRequests.map(number => `[#${number}](${base}/pull/${number})`),
+    ...entry.commits.map(sha => `[${sha.substring(0, 7)}](${base}/commit/${sha})`)
+  ];
+  return links.length > 0 ? ` (${links.join(', ')})` : '';
+}
+
+export function formatEntry(entry: ChangelogEntry, context: RenderContext): string {
+  const scope = entry.scope ? `**${entry.scope}:** ` : '';
+  const summary = linkPullRequestReferences(entry.summary, context.owner, context.repo);
+  const authors = entry.authors.length > 0 ? ` by ${entry.authors.join(', ')}` : '';
+  return `- ${scope}${summary}${formatLinks(entry, context)}${authors}`;
+}
+
+// Breaking changes first, under their own heading, then every section in model order
+export function renderMarkdown(changelog: Changelog, context: RenderContext): string {
+  const blocks: string[] = [];
+
+  (context.notes ?? []).forEach(note => blocks.push(`> ${note}`));
+  if (changelog.summary) {
+    blocks.push(linkPullRequestReferences(changelog.summary, context.owner, context.repo));
+  }
+
+  const breaking = collectBreaking(changelog);
+  if (breaking.length > 0) {
+    blocks.push(['### Breaking Changes', ...breaking.map(entry => formatEntry(entry, context))].join('\n'));
+  }
+
+  changelog.sections.forEach(section => {
+    blocks.push([`### ${section.title}`, ...section.entries.map(entry => formatEntry(entry, context))].join('\n'));
+  });
+
+  return blocks.join('\n\n');
+}
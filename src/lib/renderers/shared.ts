@@ -0,0 +1,55 @@
+import { format } from 'date-fns';
+import { Changelog, ChangelogEntry } from '../changelog';
+import { ResolvedRefs } from '../github/refs';
+
+export interface RenderContext {
+  owner: string;
+  repo: string;
+  // Caveats about the input, such as a range cut short by API limits
+  notes?: string[];
+  period?: {
+    start: Date;
+    end: Date;
+  };
+  refs?: ResolvedRefs;
+  branch?: string;
+}
+
+// Same boundaries as linkPullRequestReferences: skips "&#39;", "owner/repo#1" and existing links
+const REFERENCE_PATTERN = /(^|[^\[\w/&])#(\d+)\b(?!\]|\()/g;
+
+export function repoBaseUrl(context: RenderContext): string {
+  return `https://github.com/${context.owner}/${context.repo}`;
+}
+
+export function compareUrl(context: RenderContext): string | null {
+  return context.refs ? `${repoBaseUrl(context)}/compare/${context.refs.baseRef}...${context.refs.headRef}` : null;
+}
+
+export function collectBreaking(changelog: Changelog): ChangelogEntry[] {
+  return changelog.sections.flatMap(section => section.entries.filter(entry => entry.breaking));
+}
+
+export function formatPeriod(context: RenderContext): string | null {
+  if (!context.period) {
+    return null;
+  }
+  const start = format(context.period.start, 'MMM d, yyyy');
+  const end = format(context.period.end, 'MMM d, yyyy');
+  return start === end ? start : `${start} – ${end}`;
+}
+
+// For formats with their own escaping: text between references goes through
+// `escape`, each "#123" is replaced by `link(123)`
+export function replaceReferences(text: string, escape: (text: string) => string, link: (number: number) => string): string {
+  let result = '';
+  let last = 0;
+
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+    result += escape(text.substring(last, start)) + link(Number(match[2]));
+    last = start + match[2].length + 1;
+  }
+
+  return result + escape(text.substring(last));
+}
@@ -0,0 +1,106 @@
+import { Changelog, ChangelogEntry } from '../changelog';
+import { collectBreaking, formatPeriod, repoBaseUrl, RenderContext, replaceReferences } from './shared';
+
+// Block Kit limits: https://api.slack.com/reference/block-kit/blocks
+const MAX_BLOCKS = 50;
+const MAX_SECTION_TEXT = 3000;
+const MAX_HEADER_TEXT = 150;
+
+type TextObject = { type: 'plain_text' | 'mrkdwn'; text: string };
+
+export type SlackBlock =
+  | { type: 'header'; text: TextObject }
+  | { type: 'section'; text: TextObject }
+  | { type: 'context'; elements: TextObject[] }
+  | { type: 'divider' };
+
+export interface SlackMessage {
+  // Shown in notifications and by clients that can't display blocks
+  text: string;
+  blocks: SlackBlock[];
+}
+
+// mrkdwn only needs these three escaped; anything else is literal
+export function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function link(url: string, text: string): string {
+  return `<${url}|${escapeMrkdwn(text)}>`;
+}
+
+function formatText(text: string, context: RenderContext): string {
+  return replaceReferences(text, escapeMrkdwn, number => link(`${repoBaseUrl(context)}/issues/${number}`, `#${number}`));
+}
+
+function formatEntry(entry: ChangelogEntry, context: RenderContext): string {
+  const base = repoBaseUrl(context);
+  const scope = entry.scope ? `*${escapeMrkdwn(entry.scope)}:* ` : '';
+  const summary = formatText(entry.summary, context);
+  const links = [
+    ...entry.pullRequests.map(number => link(`${base}/pull/${number}`, `#${number}`)),
+    ...entry.commits.map(sha => link(`${base}/commit/${sha}`, sha.substring(0, 7)))
+  ];
+  const references = links.length > 0 ? ` (${links.join(', ')})` : '';
+  const authors = entry.authors.length > 0 ? ` by ${escapeMrkdwn(entry.authors.join(', '))}` : '';
+  return `• ${scope}${summary}${references}${authors}`;
+}
+
+// Long sections are split across blocks at line boundaries
+function sectionBlocks(title: string, lines: string[]): SlackBlock[] {
+  const blocks: SlackBlock[] = [];
+  let text = `*${escapeMrkdwn(title)}*`;
+
+  lines.forEach(line => {
+    if (text.length + line.length + 1 > MAX_SECTION_TEXT) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text } });
+      text = '';
+    }
+    text = text ? `${text}\n${line}` : line.substring(0, MAX_SECTION_TEXT);
+  });
+
+  blocks.push({ type: 'section', text: { type: 'mrkdwn', text } });
+  return blocks;
+}
+
+export function buildSlackMessage(changelog: Changelog, context: RenderContext): SlackMessage {
+  const period = formatPeriod(context);
+  const title = `${context.owner}/${context.repo}${period ? ` · ${period}` : ''}`;
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: title.substring(0, MAX_HEADER_TEXT) } }
+  ];
+
+  if (changelog.summary) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: formatText(changelog.summary, context) } });
+  }
+  if (context.notes?.length) {
+    blocks.push({ type: 'context', elements: context.notes.map(note => ({ type: 'mrkdwn', text: escapeMrkdwn(note) })) });
+  }
+
+  const breaking = collectBreaking(changelog);
+  if (breaking.length > 0) {
+    blocks.push(...sectionBlocks(':warning: Breaking Changes', breaking.map(entry => formatEntry(entry, context))));
+  }
+  changelog.sections.forEach(section => {
+    blocks.push(...sectionBlocks(section.title, section.entries.map(entry => formatEntry(entry, context))));
+  });
+
+  if (blocks.length > MAX_BLOCKS) {
+    const omitted = blocks.length - (MAX_BLOCKS - 1);
+    blocks.splice(MAX_BLOCKS - 1);
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `${omitted} more block(s) omitted. ${link(repoBaseUrl(context), 'See the repository')}` }]
+    });
+  }
+
+  return {
+    text: escapeMrkdwn(changelog.summary ? `${title}: ${changelog.summary}` : title),
+    blocks
+  };
+}
+
+// Serialized Block Kit payload, ready to post to chat.postMessage or an incoming webhook
+export function renderSlack(changelog: Changelog, context: RenderContext): string {
+  return JSON.stringify(buildSlackMessage(changelog, context), null, 2);
+}
@@ -0,0 +1,136 @@
+import type { GenerationRequest } from './generation-request';
+import { describeGenerationError, toGenerationResponse, GenerationResponse } from './generation-response';
+import { ChangelogResult, GitHubDiffGenerator } from './github-diff-generator';
+import { getHistoryStore, StoredRange } from './history/history-store';
+import logger from './logger';
+import type { ProgressListener } from './progress';
+import { emitEvent } from './webhooks';
+
+export interface GenerationHooks {
+  onProgress?: ProgressListener;
+  signal?: AbortSignal;
+}
+
+export interface RecordOptions {
+  // Keep the changelog as a draft for someone to review
+  draft?: boolean;
+}
+
+export class MissingGitHubTokenError extends Error {
+  constructor() {
+    super('GitHub token not configured');
+    this.name = 'MissingGitHubTokenError';
+  }
+}
+
+function storedRange(range: GenerationRequest['range']): StoredRange {
+  return range.type === 'dates'
+    ? { type: 'dates', startDate: range.startDate.toISOString(), endDate: range.endDate.toISOString() }
+    : range;
+}
+
+// A changelog that can't be recorded is still worth returning
+async function recordGeneration(request: GenerationRequest, result: ChangelogResult, { draft }: RecordOptions): Promise<string | undefined> {
+  try {
+    // Opening the store opens the database, which can fail too
+    const store = getHistoryStore();
+    if (!store) {
+      return undefined;
+    }
+    const record = await store.add({
+      repo: result.repo,
+      repoUrl: request.repoUrl,
+      range: storedRange(request.range),
+      period: {
+        start: result.period.start.toISOString(),
+        end: result.period.end.toISOString()
+      },
+      refs: result.refs,
+      branch: result.branch,
+      mode: result.mode,
+      provider: result.provider,
+      preset: result.preset,
+      format: result.format,
+      sources: result.sources,
+      changelog: result.changelog,
+      content: result.content,
+      renders: result.renders,
+      draft
+    });
+    return record.id;
+  } catch (error) {
+    logger.warn('Failed to record changelog history', {
+      repo: result.repo,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return undefined;
+  }
+}
+
+export interface GenerationOutcome {
+  result: ChangelogResult;
+  // Set when the run was recorded in the history
+  historyId?: string;
+}
+
+// One generation from a validated request, recorded in the history, for
+// callers that need more than the API response, like scheduled digests
+export async function generateAndRecord(request: GenerationRequest, hooks: GenerationHooks = {}, options: RecordOptions = {}): Promise<GenerationOutcome> {
+  const githubToken = process.env.GITHUB_PAT;
+  if (!githubToken) {
+    throw new MissingGitHubTokenError();
+  }
+
+  let result: ChangelogResult;
+  try {
+    result = await new GitHubDiffGenerator(githubToken).generateChangelog(request.repoUrl, request.range, {
+      ...request.options,
+      ...hooks
+    });
+  } catch (error) {
+    // A cancelled run didn't fail
+    if (!hooks.signal?.aborted) {
+      const { status, body } = describeGenerationError(error);
+      await emitEvent('generation.failed', {
+        repoUrl: request.repoUrl,
+        range: storedRange(request.range),
+        branch: request.options.branch,
+        mode: request.options.mode,
+        provider: request.options.provider,
+        preset: request.options.preset,
+        error: { status, message: String(body.message), type: body.type as string | undefined }
+      });
+    }
+    throw error;
+  }
+
+  const historyId = await recordGeneration(request, result, options);
+  await emitEvent('changelog.generated', {
+    historyId,
+    repo: result.repo,
+    repoUrl: request.repoUrl,
+    range: storedRange(request.range),
+    period: {
+      start: result.period.start.toISOString(),
+      end: result.period.end.toISOString()
+    },
+    refs: result.refs,
+    branch: result.branch,
+    mode: result.mode,
+    provider: result.provider,
+    preset: result.preset,
+    format: result.format,
+    content: result.content,
+    sourceCount: result.sources.length,
+    stats: result.stats,
+    draft: options.draft
+  });
+  return { result, historyId };
+}
+
+// One generation from a validated request to the API response body, whichever
+// endpoint or background job asked for it
+export async function runGeneration(request: GenerationRequest, hooks: GenerationHooks = {}): Promise<GenerationResponse> {
+  const { result, historyId } = await generateAndRecord(request, hooks);
+  return toGenerationResponse(result, request.repoUrl, historyId);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CronParseError, nextRun, parseCron } from './cron';
+
+// Local time, like the expressions themselves
+function at(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe('parseCron', () => {
+  it('expands ranges, lists, steps and names', () => {
+    const cron = parseCron('*/15 9-11 1,15 jan-mar mon-fri');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday and knows the aliases', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect(parseCron('@weekly')).toMatchObject({ minutes: new Set([0]), hours: new Set([0]), daysOfWeek: new Set([0]) });
+  });
+
+  it.each([
+    ['* * * *', 'expected five fields'],
+    ['60 * * * *', 'minute "60" must be between 0 and 59'],
+    ['* * * * 5-1', 'runs backwards'],
+    ['*/0 * * * *', 'must be a positive number']
+  ])('rejects "%s"', (expression, reason) => {
+    expect(() => parseCron(expression)).toThrow(CronParseError);
+    expect(() => parseCron(expression)).toThrow(reason);
+  });
+});
+
+describe('nextRun', () => {
+  it('is strictly after the given time', () => {
+    expect(nextRun(parseCron('30 9 * * *'), at(2024, 6, 10, 9, 30))).toEqual(at(2024, 6, 11, 9, 30));
+    expect(nextRun(parseCron('30 9 * * *'), at(2024, 6, 10, 9, 29))).toEqual(at(2024, 6, 10, 9, 30));
+  });
+
+  it('rolls over months and years', () => {
+    expect(nextRun(parseCron('0 0 1 * *'), at(2024, 12, 15))).toEqual(at(2025, 1, 1));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // June 13 2024 is a Thursday; the 15th comes after Monday the 17th otherwise
+    const cron = parseCron('0 8 15 * mon');
+    expect(nextRun(cron, at(2024, 6, 13))).toEqual(at(2024, 6, 15, 8));
+    expect(nextRun(cron, at(2024, 6, 15, 9))).toEqual(at(2024, 6, 17, 8));
+  });
+
+  it('gives up on dates that never come', () => {
+    expect(() => nextRun(parseCron('0 0 30 feb *'), at(2024, 1, 1))).toThrow('never matches');
+  });
+});
@@ -0,0 +1,87 @@
+import { redactDestination, validateTarget } from '../delivery';
+import type { Destination } from '../delivery';
+import { parseGenerationRequest } from '../generation-request';
+import { nextRun, parseCron } from './cron';
+import type { Schedule, ScheduleSettings } from './schedule-store';
+
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_WINDOW_DAYS = 366;
+
+export type ParsedScheduleRequest =
+  | { ok: true; settings: ScheduleSettings }
+  | { ok: false; message: string };
+
+// Validates a new schedule, or changes to `existing` when given. Generation
+// fields are checked the same way a one-off request would be.
+export function parseScheduleRequest(body: Record<string, unknown>, existing?: ScheduleSettings): ParsedScheduleRequest {
+  const merged: Record<string, unknown> = { ...existing };
+  for (const [key, value] of Object.entries(body)) {
+    // null clears an optional field
+    merged[key] = value === null ? undefined : value;
+  }
+  const { name, repoUrl, branch, mode, provider, preset, cron, windowDays = DEFAULT_WINDOW_DAYS, destinations = [], enabled = true } = merged;
+
+  const now = new Date().toISOString();
+  const generation = parseGenerationRequest({ repoUrl, branch, mode, provider, preset, startDate: now, endDate: now });
+  if (!generation.ok) {
+    return generation;
+  }
+
+  if (name !== undefined && typeof name !== 'string') {
+    return { ok: false, message: 'name must be a string' };
+  }
+
+  if (typeof cron !== 'string' || !cron.trim()) {
+    return { ok: false, message: 'Missing required field: cron' };
+  }
+  try {
+    // Also catches expressions that parse but never come due, like Feb 30
+    nextRun(parseCron(cron), new Date());
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : 'Invalid cron expression' };
+  }
+
+  if (typeof windowDays !== 'number' || !Number.isInteger(windowDays) || windowDays < 1 || windowDays > MAX_WINDOW_DAYS) {
+    return { ok: false, message: `windowDays must be a whole number between 1 and ${MAX_WINDOW_DAYS}` };
+  }
+
+  // "owner/repo", for looking up the repo's named destinations
+  const repo = (repoUrl as string).replace(/^https:\/\/github\.com\//, '').replace(/\.git$/, '');
+
+  if (!Array.isArray(destinations)) {
+    return { ok: false, message: 'destinations must be an array' };
+  }
+  for (const destination of destinations) {
+    const problem = validateTarget(destination, repo);
+    if (problem) {
+      return { ok: false, message: problem };
+    }
+  }
+
+  if (typeof enabled !== 'boolean') {
+    return { ok: false, message: 'enabled must be true or false' };
+  }
+
+  const { options } = generation.request;
+  return {
+    ok: true,
+    settings: {
+      name: name?.trim() || repo,
+      repoUrl: repoUrl as string,
+      branch: options.branch || undefined,
+      mode: options.mode || undefined,
+      provider: options.provider || undefined,
+      preset: options.preset || undefined,
+      cron: cron.trim(),
+      windowDays,
+      destinations: destinations as Destination[],
+      enabled
+    }
+  };
+}
+
+// A schedule as the API returns it, with destinations given in full reduced to
+// their type, the way webhook subscriptions are listed without their secrets
+export function redactSchedule(schedule: Schedule): Schedule {
+  return { ...schedule, destinations: schedule.destinations.map(redactDestination) };
+}
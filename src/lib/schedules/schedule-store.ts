@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ChangelogMode, getDataDir } from '../config';
+import type { DeliveryResult, Destination } from '../delivery';
+import logger from '../logger';
+
+const SCHEDULE_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export interface ScheduleRun {
+  startedAt: string;
+  finishedAt: string;
+  status: 'succeeded' | 'failed';
+  historyId?: string;
+  // Why generation failed, or which destinations couldn't be delivered to
+  error?: string;
+  deliveries: DeliveryResult[];
+}
+
+export interface ScheduleSettings {
+  name: string;
+  repoUrl: string;
+  branch?: string;
+  mode?: ChangelogMode;
+  provider?: string;
+  preset?: string;
+  // Five-field cron expression, in the server's local time
+  cron: string;
+  // Each run covers this many days up to the moment it starts
+  windowDays: number;
+  // Targets, or names of destinations in the config
+  destinations: Destination[];
+  enabled: boolean;
+}
+
+export interface Schedule extends ScheduleSettings {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  // Kept on disk so a run missed while the server was down happens on startup
+  nextRunAt?: string;
+  lastRun?: ScheduleRun;
+}
+
+// One JSON file per schedule under <data dir>/schedules
+export class ScheduleStore {
+  private directory = path.join(getDataDir(), 'schedules');
+
+  private schedulePath(id: string): string {
+    // Ids come from URLs, so refuse anything that isn't one of ours
+    if (!SCHEDULE_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid schedule id "${id}"`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  async get(id: string): Promise<Schedule | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.schedulePath(id), 'utf8')) as Schedule;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Written to a temporary file first so a crash never leaves half a schedule behind
+  async save(schedule: Schedule): Promise<void> {
+    const target = this.schedulePath(schedule.id);
+    const temporary = `${target}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(schedule, null, 2));
+    await fs.rename(temporary, target);
+  }
+
+  async list(): Promise<Schedule[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const schedules = await Promise.all(entries
+      .filter(entry => entry.endsWith('.json'))
+      .map(entry => this.get(entry.replace(/\.json$/, ''))));
+    return schedules
+      .filter((schedule): schedule is Schedule => schedule !== undefined)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.schedulePath(id));
+      return true;
+    } catch (error) {
+      logger.warn('Failed to delete schedule', {
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+}
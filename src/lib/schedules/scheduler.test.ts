@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DeliveryResult } from '../delivery';
+import { ScheduleSettings, ScheduleStore } from './schedule-store';
+import { Clock, ScheduleRunner, Scheduler, ScheduleWindow } from './scheduler';
+
+// Time only moves when the test says so; timers fire when it passes them
+class FakeClock implements Clock {
+  timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 1;
+
+  constructor(private time: Date) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time.getTime() + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  // Earliest pending timer, in ms from now
+  nextDelay(): number | undefined {
+    const times = Array.from(this.timers.values()).map(timer => timer.at - this.time.getTime());
+    return times.length > 0 ? Math.min(...times) : undefined;
+  }
+
+  advance(ms: number): void {
+    this.time = new Date(this.time.getTime() + ms);
+    for (const [handle, timer] of this.timers) {
+      if (timer.at <= this.time.getTime()) {
+        this.timers.delete(handle);
+        timer.callback();
+      }
+    }
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const settings: ScheduleSettings = {
+  name: 'Weekly digest',
+  repoUrl: 'https://github.com/acme/widgets',
+  cron: '0 9 * * mon',
+  windowDays: 7,
+  destinations: ['team-slack'],
+  enabled: true
+};
+
+describe('Scheduler', () => {
+  let dataDir: string;
+  let clock: FakeClock;
+  let windows: ScheduleWindow[];
+  let deliveries: DeliveryResult[];
+  let scheduler: Scheduler;
+
+  const runner: ScheduleRunner = async (_schedule, window) => {
+    windows.push(window);
+    return { historyId: 'history-1', deliveries };
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gramphibian-scheduler-'));
+    vi.stubEnv('GRAMPHIBIAN_DATA_DIR', dataDir);
+    // Sunday June 9 2024, 10:00 local time
+    clock = new FakeClock(new Date(2024, 5, 9, 10));
+    windows = [];
+    deliveries = [{ type: 'slack', destination: 'team-slack', ok: true, deliveredAt: clock.now().toISOString() }];
+    scheduler = new Scheduler({ store: new ScheduleStore(), clock, runner });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.unstubAllEnvs();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('works out the next run from the cron expression', async () => {
+    const schedule = await scheduler.create(settings);
+    expect(schedule.nextRunAt).toBe(new Date(2024, 5, 10, 9).toISOString());
+    expect((await scheduler.create({ ...settings, enabled: false })).nextRunAt).toBeUndefined();
+  });
+
+  it('runs due schedules over the trailing window and moves them on', async () => {
+    const { id } = await scheduler.create(settings);
+    clock.advance(23 * HOUR);
+    await scheduler.tick();
+
+    expect(windows).toEqual([{ start: new Date(2024, 5, 3, 9), end: new Date(2024, 5, 10, 9) }]);
+    const schedule = await scheduler.get(id);
+    expect(schedule?.lastRun).toMatchObject({ status: 'succeeded', historyId: 'history-1' });
+    expect(schedule?.nextRunAt).toBe(new Date(2024, 5, 17, 9).toISOString());
+  });
+
+  it('leaves schedules that are not due alone', async () => {
+    await scheduler.create(settings);
+    await scheduler.tick();
+    expect(windows).toEqual([]);
+  });
+
+  it('fails a run when a destination could not be delivered to', async () => {
+    deliveries = [{ type: 'slack', destination: 'team-slack', ok: false, error: 'Slack webhook answered 404', deliveredAt: '' }];
+    const { id } = await scheduler.create(settings);
+    const schedule = await scheduler.run(id);
+
+    expect(schedule?.lastRun).toMatchObject({ status: 'failed', error: 'Delivery failed: team-slack: Slack webhook answered 404' });
+    // A manual run doesn't skip the next scheduled one
+    expect(schedule?.nextRunAt).toBe(new Date(2024, 5, 10, 9).toISOString());
+  });
+
+  it('records generation errors', async () => {
+    scheduler = new Scheduler({ store: new ScheduleStore(), clock, runner: async () => { throw new Error('GitHub API request failed: 404'); } });
+    const { id } = await scheduler.create(settings);
+    const schedule = await scheduler.run(id);
+    expect(schedule?.lastRun).toMatchObject({ status: 'failed', error: 'GitHub API request failed: 404', deliveries: [] });
+  });
+
+  it('sleeps until the next due schedule, but at most a minute', async () => {
+    scheduler.start();
+    await scheduler.create({ ...settings, cron: '* * * * *' });
+    await vi.waitFor(() => expect(clock.nextDelay()).toBeDefined());
+    expect(clock.nextDelay()).toBe(60 * 1000);
+
+    clock.advance(60 * 1000);
+    await vi.waitFor(() => expect(windows).toHaveLength(1));
+  });
+});
@@ -0,0 +1,248 @@
+import { randomUUID } from 'crypto';
+import { loadConfig } from '../config';
+import { deliver, toDeliverable } from '../delivery';
+import logger from '../logger';
+import { generateAndRecord } from '../run-generation';
+import { nextRun, parseCron } from './cron';
+import { Schedule, ScheduleRun, ScheduleSettings, ScheduleStore } from './schedule-store';
+
+// Longest the scheduler sleeps, so new schedules and clock changes are picked up
+const MAX_SLEEP_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Time source and timers, replaceable so schedules can be exercised without waiting
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as NodeJS.Timeout)
+};
+
+export interface ScheduleWindow {
+  start: Date;
+  end: Date;
+}
+
+export type ScheduleRunner = (schedule: Schedule, window: ScheduleWindow) => Promise<Pick<ScheduleRun, 'historyId' | 'deliveries'>>;
+
+export interface SchedulerOptions {
+  store?: ScheduleStore;
+  clock?: Clock;
+  // Replaceable so schedules can be exercised without GitHub or a model
+  runner?: ScheduleRunner;
+}
+
+async function runScheduledDigest(schedule: Schedule, window: ScheduleWindow): Promise<Pick<ScheduleRun, 'historyId' | 'deliveries'>> {
+  const { result, historyId } = await generateAndRecord({
+    repoUrl: schedule.repoUrl,
+    range: { type: 'dates', startDate: window.start, endDate: window.end },
+    options: {
+      branch: schedule.branch,
+      mode: schedule.mode,
+      provider: schedule.provider,
+      preset: schedule.preset
+    }
+  });
+  const deliveries = await deliver(schedule.destinations, toDeliverable(result, schedule.repoUrl, historyId));
+  return { historyId, deliveries };
+}
+
+/**
+ * Runs schedules when their cron expression comes due, in this process. Each
+ * run generates the trailing window, records it in the history and delivers
+ * it to the schedule's destinations. A run missed while the server was down
+ * happens once on startup.
+ */
+export class Scheduler {
+  private store: ScheduleStore;
+  private clock: Clock;
+  private runner: ScheduleRunner;
+  private timer: unknown;
+  private started = false;
+  // Schedules being run, so a slow run and its next tick never overlap
+  private running = new Set<string>();
+
+  constructor(options: SchedulerOptions = {}) {
+    this.store = options.store ?? new ScheduleStore();
+    this.clock = options.clock ?? systemClock;
+    this.runner = options.runner ?? runScheduledDigest;
+  }
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    logger.info('Scheduler started');
+    void this.tick();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.clock.clearTimeout(this.timer);
+  }
+
+  private nextRunAt(settings: ScheduleSettings, after: Date): string | undefined {
+    return settings.enabled ? nextRun(parseCron(settings.cron), after).toISOString() : undefined;
+  }
+
+  list(): Promise<Schedule[]> {
+    return this.store.list();
+  }
+
+  get(id: string): Promise<Schedule | undefined> {
+    return this.store.get(id);
+  }
+
+  async create(settings: ScheduleSettings): Promise<Schedule> {
+    const now = this.clock.now();
+    const schedule: Schedule = {
+      ...settings,
+      id: randomUUID(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      nextRunAt: this.nextRunAt(settings, now)
+    };
+    await this.store.save(schedule);
+    logger.info('Created schedule', { id: schedule.id, repoUrl: schedule.repoUrl, cron: schedule.cron });
+    this.arm();
+    return schedule;
+  }
+
+  async update(id: string, settings: ScheduleSettings): Promise<Schedule | undefined> {
+    const existing = await this.store.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const now = this.clock.now();
+    const schedule: Schedule = {
+      ...existing,
+      ...settings,
+      updatedAt: now.toISOString(),
+      nextRunAt: this.nextRunAt(settings, now)
+    };
+    await this.store.save(schedule);
+    this.arm();
+    return schedule;
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  // Runs every schedule that has come due, one after another
+  async tick(): Promise<void> {
+    this.clock.clearTimeout(this.timer);
+    try {
+      const now = this.clock.now();
+      const due = (await this.store.list()).filter(schedule =>
+        schedule.enabled && schedule.nextRunAt && new Date(schedule.nextRunAt) <= now);
+      for (const schedule of due) {
+        await this.run(schedule.id, { advance: true });
+      }
+    } catch (error) {
+      logger.error('Scheduler tick failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+    this.arm();
+  }
+
+  // Runs one schedule now. `advance` moves it on to its next due time, which
+  // a manual run leaves alone.
+  async run(id: string, { advance = false }: { advance?: boolean } = {}): Promise<Schedule | undefined> {
+    const schedule = await this.store.get(id);
+    if (!schedule || this.running.has(id)) {
+      return schedule;
+    }
+
+    this.running.add(id);
+    const startedAt = this.clock.now();
+    let run: ScheduleRun;
+    try {
+      logger.info('Running schedule', { id, repoUrl: schedule.repoUrl, windowDays: schedule.windowDays });
+      const { historyId, deliveries } = await this.runner(schedule, {
+        start: new Date(startedAt.getTime() - schedule.windowDays * DAY_MS),
+        end: startedAt
+      });
+      const failed = deliveries.filter(delivery => !delivery.ok);
+      run = {
+        startedAt: startedAt.toISOString(),
+        finishedAt: this.clock.now().toISOString(),
+        status: failed.length > 0 ? 'failed' : 'succeeded',
+        historyId,
+        error: failed.length > 0
+          ? `Delivery failed: ${failed.map(delivery => `${delivery.destination ?? delivery.type}: ${delivery.error}`).join('; ')}`
+          : undefined,
+        deliveries
+      };
+    } catch (error) {
+      run = {
+        startedAt: startedAt.toISOString(),
+        finishedAt: this.clock.now().toISOString(),
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        deliveries: []
+      };
+    } finally {
+      this.running.delete(id);
+    }
+
+    logger.info('Schedule finished', { id, status: run.status, historyId: run.historyId, error: run.error });
+
+    // Re-read in case the schedule was edited or deleted while it ran
+    const current = await this.store.get(id);
+    if (!current) {
+      return undefined;
+    }
+    const updated: Schedule = {
+      ...current,
+      lastRun: run,
+      nextRunAt: advance ? this.nextRunAt(current, this.clock.now()) : current.nextRunAt
+    };
+    await this.store.save(updated);
+    return updated;
+  }
+
+  // Sleeps until the earliest due schedule, but never longer than a minute
+  private arm(): void {
+    if (!this.started) {
+      return;
+    }
+    this.clock.clearTimeout(this.timer);
+    void this.store.list()
+      .then(schedules => schedules
+        .filter(schedule => schedule.enabled && schedule.nextRunAt)
+        .map(schedule => new Date(schedule.nextRunAt as string).getTime() - this.clock.now().getTime()))
+      .catch(() => [])
+      .then(untilDue => {
+        this.clock.clearTimeout(this.timer);
+        this.timer = this.clock.setTimeout(() => void this.tick(), Math.max(Math.min(...untilDue, MAX_SLEEP_MS), 0));
+      });
+  }
+}
+
+const SCHEDULER_KEY = Symbol.for('gramphibian.scheduler');
+
+// One scheduler per server process, kept on globalThis like the job queue.
+// Only started when schedules are enabled in this process.
+export function getScheduler(): Scheduler {
+  const holder = globalThis as typeof globalThis & { [SCHEDULER_KEY]?: Scheduler };
+  if (!holder[SCHEDULER_KEY]) {
+    holder[SCHEDULER_KEY] = new Scheduler();
+    if (loadConfig().schedules?.enabled !== false) {
+      holder[SCHEDULER_KEY].start();
+    }
+  }
+  return holder[SCHEDULER_KEY];
+}
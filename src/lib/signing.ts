@@ -0,0 +1,96 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Signatures on outbound requests, so receivers can tell they came from this
+// server and weren't replayed. The header carries the signing time and an
+// HMAC-SHA256 of the time, method, path and body:
+//
+//   X-Gramphibian-Signature: t=1718000000,v1=5257a869e7...
+//
+// Receivers verify with `verifySignature`, using the same shared secret. This
+// module only depends on Node's crypto so it can be copied into other services.
+
+export const SIGNATURE_HEADER = 'X-Gramphibian-Signature';
+
+// How far the signing time may be from the receiver's clock
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export interface SignedRequest {
+  method: string;
+  // Path and query of the URL, e.g. "/api/changelogs/123"
+  path: string;
+  // Raw body as sent; empty for requests without one
+  body: string;
+}
+
+export type VerificationResult =
+  | { ok: true; timestamp: number }
+  | { ok: false; reason: string };
+
+export interface VerifyOptions {
+  toleranceSeconds?: number;
+  // Seconds since the epoch; defaults to the current time
+  now?: number;
+}
+
+function digest(request: SignedRequest, timestamp: number, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}\n${request.method.toUpperCase()}\n${request.path}\n${request.body}`)
+    .digest('hex');
+}
+
+// Compares in constant time, so the signature can't be guessed byte by byte
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function signRequest(request: SignedRequest, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${digest(request, timestamp, secret)}`;
+}
+
+// Several secrets may be given while one is being rotated out
+export function verifySignature(
+  request: SignedRequest,
+  header: string | null | undefined,
+  secret: string | string[],
+  { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = Math.floor(Date.now() / 1000) }: VerifyOptions = {}
+): VerificationResult {
+  if (!header) {
+    return { ok: false, reason: `Missing ${SIGNATURE_HEADER} header` };
+  }
+
+  const parts = new Map<string, string[]>();
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key && value) {
+      parts.set(key, [...(parts.get(key) ?? []), value]);
+    }
+  }
+
+  const timestamp = Number(parts.get('t')?.[0]);
+  const signatures = parts.get('v1') ?? [];
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    return { ok: false, reason: `Malformed ${SIGNATURE_HEADER} header` };
+  }
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    return { ok: false, reason: 'Signature timestamp is outside the allowed window' };
+  }
+
+  const secrets = Array.isArray(secret) ? secret : [secret];
+  const expected = secrets.map(candidate => digest(request, timestamp, candidate));
+  const matches = signatures.some(signature => expected.some(candidate => safeEqual(signature, candidate)));
+  return matches ? { ok: true, timestamp } : { ok: false, reason: 'Signature does not match' };
+}
+
+// For receivers built on fetch-style handlers, like Next.js routes. Reads the
+// body, so pass a clone if it's needed afterwards.
+export async function verifyRequest(request: Request, secret: string | string[], options?: VerifyOptions): Promise<VerificationResult> {
+  const url = new URL(request.url);
+  return verifySignature(
+    { method: request.method, path: `${url.pathname}${url.search}`, body: await request.text() },
+    request.headers.get(SIGNATURE_HEADER),
+    secret,
+    options
+  );
+}
@@ -0,0 +1,202 @@
+import { format } from 'date-fns';
+import { mapWithConcurrency } from './async-pool';
+import { FileCache, hashKey } from './file-cache';
+import { CommitData } from './github/types';
+import logger from './logger';
+import type { ProgressListener } from './progress';
+import { buildCommitSummaryPrompt, buildComponentSummaryPrompt, PromptMessages } from './prompts';
+import { ChangelogProvider, RepoRef } from './providers';
+import { countTokens, fitsInTokens, TokenizerName, truncateToTokens } from './tokens';
+
+// Bump when the stage prompts change so stale summaries are not reused
+const SUMMARY_CACHE_VERSION = 1;
+// Commits this small are passed through verbatim instead of costing an LLM call
+const COMMIT_PASSTHROUGH_TOKENS = 200;
+// Room in each call for the stage instructions
+const RESERVED_STAGE_TOKENS = 256;
+const MIN_CHUNK_TOKENS = 512;
+const MIN_COMPONENT_TOKENS = 256;
+const MAX_REDUCE_ROUNDS = 4;
+const DEFAULT_CONCURRENCY = 4;
+
+interface ComponentGroup {
+  component: string;
+  summaries: string[];
+}
+
+export interface SummarizerOptions {
+  provider: ChangelogProvider;
+  repo: RepoRef;
+  concurrency?: number;
+  onProgress?: ProgressListener;
+}
+
+/**
+ * Hierarchical map-reduce over a commit range: each commit is summarized,
+ * commit summaries are condensed per top-level directory, and the component
+ * summaries are reduced until they fit the final budget. Every LLM call is
+ * cached on disk so overlapping ranges reuse earlier work.
+ */
+export class MapReduceSummarizer {
+  private provider: ChangelogProvider;
+  private repo: RepoRef;
+  private concurrency: number;
+  private onProgress?: ProgressListener;
+  private chunkTokens: number;
+  private tokenizer: TokenizerName;
+  private cache = new FileCache<string>('summaries');
+  // Summaries from one model are no good to another
+  private modelKey: string;
+
+  constructor(options: SummarizerOptions) {
+    this.provider = options.provider;
+    this.repo = options.repo;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.onProgress = options.onProgress;
+    const { contextWindow, maxOutputTokens, tokenizer } = options.provider.capabilities;
+    this.chunkTokens = Math.max(contextWindow - maxOutputTokens - RESERVED_STAGE_TOKENS, MIN_CHUNK_TOKENS);
+    this.tokenizer = tokenizer;
+    this.modelKey = options.provider.model ? `${options.provider.name}/${options.provider.model}` : options.provider.name;
+  }
+
+  async summarize(commits: CommitData[], budgetTokens: number): Promise<string> {
+    logger.info('Starting map-reduce summarization', {
+      commits: commits.length,
+      budgetTokens,
+      chunkTokens: this.chunkTokens
+    });
+
+    this.onProgress?.({ type: 'phase', phase: 'summarizing' });
+    const commitSummaries = await mapWithConcurrency(commits, this.concurrency,
+      this.counted(commits.length, 'commits', commit => this.summarizeCommit(commit)));
+
+    const groups = this.groupByComponent(commits, commitSummaries);
+    const componentBudget = Math.max(Math.floor(budgetTokens / Math.max(groups.length, 1)), MIN_COMPONENT_TOKENS);
+    const componentSummaries = await mapWithConcurrency(groups, this.concurrency,
+      this.counted(groups.length, 'components', async group => {
+        const summary = await this.reduce(group.component, group.summaries, componentBudget);
+        return `${group.component}:\n${summary}`;
+      }));
+
+    const result = await this.reduce('entire repository', componentSummaries, budgetTokens);
+
+    logger.info('Map-reduce summarization complete', {
+      components: groups.length,
+      resultTokens: countTokens(result, this.tokenizer)
+    });
+
+    return result;
+  }
+
+  // Wraps a stage's per-item work to report how many items are done
+  private counted<T>(total: number, unit: string, fn: (item: T) => Promise<string>): (item: T) => Promise<string> {
+    let completed = 0;
+    return async item => {
+      const result = await fn(item);
+      this.onProgress?.({ type: 'progress', phase: 'summarizing', completed: ++completed, total, unit });
+      return result;
+    };
+  }
+
+  private formatCommit(commit: CommitData): string {
+    const commitDate = new Date(commit.commit.author.date);
+    const files = commit.files
+      .map(file => `File: ${file.filename}${file.patch ? `\n${file.patch}` : ''}`)
+      .join('\n');
+
+    return `Commit: ${commit.sha.substring(0, 7)} - ${format(commitDate, 'yyyy-MM-dd HH:mm:ss')}\n` +
+      `Message: ${commit.commit.message}\n${files}`;
+  }
+
+  private async summarizeCommit(commit: CommitData): Promise<string> {
+    const text = this.formatCommit(commit);
+    if (fitsInTokens(text, COMMIT_PASSTHROUGH_TOKENS, this.tokenizer)) {
+      return text;
+    }
+
+    const key = `commit:${this.modelKey}:${this.repo.owner}/${this.repo.repo}@${commit.sha}`;
+    const summary = await this.cachedComplete(key, buildCommitSummaryPrompt(truncateToTokens(text, this.chunkTokens, this.tokenizer)));
+    return `Commit: ${commit.sha.substring(0, 7)} - ${commit.commit.message.split('\n')[0]}\n${summary}`;
+  }
+
+  // Attribute each commit to the top-level directory it touches most
+  private groupByComponent(commits: CommitData[], summaries: string[]): ComponentGroup[] {
+    const groups = new Map<string, string[]>();
+
+    commits.forEach((commit, index) => {
+      const counts = new Map<string, number>();
+      commit.files.forEach(file => {
+        const parts = file.filename.split('/');
+        const component = parts.length > 1 ? parts[0] : '(root)';
+        counts.set(component, (counts.get(component) ?? 0) + 1);
+      });
+
+      const component = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? '(root)';
+      groups.set(component, [...(groups.get(component) ?? []), summaries[index]]);
+    });
+
+    return Array.from(groups.entries()).map(([component, componentSummaries]) => ({
+      component,
+      summaries: componentSummaries
+    }));
+  }
+
+  // Repeatedly condense chunks of items until the joined text fits the budget
+  private async reduce(component: string, items: string[], budgetTokens: number): Promise<string> {
+    let current = items;
+
+    for (let round = 0; round < MAX_REDUCE_ROUNDS; round++) {
+      const joined = current.join('\n\n');
+      if (fitsInTokens(joined, budgetTokens, this.tokenizer)) {
+        return joined;
+      }
+
+      const chunks = this.chunk(current);
+      current = await mapWithConcurrency(chunks, this.concurrency, chunk => {
+        const text = chunk.join('\n\n');
+        return this.cachedComplete(`component:${this.modelKey}:${hashKey(`${component}\n${text}`)}`,
+          buildComponentSummaryPrompt(component, text));
+      });
+
+      logger.debug('Reduce round complete', { component, round, chunks: chunks.length });
+    }
+
+    return truncateToTokens(current.join('\n\n'), budgetTokens, this.tokenizer);
+  }
+
+  private chunk(items: string[]): string[][] {
+    const chunks: string[][] = [];
+    let currentChunk: string[] = [];
+    let currentTokens = 0;
+
+    items.forEach(item => {
+      const boundedItem = truncateToTokens(item, this.chunkTokens, this.tokenizer);
+      const tokens = countTokens(boundedItem, this.tokenizer);
+      if (currentChunk.length > 0 && currentTokens + tokens > this.chunkTokens) {
+        chunks.push(currentChunk);
+        currentChunk = [];
+        currentTokens = 0;
+      }
+      currentChunk.push(boundedItem);
+      currentTokens += tokens;
+    });
+
+    if (currentChunk.length > 0) {
+      chunks.push(currentChunk);
+    }
+
+    return chunks;
+  }
+
+  private async cachedComplete(key: string, prompt: PromptMessages): Promise<string> {
+    const cacheKey = `v${SUMMARY_CACHE_VERSION}:${key}`;
+    const cached = await this.cache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const summary = await this.provider.complete({ ...prompt, repo: this.repo, temperature: 0.2 });
+    await this.cache.set(cacheKey, summary);
+    return summary;
+  }
+}
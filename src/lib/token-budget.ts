@@ -0,0 +1,256 @@
+import { format } from 'date-fns';
+import type { PullRequestSummary } from './github/pull-requests';
+import { CommitData, CommitFile } from './github/types';
+import { PromptMessages } from './prompts';
+import { ChangelogProvider } from './providers';
+import { countTokens, TokenizerName, truncateToTokens } from './tokens';
+
+// Chat formatting adds a few tokens around every message
+const MESSAGE_OVERHEAD_TOKENS = 8;
+// Keeps a per-piece count from overshooting the count of the joined text
+const SAFETY_MARGIN = 0.95;
+// No single patch may eat the budget that several smaller ones could share
+const MAX_PATCH_TOKENS = 400;
+// PR templates make bodies long; the first few paragraphs carry the description
+const MAX_PR_BODY_TOKENS = 300;
+const MIN_INPUT_TOKENS = 256;
+
+const LOW_VALUE_PATTERNS = [
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|go\.sum|poetry\.lock|Gemfile\.lock|composer\.lock)$/,
+  /\.min\.(js|css)$/,
+  /(^|\/)(dist|build|vendor|node_modules)\//,
+  /(^|\/)__snapshots__\//,
+  /\.(snap|svg|map)$/
+];
+const TEST_PATTERN = /(^|\/)(__tests__|tests?)\/|\.(test|spec)\.[a-z]+$/;
+const DOC_PATTERN = /\.(md|mdx|rst|txt)$/;
+
+export type ContentStrategy = 'full' | 'prioritized' | 'map-reduce';
+
+export interface TokenBudget {
+  provider: string;
+  tokenizer: TokenizerName;
+  contextWindow: number;
+  promptTokens: number;
+  reservedOutputTokens: number;
+  // What is left for diff content once the prompt and the reply are accounted for
+  availableTokens: number;
+  usedTokens: number;
+  strategy: ContentStrategy;
+  includedPatches?: number;
+  totalPatches?: number;
+  includedDescriptions?: number;
+  totalDescriptions?: number;
+}
+
+export function createTokenBudget(provider: ChangelogProvider, promptSkeleton: PromptMessages): TokenBudget {
+  const { contextWindow, maxOutputTokens, tokenizer } = provider.capabilities;
+  const promptTokens = countTokens(promptSkeleton.system, tokenizer) +
+    countTokens(promptSkeleton.user, tokenizer) +
+    2 * MESSAGE_OVERHEAD_TOKENS;
+
+  return {
+    provider: provider.name,
+    tokenizer,
+    contextWindow,
+    promptTokens,
+    reservedOutputTokens: maxOutputTokens,
+    availableTokens: Math.max(Math.floor((contextWindow - promptTokens - maxOutputTokens) * SAFETY_MARGIN), MIN_INPUT_TOKENS),
+    usedTokens: 0,
+    strategy: 'full'
+  };
+}
+
+function scoreFile(file: CommitFile): number {
+  if (LOW_VALUE_PATTERNS.some(pattern => pattern.test(file.filename))) {
+    return 0;
+  }
+  if (TEST_PATTERN.test(file.filename)) {
+    return 0.5;
+  }
+  if (DOC_PATTERN.test(file.filename)) {
+    return 0.7;
+  }
+  return 1;
+}
+
+export function formatCommitHeader(commit: CommitData): string {
+  const commitDate = new Date(commit.commit.author.date);
+  const author = commit.commit.author.name ? ` by ${commit.commit.author.name}` : '';
+  return `Commit: ${commit.sha.substring(0, 7)} - ${format(commitDate, 'yyyy-MM-dd HH:mm:ss')}${author}\n` +
+    `Message: ${commit.commit.message}`;
+}
+
+interface PatchCandidate {
+  commitIndex: number;
+  filename: string;
+  patch: string;
+  tokens: number;
+  score: number;
+}
+
+export interface SelectedContent {
+  text: string;
+  usedTokens: number;
+  includedPatches: number;
+  totalPatches: number;
+}
+
+/**
+ * Fills the budget with the most useful content first: every commit message
+ * (newest first if even those don't fit), then patches ranked by how much they
+ * say about the change. Lockfiles and generated output are left out.
+ */
+export function selectDiffContent(commits: CommitData[], availableTokens: number, tokenizer: TokenizerName): SelectedContent {
+  let remaining = availableTokens;
+  const headers: string[] = [];
+  let omittedCommits = 0;
+
+  const newestFirst = commits
+    .map((commit, index) => ({ commit, index }))
+    .sort((a, b) => new Date(b.commit.commit.author.date).getTime() - new Date(a.commit.commit.author.date).getTime());
+
+  const includedCommits = new Set<number>();
+  newestFirst.forEach(({ commit, index }) => {
+    const header = formatCommitHeader(commit);
+    const tokens = countTokens(header, tokenizer);
+    if (tokens <= remaining) {
+      headers[index] = header;
+      includedCommits.add(index);
+      remaining -= tokens;
+    } else {
+      omittedCommits++;
+    }
+  });
+
+  const candidates: PatchCandidate[] = [];
+  let totalPatches = 0;
+  commits.forEach((commit, commitIndex) => {
+    commit.files.forEach(file => {
+      if (!file.patch) {
+        return;
+      }
+      totalPatches++;
+      const score = scoreFile(file);
+      if (!includedCommits.has(commitIndex) || score === 0) {
+        return;
+      }
+      const patch = truncateToTokens(file.patch, MAX_PATCH_TOKENS, tokenizer);
+      candidates.push({
+        commitIndex,
+        filename: file.filename,
+        patch,
+        tokens: countTokens(`File: ${file.filename}\n${patch}`, tokenizer),
+        score
+      });
+    });
+  });
+
+  // Highest value first; among equals, smaller patches let more files through
+  candidates.sort((a, b) => b.score - a.score || a.tokens - b.tokens);
+
+  const patchesByCommit = new Map<number, string[]>();
+  let includedPatches = 0;
+  candidates.forEach(candidate => {
+    if (candidate.tokens > remaining) {
+      return;
+    }
+    remaining -= candidate.tokens;
+    includedPatches++;
+    patchesByCommit.set(candidate.commitIndex, [
+      ...(patchesByCommit.get(candidate.commitIndex) ?? []),
+      `File: ${candidate.filename}\n${candidate.patch}`
+    ]);
+  });
+
+  const sections = commits
+    .map((_, index) => includedCommits.has(index)
+      ? [headers[index], ...(patchesByCommit.get(index) ?? [])].join('\n')
+      : null)
+    .filter((section): section is string => section !== null);
+
+  let text = sections.join('\n\n');
+  if (omittedCommits > 0) {
+    text += `\n\n... (${omittedCommits} more commits)`;
+  }
+
+  return {
+    text,
+    usedTokens: availableTokens - remaining,
+    includedPatches,
+    totalPatches
+  };
+}
+
+function formatPullRequestHeader(pr: PullRequestSummary): string {
+  const details = [
+    pr.author ? `Author: @${pr.author}` : null,
+    pr.labels.length > 0 ? `Labels: ${pr.labels.join(', ')}` : null,
+    pr.linkedIssues.length > 0 ? `Closes: ${pr.linkedIssues.map(issue => `#${issue}`).join(', ')}` : null
+  ].filter(Boolean);
+
+  return [`PR #${pr.number}: ${pr.title}`, pr.url, ...(details.length > 0 ? [details.join(' | ')] : [])].join('\n');
+}
+
+function cleanPullRequestBody(body: string): string {
+  return body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export interface SelectedPullRequestContent {
+  text: string;
+  usedTokens: number;
+  includedDescriptions: number;
+  totalDescriptions: number;
+}
+
+// Same approach as selectDiffContent: every PR title first, newest first, then descriptions while they fit
+export function selectPullRequestContent(pullRequests: PullRequestSummary[], availableTokens: number, tokenizer: TokenizerName): SelectedPullRequestContent {
+  let remaining = availableTokens;
+  let omitted = 0;
+  const sections: string[] = [];
+  const newestFirst = [...pullRequests].sort((a, b) => new Date(b.mergedAt).getTime() - new Date(a.mergedAt).getTime());
+
+  newestFirst.forEach(pr => {
+    const header = formatPullRequestHeader(pr);
+    const tokens = countTokens(header, tokenizer);
+    if (tokens <= remaining) {
+      sections.push(header);
+      remaining -= tokens;
+    } else {
+      sections.push('');
+      omitted++;
+    }
+  });
+
+  let includedDescriptions = 0;
+  let totalDescriptions = 0;
+  newestFirst.forEach((pr, index) => {
+    const body = cleanPullRequestBody(pr.body ?? '');
+    if (!body || !sections[index]) {
+      return;
+    }
+    totalDescriptions++;
+    const description = `\n${truncateToTokens(body, MAX_PR_BODY_TOKENS, tokenizer)}`;
+    const tokens = countTokens(description, tokenizer);
+    if (tokens <= remaining) {
+      sections[index] += description;
+      remaining -= tokens;
+      includedDescriptions++;
+    }
+  });
+
+  let text = sections.filter(Boolean).join('\n\n');
+  if (omitted > 0) {
+    text += `\n\n... (${omitted} more pull requests)`;
+  }
+
+  return {
+    text,
+    usedTokens: availableTokens - remaining,
+    includedDescriptions,
+    totalDescriptions
+  };
+}
@@ -0,0 +1,60 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+
+// BPE vocabularies bundled with js-tiktoken, so counting never needs the network.
+// 'approximate' is the old characters-per-token heuristic for unknown backends.
+export type TokenizerName = 'cl100k_base' | 'o200k_base' | 'approximate';
+
+export const CHARS_PER_TOKEN = 4;
+
+const RANKS = {
+  cl100k_base,
+  o200k_base
+};
+
+const encoders = new Map<TokenizerName, Tiktoken>();
+
+function getEncoder(tokenizer: Exclude<TokenizerName, 'approximate'>): Tiktoken {
+  let encoder = encoders.get(tokenizer);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[tokenizer]);
+    encoders.set(tokenizer, encoder);
+  }
+  return encoder;
+}
+
+export function countTokens(text: string, tokenizer: TokenizerName = 'approximate'): number {
+  if (tokenizer === 'approximate') {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+  return getEncoder(tokenizer).encode(text).length;
+}
+
+// Cheap answer for texts far outside the budget, exact count otherwise
+export function fitsInTokens(text: string, maxTokens: number, tokenizer: TokenizerName = 'approximate'): boolean {
+  if (text.length <= maxTokens) {
+    return true;
+  }
+  // No BPE vocabulary averages anywhere near 10 characters per token
+  if (text.length > maxTokens * 10) {
+    return false;
+  }
+  return countTokens(text, tokenizer) <= maxTokens;
+}
+
+// Cut text down to maxTokens, marking where it was cut
+export function truncateToTokens(text: string, maxTokens: number, tokenizer: TokenizerName = 'approximate'): string {
+  if (fitsInTokens(text, maxTokens, tokenizer)) {
+    return text;
+  }
+
+  if (tokenizer === 'approximate') {
+    return `${text.substring(0, maxTokens * CHARS_PER_TOKEN)}\n... (truncated)`;
+  }
+
+  const encoder = getEncoder(tokenizer);
+  // Encoding a huge string just to keep its head is wasteful, so trim it first
+  const head = text.substring(0, maxTokens * 10);
+  return `${encoder.decode(encoder.encode(head).slice(0, maxTokens))}\n... (truncated)`;
+}
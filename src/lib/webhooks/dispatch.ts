@@ -0,0 +1,70 @@
+import logger from '../logger';
+import type { Outbox } from '../outbox/outbox';
+import type { OutboxMessage } from '../outbox/outbox-store';
+import { SIGNATURE_HEADER, signRequest } from '../signing';
+import { createEvent, repoNameFromUrl, WebhookEvent, WebhookEventMap, WebhookEventType } from './events';
+import { findSubscription, subscribersTo } from './subscriptions';
+
+// Outbox kind for one event on its way to one subscriber
+export const WEBHOOK_DELIVER = 'webhook.deliver';
+
+export const EVENT_HEADER = 'X-Gramphibian-Event';
+export const DELIVERY_HEADER = 'X-Gramphibian-Delivery';
+
+export interface WebhookDeliveryPayload {
+  subscription: string;
+  event: WebhookEvent;
+}
+
+function repoOf(data: WebhookEventMap[WebhookEventType]): string {
+  return 'repo' in data ? data.repo : repoNameFromUrl(data.repoUrl);
+}
+
+// Queues the event for every subscriber to it, returning without waiting for
+// the sends. Takes the outbox so its own handlers can raise events too.
+export async function enqueueEvent<T extends WebhookEventType>(outbox: Outbox, type: T, data: WebhookEventMap[T]): Promise<WebhookEvent<T> | undefined> {
+  const subscribers = subscribersTo(type, repoOf(data));
+  if (subscribers.length === 0) {
+    return undefined;
+  }
+
+  const event = createEvent(type, data);
+  for (const subscription of subscribers) {
+    await outbox.enqueue({
+      kind: WEBHOOK_DELIVER,
+      idempotencyKey: `webhook:${subscription.name}:${event.id}`,
+      payload: { subscription: subscription.name, event },
+      historyId: 'historyId' in data ? data.historyId : undefined
+    }, { background: true });
+  }
+  logger.info('Queued webhook event', { id: event.id, type, subscribers: subscribers.length });
+  return event;
+}
+
+// Looks the subscription up at send time, so changed URLs and rotated secrets apply to retries
+export async function sendWebhook(message: OutboxMessage): Promise<{ status: number }> {
+  const { subscription: name, event } = message.payload as unknown as WebhookDeliveryPayload;
+  const subscription = findSubscription(name);
+  if (!subscription) {
+    throw new Error(`Webhook subscription "${name}" is no longer configured`);
+  }
+
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [EVENT_HEADER]: event.type,
+    [DELIVERY_HEADER]: event.id
+  };
+  const secret = subscription.secret ?? process.env.WEBHOOK_SIGNING_SECRET;
+  if (secret) {
+    const { pathname, search } = new URL(subscription.url);
+    headers[SIGNATURE_HEADER] = signRequest({ method: 'POST', path: `${pathname}${search}`, body }, secret);
+  }
+
+  const response = await fetch(subscription.url, { method: 'POST', headers, body });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${name} answered ${response.status}: ${errorText.substring(0, 200)}`);
+  }
+  return { status: response.status };
+}
@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto';
+import type { ChangelogMode } from '../config';
+import type { DiffStats } from '../github-diff-generator';
+import type { ResolvedRefs } from '../github/refs';
+import type { StoredRange } from '../history/history-store';
+import type { OutputFormat } from '../renderers';
+
+export const WEBHOOK_EVENTS = [
+  'changelog.generated',
+  'changelog.edited',
+  'changelog.published',
+  'changelog.unpublished',
+  'generation.failed'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+interface ChangelogEventData {
+  // Set when the changelog is in the history
+  historyId?: string;
+  // "owner/repo"
+  repo: string;
+  repoUrl: string;
+  period: {
+    start: string;
+    end: string;
+  };
+}
+
+// A finished changelog, as generated or as edited since
+export interface ChangelogDetails extends ChangelogEventData {
+  // The range as requested; `period` and `refs` are what it resolved to
+  range: StoredRange;
+  refs?: ResolvedRefs;
+  branch: string;
+  mode: ChangelogMode;
+  provider: string;
+  preset: string;
+  format: OutputFormat;
+  content: string;
+}
+
+export interface ChangelogGeneratedData extends ChangelogDetails {
+  // Commits or pull requests the changelog was written from
+  sourceCount: number;
+  // Additions, deletions and commits in the range, in commit mode
+  stats?: DiffStats;
+  // Generated for a new release, waiting for review
+  draft?: boolean;
+}
+
+export interface ChangelogPublishedData extends ChangelogEventData {
+  entryId: string;
+  content: string;
+}
+
+export interface ChangelogUnpublishedData extends Omit<ChangelogEventData, 'period'> {
+  entryId: string;
+}
+
+export interface GenerationFailedData {
+  repoUrl: string;
+  range: StoredRange;
+  branch?: string;
+  mode?: ChangelogMode;
+  provider?: string;
+  preset?: string;
+  error: {
+    // What the API answered with
+    status: number;
+    message: string;
+    type?: string;
+  };
+}
+
+export interface WebhookEventMap {
+  'changelog.generated': ChangelogGeneratedData;
+  'changelog.edited': ChangelogDetails;
+  'changelog.published': ChangelogPublishedData;
+  'changelog.unpublished': ChangelogUnpublishedData;
+  'generation.failed': GenerationFailedData;
+}
+
+// The JSON body every subscriber receives
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  // Unique per event; the same across retries, so receivers can drop duplicates
+  id: string;
+  type: T;
+  createdAt: string;
+  data: WebhookEventMap[T];
+}
+
+export function createEvent<T extends WebhookEventType>(type: T, data: WebhookEventMap[T]): WebhookEvent<T> {
+  return { id: randomUUID(), type, createdAt: new Date().toISOString(), data };
+}
+
+// "owner/repo" from a GitHub repository URL
+export function repoNameFromUrl(repoUrl: string): string {
+  return repoUrl.replace(/^https:\/\/github\.com\//, '').replace(/\.git$/, '').replace(/\/$/, '');
+}
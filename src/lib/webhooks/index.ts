@@ -0,0 +1,81 @@
+import logger from '../logger';
+import { getOutbox } from '../outbox/outbox';
+import type { OutboxMessage, OutboxStatus } from '../outbox/outbox-store';
+import { enqueueEvent, WEBHOOK_DELIVER, WebhookDeliveryPayload } from './dispatch';
+import type { WebhookEventMap, WebhookEventType } from './events';
+
+export { WEBHOOK_EVENTS } from './events';
+export type { WebhookEvent, WebhookEventMap, WebhookEventType } from './events';
+export { listSubscriptions } from './subscriptions';
+export type { WebhookSubscription } from './subscriptions';
+
+// One entry in the delivery log
+export interface WebhookDelivery {
+  id: string;
+  subscription: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  // HTTP status the subscriber answered with, once delivered
+  responseStatus?: number;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+export interface WebhookDeliveryQuery {
+  subscription?: string;
+  eventType?: string;
+  status?: OutboxStatus;
+}
+
+export function toWebhookDelivery(message: OutboxMessage): WebhookDelivery {
+  const { subscription, event } = message.payload as unknown as WebhookDeliveryPayload;
+  return {
+    id: message.id,
+    subscription,
+    eventId: event.id,
+    eventType: event.type,
+    status: message.status,
+    attempts: message.attempts,
+    nextAttemptAt: message.nextAttemptAt,
+    lastError: message.lastError,
+    responseStatus: message.result?.status as number | undefined,
+    createdAt: message.createdAt,
+    deliveredAt: message.deliveredAt
+  };
+}
+
+// Raising an event never fails what raised it; problems are logged
+export async function emitEvent<T extends WebhookEventType>(type: T, data: WebhookEventMap[T]): Promise<void> {
+  try {
+    await enqueueEvent(getOutbox(), type, data);
+  } catch (error) {
+    logger.warn('Failed to queue webhook event', {
+      type,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// Newest first
+export async function listWebhookDeliveries({ subscription, eventType, status }: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+  const messages = await getOutbox().list({ kind: WEBHOOK_DELIVER, status });
+  return messages
+    .map(toWebhookDelivery)
+    .filter(delivery => (!subscription || delivery.subscription === subscription)
+      && (!eventType || delivery.eventType === eventType))
+    .reverse();
+}
+
+// Sends a pending or failed delivery now; undefined when it isn't a webhook delivery
+export async function retryWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+  const outbox = getOutbox();
+  const existing = await outbox.get(id);
+  if (!existing || existing.kind !== WEBHOOK_DELIVER) {
+    return undefined;
+  }
+  return toWebhookDelivery(await outbox.retry(id) ?? existing);
+}
@@ -0,0 +1,28 @@
+import { loadConfig } from '../config';
+import type { WebhookEventType } from './events';
+
+export interface WebhookSubscription {
+  // Identifies the subscription in the delivery log
+  name: string;
+  url: string;
+  // Event types to send, or "*" for all of them
+  events: (WebhookEventType | '*')[];
+  // Only events about these "owner/repo"s; all repos when left out
+  repos?: string[];
+  // Signs deliveries; defaults to WEBHOOK_SIGNING_SECRET
+  secret?: string;
+}
+
+export function listSubscriptions(): WebhookSubscription[] {
+  return loadConfig().webhooks ?? [];
+}
+
+export function findSubscription(name: string): WebhookSubscription | undefined {
+  return listSubscriptions().find(subscription => subscription.name === name);
+}
+
+export function subscribersTo(type: WebhookEventType, repo?: string): WebhookSubscription[] {
+  return listSubscriptions().filter(subscription =>
+    (subscription.events.includes('*') || subscription.events.includes(type))
+    && (!subscription.repos || (repo !== undefined && subscription.repos.includes(repo))));
+}